@@ -6,13 +6,26 @@
  */
 
 import * as path from 'path';
+import { formatWithOptions } from 'util';
 // import config from 'config'; // No longer directly used, ConfigService handles it
-import yargs from 'yargs';
+import yargs, { Argv } from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { ParserService } from './services/parser_service'; 
 import { LatexTranslatorService } from './services/latex-translator_service'; // 更新导入
-import type { TranslatorOptions } from './types'; // OpenAIConfig, MaskingOptions 不再直接被CLI使用
+import type { TranslatorOptions, TranslationProviderName, BilingualLayout, EstimateReport, RoundtripReport, CommentPolicy } from './types'; // OpenAIConfig, MaskingOptions 不再直接被CLI使用
 import { ConfigService } from './services/config_service';
+import { TranslationCacheService } from './services/translation_cache_service';
+import { WatchService } from './services/watch_service';
+import { JobServerService } from './services/job_server_service';
+import { BudgetExceededError } from './services/usage_service';
+import { EstimationService } from './services/estimation_service';
+import { RoundtripService } from './services/roundtrip_service';
+import { XliffService } from './services/xliff_service';
+import { TranslationMemoryService } from './services/translation_memory_service';
+import { FileService } from './services/file_service';
+import { TRANSLATION_PROVIDER_NAMES } from './providers';
+import { ProgressBar } from './utils/progress.utils';
+import { formatCost } from './utils/usage.utils';
 import log from './utils/logger'; // 引入日志服务
 
 // 主函数
@@ -71,86 +84,218 @@ async function main() {
       await handleParseCommand(argv);
     })
     .command('translate <inputPath>', '翻译LaTeX文件或项目', (yargs) => {
-      return yargs
+      return addTranslateOptions(yargs
         .positional('inputPath', {
           describe: 'LaTeX文件或项目目录的路径',
           type: 'string'
+        }), configService)
+        .option('progress', {
+          describe: '显示带预计剩余时间的进度条 (--no-progress 关闭)',
+          type: 'boolean',
+          default: Boolean(process.stderr.isTTY),
+          defaultDescription: '在终端中运行时启用'
         })
-        .option('api-key', {
-          describe: 'OpenAI API密钥',
+        .option('fail-on-qa', {
+          describe: '质量检查发现问题时以退出码 3 结束: error (默认，只看错误) 或 warning (错误和警告)，指定后总是进行质量检查',
           type: 'string',
-          default: configService.getOpenAIConfig().apiKey || '', 
-          defaultDescription: '配置文件中的值'
+          coerce: (arg: string) => {
+            const level = arg || 'error';
+            if (level !== 'error' && level !== 'warning') {
+              throw new Error(`无效的 --fail-on-qa 参数: "${arg}"，可选值为 error 或 warning`);
+            }
+            return level;
+          }
+        });
+    }, async (argv) => {
+      await handleTranslateCommand(argv);
+    })
+    .command('estimate <inputPath>', '预估翻译的文本块数、token 用量和费用 (不调用翻译接口)', (yargs) => {
+      return yargs
+        .positional('inputPath', {
+          describe: 'LaTeX文件或项目目录的路径',
+          type: 'string'
         })
-        .option('base-url', {
-          describe: 'OpenAI API基础URL',
+        .option('model', {
+          describe: '用于选择文本块预算和价格的模型',
           type: 'string',
-          default: configService.getOpenAIConfig().baseUrl || 'https://api.openai.com/v1', 
-          defaultDescription: '配置文件中的值'
+          default: configService.getOpenAIConfig().model,
+          defaultDescription: '配置文件中的值 (openai.model)'
         })
-        .option('model', {
-          describe: 'OpenAI模型',
+        .option('context', {
+          describe: '按附带前文上下文估算输入 token (--no-context 关闭)',
+          type: 'boolean',
+          default: configService.getDefaultTranslatorOptions().context,
+          defaultDescription: '配置文件中的值 (translation.context.enabled)'
+        })
+        .option('context-tokens', {
+          describe: '前文上下文中原文和译文各自最多保留的 token 数',
+          type: 'number',
+          default: configService.getDefaultTranslatorOptions().contextTokens,
+          defaultDescription: '配置文件中的值 (translation.context.maxTokens)'
+        })
+        .option('output-ratio', {
+          describe: '译文 token 数与原文 token 数之比',
+          type: 'number',
+          default: configService.get<number>('translation.estimate.outputRatio', 1),
+          defaultDescription: '配置文件中的值 (translation.estimate.outputRatio)'
+        })
+        .option('o', {
+          alias: 'output',
+          describe: '将完整的预估报告保存为 JSON 文件',
+          type: 'string'
+        });
+    }, async (argv) => {
+      await handleEstimateCommand(argv);
+    })
+    .command('roundtrip <inputPath>', '检查掩码后直接还原 (不翻译) 的结果是否与原文逐字节一致', (yargs) => {
+      return yargs
+        .positional('inputPath', {
+          describe: 'LaTeX文件或项目目录的路径',
+          type: 'string'
+        })
+        .option('o', {
+          alias: 'output',
+          describe: '将完整的检查报告保存为 JSON 文件',
+          type: 'string'
+        });
+    }, async (argv) => {
+      await handleRoundtripCommand(argv);
+    })
+    .command('export-xliff <inputPath>', '将掩码后的文本导出为 XLIFF 2.0 文件，供 CAT 工具翻译或译后编辑', (yargs) => {
+      return yargs
+        .positional('inputPath', {
+          describe: 'LaTeX文件或项目目录的路径',
+          type: 'string'
+        })
+        .option('o', {
+          alias: 'output',
+          describe: 'XLIFF 文件路径 (旁路文件保存为同名的 .json)',
           type: 'string',
-          default: configService.getOpenAIConfig().model || 'gpt-3.5-turbo', 
-          defaultDescription: '配置文件中的值'
+          defaultDescription: '<输出目录>/<项目名>/xliff/<项目名>.xlf'
         })
         .option('target-lang', {
           describe: '目标语言',
           type: 'string',
-          default: configService.getDefaultTranslatorOptions().targetLanguage, 
-          defaultDescription: '配置文件中的值'
+          default: configService.getDefaultTranslatorOptions().targetLanguage,
+          defaultDescription: '配置文件中的值 (translation.defaultTargetLanguage)'
         })
         .option('source-lang', {
           describe: '源语言',
           type: 'string',
-          default: configService.getDefaultTranslatorOptions().sourceLanguage, 
-          defaultDescription: '配置文件中的值'
+          default: configService.getDefaultTranslatorOptions().sourceLanguage,
+          defaultDescription: '配置文件中的值 (translation.defaultSourceLanguage)'
+        });
+    }, async (argv) => {
+      await handleExportXliffCommand(argv);
+    })
+    .command('import-xliff <xliffPath>', '导入翻译后的 XLIFF 文件，重建译文目录 translated/', (yargs) => {
+      return yargs
+        .positional('xliffPath', {
+          describe: 'XLIFF 文件的路径',
+          type: 'string'
+        })
+        .option('sidecar', {
+          describe: '导出时生成的旁路文件',
+          type: 'string',
+          defaultDescription: '<XLIFF 文件>.json'
         })
         .option('o', {
           alias: 'output-dir',
-          describe: '输出基础目录（将在其中创建项目子目录）',
+          describe: '输出根目录',
           type: 'string',
-          default: configService.getDefaultTranslatorOptions().outputDir, 
-          defaultDescription: '配置文件中的值'
-        })
-        .option('temp', {
-          alias: 'temperature',
-          describe: '模型温度参数 (0-1)',
-          type: 'number',
-          default: configService.getOpenAIConfig().temperature ?? 0.3, // Use ?? for potentially undefined values from getOpenAIConfig
-          defaultDescription: '配置文件中的值'
+          default: configService.getDefaultTranslatorOptions().outputDir,
+          defaultDescription: '配置文件中的值 (output.defaultOutputDir)'
+        });
+    }, async (argv) => {
+      await handleImportXliffCommand(argv);
+    })
+    .command('export-tmx <tmxPath>', '将翻译记忆库导出为 TMX 文件', (yargs) => {
+      return yargs
+        .positional('tmxPath', {
+          describe: 'TMX 文件的路径',
+          type: 'string'
         })
-        .option('mask-env', {
-          describe: '要掩码的普通环境，用逗号分隔',
+        .option('memory-file', {
+          describe: '翻译记忆库文件路径',
           type: 'string',
-          defaultDescription: '配置文件中的值' // Default comes from merged options in LaTeXTranslator constructor
+          default: configService.getDefaultTranslatorOptions().memoryPath,
+          defaultDescription: '配置文件中的值 (translation.memory.path)'
         })
-        .option('mask-math-env', {
-          describe: '要掩码的数学环境，用逗号分隔',
-          type: 'string',
-          defaultDescription: '配置文件中的值'
+        .option('source-lang', {
+          describe: '只导出该源语言的记录',
+          type: 'string'
+        });
+    }, async (argv) => {
+      await handleExportTmxCommand(argv);
+    })
+    .command('import-tmx <tmxPath>', '将 TMX 文件中的翻译单元导入翻译记忆库', (yargs) => {
+      return yargs
+        .positional('tmxPath', {
+          describe: 'TMX 文件的路径',
+          type: 'string'
         })
-        .option('mask-cmd', {
-          describe: '要掩码的命令，用逗号分隔',
+        .option('memory-file', {
+          describe: '翻译记忆库文件路径',
           type: 'string',
-          defaultDescription: '配置文件中的值'
+          default: configService.getDefaultTranslatorOptions().memoryPath,
+          defaultDescription: '配置文件中的值 (translation.memory.path)'
+        });
+    }, async (argv) => {
+      await handleImportTmxCommand(argv);
+    })
+    .command('watch <inputPath>', '翻译项目后持续监视源文件，只重新翻译发生变化的文件', (yargs) => {
+      return addTranslateOptions(yargs
+        .positional('inputPath', {
+          describe: 'LaTeX文件或项目目录的路径',
+          type: 'string'
+        }), configService)
+        .option('debounce', {
+          describe: '最后一次文件变更后等待的毫秒数',
+          type: 'number',
+          default: configService.get<number>('watch.debounceMs', 500),
+          defaultDescription: '配置文件中的值 (watch.debounceMs)'
+        });
+    }, async (argv) => {
+      await handleWatchCommand(argv);
+    })
+    .command('serve', '启动本地 HTTP 服务，以任务接口提供解析和翻译', (yargs) => {
+      // 翻译选项作为所有任务的默认值，部分字段可由请求参数覆盖
+      return addTranslateOptions(yargs, configService)
+        .option('host', {
+          describe: '监听地址',
+          type: 'string',
+          default: configService.get<string>('server.host', '127.0.0.1'),
+          defaultDescription: '配置文件中的值 (server.host)'
         })
-        .option('no-mask-math', {
-          describe: '不掩码数学公式',
-          type: 'boolean',
-          default: !configService.getDefaultTranslatorOptions().maskingOptions.maskInlineMath, 
-          defaultDescription: '配置文件中的值'
+        .option('port', {
+          alias: 'p',
+          describe: '监听端口',
+          type: 'number',
+          default: configService.get<number>('server.port', 3000),
+          defaultDescription: '配置文件中的值 (server.port)'
         })
-        .option('bypass-llm', { // 新增 bypass-llm 选项
-          describe: '跳过LLM翻译，直接使用掩码文本 (用于调试)',
-          type: 'boolean',
-          // 默认值将由 TranslatorOptions 内部或 ConfigService 处理，这里不设置，以便区分用户是否明确传入
-          defaultDescription: '配置文件中的值 (translation.bypassLLMTranslation)'
+        .option('workers', {
+          describe: '同时运行的任务数',
+          type: 'number',
+          default: configService.get<number>('server.workers', 1),
+          defaultDescription: '配置文件中的值 (server.workers)'
+        })
+        .option('work-dir', {
+          describe: '保存上传文件和任务输出的目录',
+          type: 'string',
+          default: configService.get<string>('server.workDir', './output/jobs'),
+          defaultDescription: '配置文件中的值 (server.workDir)'
+        })
+        .option('max-upload-mb', {
+          describe: '上传文件的大小上限 (MB)',
+          type: 'number',
+          default: configService.get<number>('server.maxUploadMb', 50),
+          defaultDescription: '配置文件中的值 (server.maxUploadMb)'
         });
     }, async (argv) => {
-      await handleTranslateCommand(argv);
+      await handleServeCommand(argv);
     })
-    .demandCommand(1, '请指定一个命令: parse 或 translate')
+    .demandCommand(1, '请指定一个命令: parse、translate、estimate、roundtrip、export-xliff、import-xliff、export-tmx、import-tmx、watch 或 serve')
     .help('h')
     .alias('h', 'help')
     .epilogue(`更多信息请参考README.md
@@ -183,6 +328,202 @@ async function main() {
   // 但通常 yargs(hideBin(process.argv)).command(...).parse() 会处理命令执行
 }
 
+/**
+ * 添加 translate 与 watch 命令共用的翻译参数
+ * @param yargs 命令的 yargs 实例
+ * @param configService 提供参数默认值的配置服务
+ */
+function addTranslateOptions<T>(yargs: Argv<T>, configService: ConfigService) {
+  return yargs
+    .option('provider', {
+      describe: '翻译提供者 (local 和 deepl 的连接设置见配置文件中的 local / deepl 块)',
+      type: 'string',
+      choices: TRANSLATION_PROVIDER_NAMES,
+      default: configService.getDefaultTranslatorOptions().provider,
+      defaultDescription: '配置文件中的值 (translation.provider)'
+    })
+    .option('api-key', {
+      describe: 'OpenAI API密钥',
+      type: 'string',
+      default: configService.getOpenAIConfig().apiKey || '', 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('base-url', {
+      describe: 'OpenAI API基础URL',
+      type: 'string',
+      default: configService.getOpenAIConfig().baseUrl || 'https://api.openai.com/v1', 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('model', {
+      describe: 'OpenAI模型',
+      type: 'string',
+      default: configService.getOpenAIConfig().model || 'gpt-3.5-turbo', 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('target-lang', {
+      describe: '目标语言',
+      type: 'string',
+      default: configService.getDefaultTranslatorOptions().targetLanguage, 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('source-lang', {
+      describe: '源语言',
+      type: 'string',
+      default: configService.getDefaultTranslatorOptions().sourceLanguage, 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('o', {
+      alias: 'output-dir',
+      describe: '输出基础目录（将在其中创建项目子目录）',
+      type: 'string',
+      default: configService.getDefaultTranslatorOptions().outputDir, 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('temp', {
+      alias: 'temperature',
+      describe: '模型温度参数 (0-1)',
+      type: 'number',
+      default: configService.getOpenAIConfig().temperature ?? 0.3, // Use ?? for potentially undefined values from getOpenAIConfig
+      defaultDescription: '配置文件中的值'
+    })
+    .option('concurrency', {
+      describe: '同时翻译的文本块数',
+      type: 'number',
+      default: configService.getOpenAIConfig().concurrency ?? 1,
+      defaultDescription: '配置文件中的值 (openai.concurrency)'
+    })
+    .option('rpm', {
+      alias: 'requests-per-minute',
+      describe: '每分钟最大请求数 (0 表示不限制)',
+      type: 'number',
+      default: configService.getOpenAIConfig().requestsPerMinute ?? 0,
+      defaultDescription: '配置文件中的值 (openai.requestsPerMinute)'
+    })
+    .option('tpm', {
+      alias: 'tokens-per-minute',
+      describe: '每分钟最大 token 数 (0 表示不限制)',
+      type: 'number',
+      default: configService.getOpenAIConfig().tokensPerMinute ?? 0,
+      defaultDescription: '配置文件中的值 (openai.tokensPerMinute)'
+    })
+    .option('mask-env', {
+      describe: '要掩码的普通环境，用逗号分隔',
+      type: 'string',
+      defaultDescription: '配置文件中的值' // Default comes from merged options in LaTeXTranslator constructor
+    })
+    .option('mask-math-env', {
+      describe: '要掩码的数学环境，用逗号分隔',
+      type: 'string',
+      defaultDescription: '配置文件中的值'
+    })
+    .option('mask-cmd', {
+      describe: '要掩码的命令，用逗号分隔',
+      type: 'string',
+      defaultDescription: '配置文件中的值'
+    })
+    .option('no-mask-math', {
+      describe: '不掩码数学公式',
+      type: 'boolean',
+      default: !configService.getDefaultTranslatorOptions().maskingOptions.maskInlineMath, 
+      defaultDescription: '配置文件中的值'
+    })
+    .option('comments', {
+      describe: '注释的处理方式: drop 删除，preserve 原样保留，translate 翻译注释文本',
+      type: 'string',
+      choices: ['drop', 'preserve', 'translate'],
+      defaultDescription: '配置文件中的值 (translation.maskOptions.commentPolicy)'
+    })
+    .option('bypass-llm', { // 新增 bypass-llm 选项
+      describe: '跳过LLM翻译，直接使用掩码文本 (用于调试)',
+      type: 'boolean',
+      // 默认值将由 TranslatorOptions 内部或 ConfigService 处理，这里不设置，以便区分用户是否明确传入
+      defaultDescription: '配置文件中的值 (translation.bypassLLMTranslation)'
+    })
+    .option('cache', {
+      describe: '启用翻译缓存，命中的文本块不再调用LLM (使用 --no-cache 跳过缓存)',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().useCache,
+      defaultDescription: '配置文件中的值 (translation.cache.enabled)'
+    })
+    .option('clear-cache', {
+      describe: '翻译开始前清空翻译缓存',
+      type: 'boolean',
+      default: false
+    })
+    .option('memory', {
+      describe: '使用翻译记忆库：完全匹配的文本块直接复用译文，模糊匹配作为参考译文，运行结束后写入本次译文 (--no-memory 关闭)',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().useMemory,
+      defaultDescription: '配置文件中的值 (translation.memory.enabled)'
+    })
+    .option('memory-file', {
+      describe: '翻译记忆库文件路径',
+      type: 'string',
+      default: configService.getDefaultTranslatorOptions().memoryPath,
+      defaultDescription: '配置文件中的值 (translation.memory.path)'
+    })
+    .option('resume', {
+      describe: '从项目 log/ 目录中的检查点继续上次中断的翻译，跳过已完成的文件和文本块',
+      type: 'boolean',
+      default: false
+    })
+    .option('glossary', {
+      describe: '术语表文件路径 (.csv 或 .json)',
+      type: 'string',
+      default: configService.getDefaultTranslatorOptions().glossaryPath || undefined,
+      defaultDescription: '配置文件中的值 (translation.glossary.path)'
+    })
+    .option('bilingual', {
+      describe: '输出原文与译文对照的双语文档',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().bilingual,
+      defaultDescription: '配置文件中的值 (output.mode 为 "bilingual" 时启用)'
+    })
+    .option('bilingual-layout', {
+      describe: '双语文档布局: interleave (原文段落后紧跟译文) 或 paracol (左右双栏)',
+      type: 'string',
+      choices: ['interleave', 'paracol'],
+      default: configService.getDefaultTranslatorOptions().bilingualLayout,
+      defaultDescription: '配置文件中的值 (output.bilingual.layout)'
+    })
+    .option('context', {
+      describe: '在提示词中附带前一个文本块的原文及译文，使术语和代词前后一致 (文本块将按顺序翻译)，使用 --no-context 关闭',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().context,
+      defaultDescription: '配置文件中的值 (translation.context.enabled)'
+    })
+    .option('context-tokens', {
+      describe: '前文上下文中原文和译文各自最多保留的 token 数',
+      type: 'number',
+      default: configService.getDefaultTranslatorOptions().contextTokens,
+      defaultDescription: '配置文件中的值 (translation.context.maxTokens)'
+    })
+    .option('validate-structure', {
+      describe: '翻译完成后重新解析译文，与原文比较环境、花括号、标签/引用键和公式数量 (--no-validate-structure 关闭)',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().validateStructure,
+      defaultDescription: '配置文件中的值 (output.validateStructure)'
+    })
+    .option('qa', {
+      describe: '翻译完成后检查译文质量 (未翻译的段落，数字、单位或 URL 不一致，长度比例异常，残留的 Markdown 标记和说明文字)，结果写入 log/qa_report.json (--no-qa 关闭)',
+      type: 'boolean',
+      default: configService.getDefaultTranslatorOptions().qa,
+      defaultDescription: '配置文件中的值 (output.qa.enabled)'
+    })
+    .option('max-cost', {
+      describe: '本次运行的费用上限 (美元，按 translation.pricing 中的价格计算)，达到后停止翻译，0 表示不限',
+      type: 'number',
+      default: configService.getDefaultTranslatorOptions().maxCost,
+      defaultDescription: '配置文件中的值 (translation.budget.maxCost)'
+    })
+    .option('max-tokens', {
+      describe: '本次运行的 token 上限 (输入与输出之和)，达到后停止翻译，0 表示不限',
+      type: 'number',
+      default: configService.getDefaultTranslatorOptions().maxTokens,
+      defaultDescription: '配置文件中的值 (translation.budget.maxTokens)'
+    });
+}
+
 /**
  * 处理解析命令
  * @param argv 命令行参数
@@ -206,63 +547,388 @@ async function handleParseCommand(argv: any): Promise<void> {
   }
 }
 
+/**
+ * 由命令行参数构造翻译选项 (translate 与 watch 命令共用)
+ * @param argv 命令行参数
+ */
+function buildTranslatorOptions(argv: any): TranslatorOptions {
+  // 构造 TranslatorOptions，这是传递给 LatexTranslatorService 的选项对象
+  const translatorOptions: TranslatorOptions = {
+    openaiConfig: { // 从 argv 直接构造 OpenAIConfig
+      apiKey: argv['api-key'] as string,
+      baseUrl: argv['base-url'] as string,
+      model: argv.model as string,
+      temperature: argv.temperature as number,
+      concurrency: argv.concurrency as number,
+      requestsPerMinute: argv.rpm as number,
+      tokensPerMinute: argv.tpm as number
+    },
+    targetLanguage: argv['target-lang'] as string,
+    sourceLanguage: argv['source-lang'] as string | undefined,
+    outputDir: argv['output-dir'] as string,
+    // maskingOptions 将由用户命令行参数或 ConfigService 的默认值（在 LatexTranslatorService 内部处理）提供
+    // 这里仅传递用户显式设置的掩码选项
+    maskingOptions: {},
+    // 如果命令行中指定了 bypassLLMTranslation，则使用它的值
+    bypassLLMTranslation: argv['bypass-llm'] as boolean | undefined,
+    useCache: argv.cache as boolean,
+    useMemory: argv.memory as boolean,
+    memoryPath: argv['memory-file'] as string,
+    resume: argv.resume as boolean,
+    provider: argv.provider as TranslationProviderName,
+    glossaryPath: argv.glossary as string | undefined,
+    bilingual: argv.bilingual as boolean,
+    bilingualLayout: argv['bilingual-layout'] as BilingualLayout,
+    context: argv.context as boolean,
+    contextTokens: argv['context-tokens'] as number,
+    validateStructure: argv['validate-structure'] as boolean,
+    // --fail-on-qa 需要质量检查的结果
+    qa: argv['fail-on-qa'] !== undefined ? true : argv.qa as boolean,
+    maxCost: argv['max-cost'] as number,
+    maxTokens: argv['max-tokens'] as number
+  };
+
+  if (argv['mask-env']) {
+    translatorOptions.maskingOptions!.regularEnvironments = 
+      (argv['mask-env'] as string).split(',').map((env: string) => env.trim());
+  }
+  if (argv['mask-math-env']) {
+    translatorOptions.maskingOptions!.mathEnvironments = 
+      (argv['mask-math-env'] as string).split(',').map((env: string) => env.trim());
+  }
+  if (argv['mask-cmd']) {
+    translatorOptions.maskingOptions!.maskCommands = 
+      (argv['mask-cmd'] as string).split(',').map((cmd: string) => cmd.trim());
+  }
+  if (argv['no-mask-math'] !== undefined) {
+    // 确保 maskingOptions 存在
+    if (!translatorOptions.maskingOptions) translatorOptions.maskingOptions = {};
+    translatorOptions.maskingOptions!.maskInlineMath = !argv['no-mask-math'];
+    translatorOptions.maskingOptions!.maskDisplayMath = !argv['no-mask-math'];
+  }
+  if (argv.comments) {
+    translatorOptions.maskingOptions!.commentPolicy = argv.comments as CommentPolicy;
+  }
+  return translatorOptions;
+}
+
+/**
+ * 按 --clear-cache 参数清空翻译缓存
+ */
+async function clearCacheIfRequested(argv: any): Promise<void> {
+  if (argv['clear-cache']) {
+    const cacheDir = ConfigService.getInstance().getDefaultTranslatorOptions().cacheDir;
+    await new TranslationCacheService(cacheDir).clear();
+  }
+}
+
 /**
  * 处理翻译命令
  * @param argv 命令行参数
  */
 async function handleTranslateCommand(argv: any): Promise<void> {
   try {
-    // 构造 TranslatorOptions，这是传递给 LatexTranslatorService 的选项对象
-    const translatorOptions: TranslatorOptions = {
-      openaiConfig: { // 从 argv 直接构造 OpenAIConfig
-        apiKey: argv['api-key'] as string,
-        baseUrl: argv['base-url'] as string,
-        model: argv.model as string,
-        temperature: argv.temperature as number
-      },
-      targetLanguage: argv['target-lang'] as string,
-      sourceLanguage: argv['source-lang'] as string | undefined,
-      outputDir: argv['output-dir'] as string,
-      // maskingOptions 将由用户命令行参数或 ConfigService 的默认值（在 LatexTranslatorService 内部处理）提供
-      // 这里仅传递用户显式设置的掩码选项
-      maskingOptions: {},
-      // 如果命令行中指定了 bypassLLMTranslation，则使用它的值
-      bypassLLMTranslation: argv['bypass-llm'] as boolean | undefined 
-    };
-
-    if (argv['mask-env']) {
-      translatorOptions.maskingOptions!.regularEnvironments = 
-        (argv['mask-env'] as string).split(',').map((env: string) => env.trim());
-    }
-    if (argv['mask-math-env']) {
-      translatorOptions.maskingOptions!.mathEnvironments = 
-        (argv['mask-math-env'] as string).split(',').map((env: string) => env.trim());
-    }
-    if (argv['mask-cmd']) {
-      translatorOptions.maskingOptions!.maskCommands = 
-        (argv['mask-cmd'] as string).split(',').map((cmd: string) => cmd.trim());
-    }
-    if (argv['no-mask-math'] !== undefined) {
-      // 确保 maskingOptions 存在
-      if (!translatorOptions.maskingOptions) translatorOptions.maskingOptions = {};
-      translatorOptions.maskingOptions!.maskInlineMath = !argv['no-mask-math'];
-      translatorOptions.maskingOptions!.maskDisplayMath = !argv['no-mask-math'];
-    }
+    const translatorOptions = buildTranslatorOptions(argv);
+    await clearCacheIfRequested(argv);
     
+    // 检查点在每个文件和文本块完成后即已写入，中断时只需提示用户如何继续
+    process.once('SIGINT', () => {
+      log.warn('翻译已中断。已完成的文件和文本块已保存到检查点，可使用 --resume 继续。');
+      process.exit(130);
+    });
+
     const translator = new LatexTranslatorService(translatorOptions); // 实例化新的 Service
-    const outputPath = await translator.translate(argv.inputPath as string);
+    const detachProgressBar = argv.progress ? attachProgressBar(translator) : null;
+    let outputPath: string;
+    try {
+      outputPath = await translator.translate(argv.inputPath as string);
+    } finally {
+      detachProgressBar?.();
+    }
     
     log.info('\n翻译完成！');
     log.info(`项目根目录: ${path.dirname(outputPath)}`);
     log.info(`翻译后文件: ${outputPath}`);
     log.info('你可以在翻译后的目录中直接编译LaTeX文件');
+
+    failOnQaIfRequested(argv, translator);
     
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      log.warn('已达到用量上限，翻译已停止。已完成的文件和文本块已保存到检查点，提高上限后可使用 --resume 继续。');
+      process.exit(2);
+    }
     log.error('翻译过程中出错:', error);
     process.exit(1);
   }
 }
 
+/**
+ * 按 --fail-on-qa 参数检查质量检查结果，存在指定级别的问题时以退出码 3 结束
+ */
+function failOnQaIfRequested(argv: any, translator: LatexTranslatorService): void {
+  const level = argv['fail-on-qa'] as 'error' | 'warning' | undefined;
+  const report = translator.getQaReport();
+  if (!level || !report) return;
+  const count = level === 'warning' ? report.errors + report.warnings : report.errors;
+  if (count > 0) {
+    const kinds = Object.entries(report.kinds).map(([kind, n]) => `${kind} ${n}`).join('，');
+    log.error(`质量检查未通过: ${report.errors} 个错误、${report.warnings} 个警告 (${kinds})，详见 log/qa_report.json`);
+    process.exit(3);
+  }
+}
+
+/**
+ * 处理预估命令：输出每个文件及合计的文本块数、token 和费用
+ * @param argv 命令行参数
+ */
+async function handleEstimateCommand(argv: any): Promise<void> {
+  try {
+    const estimator = new EstimationService({
+      model: argv.model as string,
+      contextTokens: argv.context ? argv['context-tokens'] as number : 0,
+      outputRatio: argv['output-ratio'] as number
+    });
+    const report = await estimator.estimate(argv.inputPath as string);
+    console.log(formatEstimateTable(report));
+    if (argv.output) {
+      const outputPath = path.resolve(argv.output as string);
+      await FileService.getInstance().writeFile(outputPath, JSON.stringify(report, null, 2), 'utf8');
+      log.info(`预估报告已保存至: ${outputPath}`);
+    }
+  } catch (error) {
+    log.error('预估过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 将预估报告格式化为文本表格
+ */
+function formatEstimateTable(report: EstimateReport): string {
+  const formatPlaceholders = (placeholders: Record<string, number>) =>
+    Object.entries(placeholders).sort(([a], [b]) => a.localeCompare(b)).map(([type, count]) => `${type} ${count}`).join(', ') || '-';
+  const formatRowCost = (cost: number) => report.price ? `$${formatCost(cost)}` : '-';
+  const rows = [
+    ['文件', '文本块', '输入 tokens', '输出 tokens', '费用', '占位符'],
+    ...report.files.map(file => [
+      file.fileId, String(file.chunks), String(file.inputTokens), String(file.outputTokens), formatRowCost(file.cost), formatPlaceholders(file.placeholders)
+    ]),
+    [
+      '合计', String(report.total.chunks), String(report.total.inputTokens), String(report.total.outputTokens),
+      formatRowCost(report.total.cost), formatPlaceholders(report.total.placeholders)
+    ]
+  ];
+  // 最后一列不补齐，CJK 字符按两个显示宽度计算
+  const displayWidth = (text: string) => Array.from(text).reduce((width, char) => width + (/[\u3000-\u9fff\uff00-\uffef]/.test(char) ? 2 : 1), 0);
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => displayWidth(row[column]))));
+  const lines = rows.map(row => row.map((cell, column) =>
+    column === row.length - 1 ? cell : cell + ' '.repeat(widths[column] - displayWidth(cell))
+  ).join('  '));
+  const price = report.price
+    ? `输入 $${report.price.input} / 输出 $${report.price.output} 每百万 tokens`
+    : '未在价格表中配置';
+  return [
+    `模型: ${report.model} (价格: ${price})，文本块预算 ${report.chunkTokenBudget} tokens`,
+    '',
+    ...lines,
+    '',
+    '估算不含失败重试和占位符/术语重新提示产生的额外请求，实际用量可能更高。'
+  ].join('\n');
+}
+
+/**
+ * 处理往返检查命令：逐个文件输出是否与原文一致，存在差异时以退出码 1 结束
+ * @param argv 命令行参数
+ */
+async function handleRoundtripCommand(argv: any): Promise<void> {
+  let report: RoundtripReport;
+  try {
+    report = await new RoundtripService().check(argv.inputPath as string);
+    if (argv.output) {
+      const outputPath = path.resolve(argv.output as string);
+      await FileService.getInstance().writeFile(outputPath, JSON.stringify(report, null, 2), 'utf8');
+      log.info(`往返检查报告已保存至: ${outputPath}`);
+    }
+  } catch (error) {
+    log.error('往返检查过程中出错:', error);
+    process.exit(1);
+  }
+  console.log(formatRoundtripReport(report));
+  if (report.identicalFiles < report.totalFiles) {
+    process.exit(1);
+  }
+}
+
+/**
+ * 将往返检查报告格式化为文本，不一致的文件列出第一处差异所在行的原文和输出
+ */
+function formatRoundtripReport(report: RoundtripReport): string {
+  const lines = report.files.map(file => {
+    if (file.identical) return `一致    ${file.fileId}`;
+    const difference = file.difference!;
+    return [
+      `不一致  ${file.fileId} (第 ${difference.line} 行第 ${difference.column} 列，原文 ${file.sourceLength} 字符，输出 ${file.outputLength} 字符)`,
+      `          原文: ${JSON.stringify(difference.expected)}`,
+      `          输出: ${JSON.stringify(difference.actual)}`
+    ].join('\n');
+  });
+  return [...lines, '', `${report.identicalFiles}/${report.totalFiles} 个文件与原文一致`].join('\n');
+}
+
+/**
+ * 处理 XLIFF 导出命令
+ * @param argv 命令行参数
+ */
+async function handleExportXliffCommand(argv: any): Promise<void> {
+  try {
+    const service = new XliffService({
+      targetLanguage: argv['target-lang'] as string,
+      sourceLanguage: argv['source-lang'] as string | undefined
+    });
+    const result = await service.exportProject(argv.inputPath as string, argv.output as string | undefined);
+    console.log(`已导出 ${result.files} 个文件、${result.units} 个翻译单元: ${result.xliffPath}`);
+  } catch (error) {
+    log.error('导出 XLIFF 过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 处理 XLIFF 导入命令
+ * @param argv 命令行参数
+ */
+async function handleImportXliffCommand(argv: any): Promise<void> {
+  try {
+    const result = await new XliffService().importProject(argv.xliffPath as string, {
+      sidecarPath: argv.sidecar as string | undefined,
+      outputDir: argv['output-dir'] as string
+    });
+    console.log(`已导入 ${result.files} 个文件、${result.units} 个翻译单元 (无译文 ${result.untranslatedUnits}，占位符已修复 ${result.repairedUnits}): ${result.outputPath}`);
+  } catch (error) {
+    log.error('导入 XLIFF 过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 处理 TMX 导出命令
+ * @param argv 命令行参数
+ */
+async function handleExportTmxCommand(argv: any): Promise<void> {
+  try {
+    const memory = new TranslationMemoryService(argv['memory-file'] as string);
+    await memory.load();
+    const count = await memory.exportTmx(argv.tmxPath as string, argv['source-lang'] as string | undefined);
+    console.log(`已导出 ${count} 条翻译记忆: ${path.resolve(argv.tmxPath as string)}`);
+  } catch (error) {
+    log.error('导出 TMX 过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 处理 TMX 导入命令
+ * @param argv 命令行参数
+ */
+async function handleImportTmxCommand(argv: any): Promise<void> {
+  try {
+    const memory = new TranslationMemoryService(argv['memory-file'] as string);
+    await memory.load();
+    const count = await memory.importTmx(argv.tmxPath as string);
+    await memory.save();
+    console.log(`已导入 ${count} 条翻译记忆，记忆库共 ${memory.getStats().entries} 条: ${memory.getPath()}`);
+  } catch (error) {
+    log.error('导入 TMX 过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 在标准错误上显示翻译进度条。日志输出前先擦除进度条、输出后重绘，避免两者混在同一行
+ * @param translator 翻译服务
+ * @returns 停止显示并恢复日志输出的函数
+ */
+function attachProgressBar(translator: LatexTranslatorService): () => void {
+  const progressBar = new ProgressBar(process.stderr);
+  const previousOverwrite = log.settings.overwrite;
+  log.settings.overwrite = {
+    ...previousOverwrite,
+    transportFormatted: (logMetaMarkup, logArgs, logErrors, settings) => {
+      progressBar.clear();
+      const logErrorsStr = (logErrors.length > 0 && logArgs.length > 0 ? '\n' : '') + logErrors.join('\n');
+      console.log(logMetaMarkup + formatWithOptions({ ...settings.prettyInspectOptions, colors: settings.stylePrettyLogs }, ...logArgs) + logErrorsStr);
+      progressBar.render();
+    }
+  };
+  const onProgress = () => progressBar.update(translator.getProgress());
+  translator.on('file:start', onProgress).on('progress', onProgress);
+  return () => {
+    translator.off('file:start', onProgress).off('progress', onProgress);
+    progressBar.done();
+    log.settings.overwrite = previousOverwrite;
+  };
+}
+
+/**
+ * 处理监视命令：先完整翻译一次 (未改动的文本块命中翻译缓存)，再持续同步源文件的变更
+ * @param argv 命令行参数
+ */
+async function handleWatchCommand(argv: any): Promise<void> {
+  let watcher: WatchService | null = null;
+  process.once('SIGINT', async () => {
+    if (watcher) {
+      log.info('正在停止监视...');
+      await watcher.stop();
+      process.exit(0);
+    }
+    log.warn('翻译已中断。已完成的文件和文本块已保存到检查点，可使用 --resume 继续。');
+    process.exit(130);
+  });
+
+  try {
+    const translatorOptions = buildTranslatorOptions(argv);
+    await clearCacheIfRequested(argv);
+    const translator = new LatexTranslatorService(translatorOptions);
+    const outputPath = await translator.translate(argv.inputPath as string);
+    log.info(`初次翻译完成: ${outputPath}`);
+
+    watcher = new WatchService(translator, argv.inputPath as string, { debounceMs: argv.debounce as number });
+    await watcher.start();
+  } catch (error) {
+    log.error('监视过程中出错:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * 处理服务命令：启动任务服务，直到收到 SIGINT
+ * @param argv 命令行参数
+ */
+async function handleServeCommand(argv: any): Promise<void> {
+  try {
+    const translatorOptions = buildTranslatorOptions(argv);
+    await clearCacheIfRequested(argv);
+    const server = new JobServerService({
+      host: argv.host as string,
+      port: argv.port as number,
+      workers: argv.workers as number,
+      workDir: argv['work-dir'] as string,
+      maxUploadBytes: (argv['max-upload-mb'] as number) * 1024 * 1024,
+      translatorOptions
+    });
+    await server.start();
+    process.once('SIGINT', async () => {
+      log.info('正在停止任务服务...');
+      await server.stop();
+      process.exit(0);
+    });
+  } catch (error) {
+    log.error('启动任务服务时出错:', error);
+    process.exit(1);
+  }
+}
+
 // 执行主函数
 main().catch(error => {
   log.error('未处理的错误:', error);
@@ -7,12 +7,33 @@
 // 导出服务
 export { ParserService } from './services/parser_service';
 export { TranslationService } from './services/translation_service';
+export { TranslationCacheService } from './services/translation_cache_service';
+export { CheckpointService } from './services/checkpoint_service';
+export { GlossaryService } from './services/glossary_service';
+export { StructureValidationService } from './services/structure_validation_service';
+export { QaService } from './services/qa_service';
 export { MaskingService } from './services/masking_service';
 export { ReplacementService } from './services/replacement_service';
 export { LatexTranslatorService } from './services/latex-translator_service';
+export { WatchService } from './services/watch_service';
+export { JobServerService } from './services/job_server_service';
+export { UsageService, BudgetExceededError } from './services/usage_service';
+export { EstimationService } from './services/estimation_service';
+export { RoundtripService } from './services/roundtrip_service';
+export { XliffService } from './services/xliff_service';
+export { TranslationMemoryService } from './services/translation_memory_service';
 export { ConfigService } from './services/config_service';
 export { FileService } from './services/file_service';
 
+// 导出翻译提供者
+export {
+  OpenAIProvider,
+  LocalProvider,
+  DeepLProvider,
+  ProviderRequestError,
+  createTranslationProvider
+} from './providers';
+
 // 导出工具函数 (如果需要对外暴露)
 export * from './utils';
 
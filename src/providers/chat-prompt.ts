@@ -0,0 +1,77 @@
+/**
+ * src/providers/chat-prompt.ts
+ * 
+ * 基于对话模型的提供者 (OpenAI、本地模型) 共用的提示词构造与输出清理。
+ */
+import type { TranslationContext } from '../types';
+
+// 提示词版本号，修改 createTranslationPrompt 或系统提示词后需递增，使旧缓存失效
+export const PROMPT_VERSION = 2;
+
+export const SYSTEM_PROMPT = '你是一个专业的翻译器，专注于学术文档和LaTeX文件的翻译。保持专业术语的准确性，并确保输出格式与输入一致。'; // 中文提示
+
+/**
+ * 创建翻译提示
+ * @param text 要翻译的文本
+ * @param context 翻译上下文
+ * @returns 翻译提示
+ */
+export function createTranslationPrompt(text: string, context: TranslationContext): string {
+  const { targetLanguage, sourceLanguage, instructions = [], glossary = [], reference, memoryMatches = [] } = context;
+  let prompt = '';
+  const placeholderInstruction = '请务必完整保留所有XML风格的占位符标签（例如 <ph id="CMD_0001"/>），不要翻译它们或修改它们的任何部分。' + // 中文提示
+    '成对标签（例如 <ph id="FMT_0001" arg="0">文本</ph>）中的文本需要翻译，但开始和结束标签必须原样保留，并包裹对应的译文。';
+
+  if (sourceLanguage) {
+    prompt = `将以下${sourceLanguage}文本翻译成${targetLanguage}。${placeholderInstruction}\n\n\`\`\`\n${text}\n\`\`\``;
+  } else {
+    prompt = `将以下文本翻译成${targetLanguage}。${placeholderInstruction}\n\n\`\`\`\n${text}\n\`\`\``;
+  }
+  if (glossary.length > 0) {
+    const lines = glossary.map(entry => entry.doNotTranslate
+      ? `- ${entry.source} → 保持原文，不要翻译`
+      : `- ${entry.source} → ${entry.target}`);
+    prompt += `\n\n请严格按照以下术语表翻译文中出现的术语：\n${lines.join('\n')}`; // 中文提示
+  }
+  if (reference) {
+    prompt += `\n\n以下是紧接在待翻译文本之前的原文及其译文，仅供参考，用于保持术语、代词和符号与前文一致。不要翻译或输出这部分内容：` + // 中文提示
+      `\n原文：\n\`\`\`\n${reference.source}\n\`\`\`\n译文：\n\`\`\`\n${reference.translation}\n\`\`\``;
+  }
+  if (memoryMatches.length > 0) {
+    const matches = memoryMatches.map((match, index) =>
+      `参考 ${index + 1} (相似度 ${Math.round(match.score * 100)}%)：\n原文：\n\`\`\`\n${match.source}\n\`\`\`\n译文：\n\`\`\`\n${match.target}\n\`\`\``);
+    prompt += `\n\n以下是翻译记忆库中与待翻译文本相似的原文及其已有的译文，仅供参考。相同的句子请沿用已有译法，不同之处按待翻译文本翻译。不要输出这部分内容：\n` + // 中文提示
+      matches.join('\n');
+  }
+  if (instructions.length > 0) {
+    prompt += `\n\n${instructions.join('\n')}`;
+  }
+  return prompt;
+}
+
+/**
+ * 构造对话消息
+ * @param text 要翻译的文本
+ * @param context 翻译上下文
+ */
+export function buildChatMessages(text: string, context: TranslationContext): { role: 'system' | 'user'; content: string }[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: createTranslationPrompt(text, context) }
+  ];
+}
+
+/**
+ * 后处理：移除LLM可能添加的包裹标记
+ * 例如，如果返回的是 ```latex\nACTUAL_CONTENT\n``` 或者 ```\nACTUAL_CONTENT\n```
+ * @param content 模型输出
+ */
+export function cleanChatCompletion(content: string | null | undefined): string {
+  let translatedText = content?.trim() || '';
+  const codeBlockRegex = /^\s*`{3}(?:latex)?\s*\n(.*?)\n\s*`{3}\s*$/is;
+  const match = translatedText.match(codeBlockRegex);
+  if (match && match[1]) {
+    translatedText = match[1].trim(); // 获取捕获组内容并去除可能的内部首尾空格
+  }
+  return translatedText;
+}
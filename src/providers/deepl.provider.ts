@@ -0,0 +1,62 @@
+/**
+ * src/providers/deepl.provider.ts
+ * 
+ * DeepL 风格的纯机器翻译接口提供者。占位符通过 XML 标签处理原样保留，
+ * 提示词类的附加指令对该类接口无效。
+ */
+import axios from 'axios';
+import type { DeepLConfig, TranslationProvider, TranslationContext, ProviderTranslation } from '../types';
+import { ProviderRequestError, toProviderRequestError } from './provider.errors';
+import { toLanguageCode } from '../utils/language.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+// DeepL 的目标语言需要区分变体
+const DEEPL_TARGET_VARIANTS: Record<string, string> = {
+  'zh-Hans': 'ZH-HANS',
+  'zh-Hant': 'ZH-HANT',
+  'en': 'EN-US',
+  'pt': 'PT-BR'
+};
+
+export class DeepLProvider implements TranslationProvider {
+  readonly name = 'deepl';
+  readonly model = 'deepl';
+  private config: DeepLConfig;
+  private instructionsWarned = false;
+
+  constructor(config: DeepLConfig) {
+    this.config = config;
+  }
+
+  async translate(segments: string[], context: TranslationContext): Promise<ProviderTranslation[]> {
+    if (context.instructions && context.instructions.length > 0 && !this.instructionsWarned) {
+      log.debug('DeepL 接口不支持提示词指令，附加指令将被忽略。');
+      this.instructionsWarned = true;
+    }
+    const targetCode = toLanguageCode(context.targetLanguage);
+    if (!targetCode) {
+      throw new ProviderRequestError(`DeepL 无法识别目标语言: ${context.targetLanguage}`);
+    }
+    const sourceCode = toLanguageCode(context.sourceLanguage);
+    const body: Record<string, unknown> = {
+      text: segments,
+      target_lang: DEEPL_TARGET_VARIANTS[targetCode] || targetCode.toUpperCase(),
+      tag_handling: 'xml'
+    };
+    if (sourceCode) body.source_lang = sourceCode.split('-')[0].toUpperCase();
+    if (this.config.formality) body.formality = this.config.formality;
+    // DeepL 的 context 参数只接受原文，且不计入字符用量
+    if (context.reference) body.context = context.reference.source;
+
+    try {
+      const response = await axios.post(`${this.config.baseUrl.replace(/\/+$/, '')}/v2/translate`, body, {
+        headers: { Authorization: `DeepL-Auth-Key ${this.config.apiKey}` },
+        timeout: this.config.timeout
+      });
+      const translations: { text: string }[] = response.data?.translations || [];
+      return segments.map((_segment, i) => ({ text: translations[i]?.text ?? '' }));
+    } catch (error) {
+      throw toProviderRequestError(error, 'DeepL');
+    }
+  }
+}
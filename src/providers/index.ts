@@ -0,0 +1,38 @@
+/**
+ * src/providers/index.ts
+ * 
+ * 导出内置翻译提供者，并根据名称创建提供者实例。
+ */
+import type { OpenAIConfig, LocalProviderConfig, DeepLConfig, TranslationProvider, TranslationProviderName } from '../types';
+import { OpenAIProvider } from './openai.provider';
+import { LocalProvider } from './local.provider';
+import { DeepLProvider } from './deepl.provider';
+
+export { OpenAIProvider } from './openai.provider';
+export { LocalProvider } from './local.provider';
+export { DeepLProvider } from './deepl.provider';
+export { ProviderRequestError } from './provider.errors';
+export { PROMPT_VERSION, createTranslationPrompt } from './chat-prompt';
+
+export const TRANSLATION_PROVIDER_NAMES: TranslationProviderName[] = ['openai', 'local', 'deepl'];
+
+/**
+ * 根据名称创建内置翻译提供者
+ * @param name 提供者名称
+ * @param configs 各提供者的配置
+ */
+export function createTranslationProvider(
+  name: TranslationProviderName,
+  configs: { openai: OpenAIConfig; local: LocalProviderConfig; deepl: DeepLConfig }
+): TranslationProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider(configs.openai);
+    case 'local':
+      return new LocalProvider(configs.local);
+    case 'deepl':
+      return new DeepLProvider(configs.deepl);
+    default:
+      throw new Error(`未知的翻译提供者: ${name}。可选值: ${TRANSLATION_PROVIDER_NAMES.join(', ')}`);
+  }
+}
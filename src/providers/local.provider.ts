@@ -0,0 +1,65 @@
+/**
+ * src/providers/local.provider.ts
+ * 
+ * 本地模型服务提供者，支持 Ollama 原生接口和 llama.cpp server 的 OpenAI 兼容接口。
+ */
+import axios from 'axios';
+import type { LocalProviderConfig, TranslationProvider, TranslationContext, ProviderTranslation } from '../types';
+import { toProviderRequestError } from './provider.errors';
+import { buildChatMessages, cleanChatCompletion } from './chat-prompt';
+
+export class LocalProvider implements TranslationProvider {
+  readonly name = 'local';
+  readonly model: string;
+  private config: LocalProviderConfig;
+
+  constructor(config: LocalProviderConfig) {
+    this.config = config;
+    this.model = config.model;
+  }
+
+  async translate(segments: string[], context: TranslationContext): Promise<ProviderTranslation[]> {
+    const results: ProviderTranslation[] = [];
+    for (const segment of segments) {
+      try {
+        results.push(this.config.api === 'llamacpp'
+          ? await this.requestLlamaCpp(segment, context)
+          : await this.requestOllama(segment, context));
+      } catch (error) {
+        throw toProviderRequestError(error, `本地模型 (${this.config.baseUrl})`);
+      }
+    }
+    return results;
+  }
+
+  private async requestOllama(segment: string, context: TranslationContext): Promise<ProviderTranslation> {
+    const response = await axios.post(`${this.config.baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      model: this.model,
+      messages: buildChatMessages(segment, context),
+      stream: false,
+      options: { temperature: this.config.temperature ?? 0.3 }
+    }, { timeout: this.config.timeout });
+    const data = response.data;
+    return {
+      text: cleanChatCompletion(data?.message?.content),
+      usage: data?.prompt_eval_count !== undefined
+        ? { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count ?? 0 }
+        : undefined
+    };
+  }
+
+  private async requestLlamaCpp(segment: string, context: TranslationContext): Promise<ProviderTranslation> {
+    const response = await axios.post(`${this.config.baseUrl.replace(/\/+$/, '')}/v1/chat/completions`, {
+      model: this.model,
+      messages: buildChatMessages(segment, context),
+      temperature: this.config.temperature ?? 0.3
+    }, { timeout: this.config.timeout });
+    const data = response.data;
+    return {
+      text: cleanChatCompletion(data?.choices?.[0]?.message?.content),
+      usage: data?.usage
+        ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+        : undefined
+    };
+  }
+}
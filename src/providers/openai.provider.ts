@@ -0,0 +1,57 @@
+/**
+ * src/providers/openai.provider.ts
+ * 
+ * 基于 openai SDK 的提供者，适用于 OpenAI 及任何 OpenAI 兼容的对话接口。
+ */
+import { OpenAI } from 'openai';
+import type { OpenAIConfig, TranslationProvider, TranslationContext, ProviderTranslation } from '../types';
+import { ProviderRequestError, isRetryableStatus, parseRetryAfter } from './provider.errors';
+import { buildChatMessages, cleanChatCompletion } from './chat-prompt';
+
+export class OpenAIProvider implements TranslationProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private client: OpenAI;
+  private temperature: number;
+
+  constructor(config: Pick<OpenAIConfig, 'apiKey' | 'baseUrl' | 'model' | 'temperature' | 'timeout'>) {
+    this.model = config.model;
+    this.temperature = config.temperature ?? 0.3;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      timeout: config.timeout,
+      maxRetries: 0 // 重试由 TranslationService 统一处理，以便与限流器协同
+    });
+  }
+
+  async translate(segments: string[], context: TranslationContext): Promise<ProviderTranslation[]> {
+    const results: ProviderTranslation[] = [];
+    for (const segment of segments) {
+      try {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages: buildChatMessages(segment, context),
+          temperature: this.temperature
+        });
+        results.push({
+          text: cleanChatCompletion(response.choices[0]?.message?.content),
+          usage: response.usage
+            ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+            : undefined
+        });
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          throw new ProviderRequestError(`OpenAI 请求失败: ${error.message}`, {
+            status: error.status,
+            retryAfterMs: parseRetryAfter(error.headers as Record<string, unknown> | undefined),
+            retryable: error instanceof OpenAI.APIConnectionError || isRetryableStatus(error.status),
+            cause: error
+          });
+        }
+        throw error;
+      }
+    }
+    return results;
+  }
+}
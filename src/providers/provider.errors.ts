@@ -0,0 +1,75 @@
+/**
+ * src/providers/provider.errors.ts
+ * 
+ * 翻译提供者统一抛出的请求错误，TranslationService 据此决定是否重试以及等待多久。
+ */
+import axios from 'axios';
+
+export class ProviderRequestError extends Error {
+  // HTTP 状态码 (连接错误时为 undefined)
+  readonly status?: number;
+  // 服务端通过 Retry-After 要求的等待时间
+  readonly retryAfterMs?: number;
+  // 是否值得重试 (429、5xx、连接错误)
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? false;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+/**
+ * 根据 HTTP 状态码判断请求是否值得重试
+ * @param status 状态码，undefined 表示连接错误
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * 解析响应头中的 retry-after-ms / retry-after (秒数或 HTTP 日期)
+ * @param headers 响应头
+ * @returns 等待的毫秒数，无法解析时返回 undefined
+ */
+export function parseRetryAfter(headers: Record<string, unknown> | undefined): number | undefined {
+  if (!headers) return undefined;
+  const retryAfterMs = parseFloat(String(headers['retry-after-ms'] ?? ''));
+  if (!isNaN(retryAfterMs)) return retryAfterMs;
+  const retryAfter = headers['retry-after'];
+  if (retryAfter === undefined || retryAfter === null) return undefined;
+  const seconds = parseFloat(String(retryAfter));
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(String(retryAfter));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 将 axios 抛出的错误转换为 ProviderRequestError
+ * @param error 原始错误
+ * @param providerName 提供者名称，用于错误信息
+ */
+export function toProviderRequestError(error: unknown, providerName: string): ProviderRequestError {
+  if (error instanceof ProviderRequestError) return error;
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return new ProviderRequestError(`${providerName} 请求失败: ${error.message}`, {
+      status,
+      retryAfterMs: parseRetryAfter(error.response?.headers as Record<string, unknown> | undefined),
+      retryable: isRetryableStatus(status),
+      cause: error
+    });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderRequestError(`${providerName} 请求失败: ${message}`, { cause: error });
+}
@@ -0,0 +1,171 @@
+/**
+ * src/services/checkpoint_service.ts
+ * 
+ * 翻译检查点服务，在每个文件和文本块完成后将进度写入 log/checkpoint.json，
+ * 以便中断后通过 --resume 继续。
+ */
+import * as path from 'path';
+import { FileService } from './file_service';
+import type { TranslationCheckpoint, FileCheckpoint, ChunkCheckpoint } from '../types';
+import { sha256 } from '../utils/hash.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+const CHECKPOINT_VERSION = 1;
+const CHECKPOINT_FILE_NAME = 'checkpoint.json';
+
+export class CheckpointService {
+  private checkpointPath: string;
+  private fileService: FileService;
+  private checkpoint: TranslationCheckpoint | null;
+  // 串行化写入，避免并发写入同一个文件
+  private writeQueue: Promise<void>;
+
+  constructor(logDir: string) {
+    this.checkpointPath = path.join(logDir, CHECKPOINT_FILE_NAME);
+    this.fileService = FileService.getInstance();
+    this.checkpoint = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * 开始一次运行。resume 为 true 时读取已有检查点，参数不一致时丢弃旧检查点。
+   * @param meta 本次运行的参数
+   * @param resume 是否尝试继续上次的运行
+   * @returns 是否成功加载了已有检查点
+   */
+  async begin(
+    meta: Pick<TranslationCheckpoint, 'inputPath' | 'targetLanguage' | 'sourceLanguage' | 'model'>,
+    resume: boolean
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+    if (resume) {
+      const existing = await this.load();
+      if (existing && this.isCompatible(existing, meta)) {
+        this.checkpoint = existing;
+        const completed = Object.values(existing.files).filter(f => f.status === 'completed').length;
+        log.info(`已加载检查点: ${this.checkpointPath} (已完成 ${completed} 个文件)`);
+        return true;
+      }
+      if (existing) {
+        log.warn('检查点的输入路径、语言或模型与本次运行不一致，将从头开始翻译。');
+      } else {
+        log.warn(`未找到可用的检查点 ${this.checkpointPath}，将从头开始翻译。`);
+      }
+    }
+    this.checkpoint = {
+      version: CHECKPOINT_VERSION,
+      ...meta,
+      createdAt: now,
+      updatedAt: now,
+      files: {}
+    };
+    await this.save();
+    return false;
+  }
+
+  /**
+   * 判断文件是否已在检查点中完成，且原始内容未发生变化
+   * @param fileId 文件标识 (相对路径)
+   * @param sourceContent 当前的原始文件内容
+   */
+  isFileCompleted(fileId: string, sourceContent: string): boolean {
+    const entry = this.checkpoint?.files[fileId];
+    return !!entry && entry.status === 'completed' && entry.sourceHash === sha256(sourceContent);
+  }
+
+  getTranslatedFilePath(fileId: string): string | undefined {
+    return this.checkpoint?.files[fileId]?.translatedFilePath;
+  }
+
+  /**
+   * 标记文件开始处理，并返回可复用的文本块
+   * @param fileId 文件标识
+   * @param sourceContent 原始文件内容
+   * @param maskedText 掩码后的文本
+   * @returns 掩码文本未变化时返回已完成的文本块
+   */
+  async startFile(fileId: string, sourceContent: string, maskedText: string): Promise<Record<number, ChunkCheckpoint>> {
+    if (!this.checkpoint) return {};
+    const sourceHash = sha256(sourceContent);
+    const maskedHash = sha256(maskedText);
+    const previous = this.checkpoint.files[fileId];
+    const reusableChunks = previous && previous.sourceHash === sourceHash && previous.maskedHash === maskedHash
+      ? previous.chunks
+      : {};
+    const entry: FileCheckpoint = {
+      status: 'in_progress',
+      sourceHash,
+      maskedHash,
+      chunks: reusableChunks,
+      updatedAt: new Date().toISOString()
+    };
+    this.checkpoint.files[fileId] = entry;
+    await this.save();
+    return { ...reusableChunks };
+  }
+
+  async markChunkCompleted(fileId: string, index: number, source: string, translation: string): Promise<void> {
+    const entry = this.checkpoint?.files[fileId];
+    if (!entry) return;
+    entry.chunks[index] = { sourceHash: sha256(source), translation };
+    entry.updatedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  async markFileCompleted(fileId: string, translatedFilePath: string): Promise<void> {
+    const entry = this.checkpoint?.files[fileId];
+    if (!entry) return;
+    entry.status = 'completed';
+    entry.translatedFilePath = translatedFilePath;
+    // 文件完成后块级记录不再需要，清理以控制检查点体积
+    entry.chunks = {};
+    entry.updatedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  getCheckpointPath(): string {
+    return this.checkpointPath;
+  }
+
+  private async load(): Promise<TranslationCheckpoint | null> {
+    try {
+      if (!(await this.fileService.fileExists(this.checkpointPath))) return null;
+      const data = JSON.parse(await this.fileService.readFile(this.checkpointPath, 'utf8')) as TranslationCheckpoint;
+      if (data.version !== CHECKPOINT_VERSION || !data.files) {
+        log.warn(`检查点版本不兼容，已忽略: ${this.checkpointPath}`);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      log.warn(`读取检查点失败，已忽略: ${this.checkpointPath}`, error);
+      return null;
+    }
+  }
+
+  private isCompatible(
+    existing: TranslationCheckpoint,
+    meta: Pick<TranslationCheckpoint, 'inputPath' | 'targetLanguage' | 'sourceLanguage' | 'model'>
+  ): boolean {
+    return existing.inputPath === meta.inputPath &&
+      existing.targetLanguage === meta.targetLanguage &&
+      (existing.sourceLanguage || '') === (meta.sourceLanguage || '') &&
+      existing.model === meta.model;
+  }
+
+  private save(): Promise<void> {
+    const snapshot = this.checkpoint;
+    if (!snapshot) return this.writeQueue;
+    this.writeQueue = this.writeQueue.then(async () => {
+      snapshot.updatedAt = new Date().toISOString();
+      // 先写临时文件再重命名，避免进程中断时留下半个检查点文件
+      const tmpPath = `${this.checkpointPath}.tmp`;
+      try {
+        await this.fileService.writeFile(tmpPath, JSON.stringify(snapshot, null, 2), 'utf8');
+        await this.fileService.rename(tmpPath, this.checkpointPath);
+      } catch (error) {
+        log.warn(`写入检查点失败: ${this.checkpointPath}`, error);
+      }
+    });
+    return this.writeQueue;
+  }
+}
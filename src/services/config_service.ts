@@ -4,9 +4,47 @@
  * 集中管理配置的读取和访问。
  */
 import config from 'config';
-import type { OpenAIConfig, MaskingOptions, ConfigMaskOptionsForDefaults } from '../types';
+import type {
+  OpenAIConfig,
+  MaskingOptions,
+  ConfigMaskOptionsForDefaults,
+  LocalProviderConfig,
+  DeepLConfig,
+  TranslationProviderName,
+  BilingualLayout,
+  CommandArgumentPolicy,
+  ModelPrice
+} from '../types';
 import log from '../utils/logger'; // 引入日志服务
 
+// 默认的命令参数策略：格式化命令翻译其文本参数，章节命令同时翻译可选的短标题
+const TRANSLATE_TEXT: CommandArgumentPolicy = { mandatory: ['translate'] };
+const TRANSLATE_HEADING: CommandArgumentPolicy = { optional: ['translate'], mandatory: ['translate'] };
+const DEFAULT_COMMAND_ARGUMENT_POLICIES: Record<string, CommandArgumentPolicy> = {
+  textbf: TRANSLATE_TEXT,
+  textit: TRANSLATE_TEXT,
+  textsl: TRANSLATE_TEXT,
+  textsc: TRANSLATE_TEXT,
+  textrm: TRANSLATE_TEXT,
+  textsf: TRANSLATE_TEXT,
+  textup: TRANSLATE_TEXT,
+  emph: TRANSLATE_TEXT,
+  underline: TRANSLATE_TEXT,
+  texttt: { mandatory: ['keep'] },
+  textcolor: { mandatory: ['keep', 'translate'] },
+  href: { mandatory: ['keep', 'translate'] },
+  part: TRANSLATE_HEADING,
+  chapter: TRANSLATE_HEADING,
+  section: TRANSLATE_HEADING,
+  subsection: TRANSLATE_HEADING,
+  subsubsection: TRANSLATE_HEADING,
+  paragraph: TRANSLATE_HEADING,
+  subparagraph: TRANSLATE_HEADING,
+  caption: TRANSLATE_HEADING,
+  footnote: { optional: ['keep'], mandatory: ['translate'] },
+  title: TRANSLATE_HEADING,
+};
+
 export class ConfigService {
   private static instance: ConfigService;
 
@@ -47,6 +85,11 @@ export class ConfigService {
     const model = this.get<string>('openai.model', undefined);
     const temperature = this.get<number>('openai.temperature', undefined);
     const timeout = this.get<number>('openai.timeout', undefined);
+    // 以下为后加的配置项，旧配置文件中可能没有，用 0 / -1 表示未设置
+    const concurrency = this.get<number>('openai.concurrency', 0);
+    const requestsPerMinute = this.get<number>('openai.requestsPerMinute', 0);
+    const tokensPerMinute = this.get<number>('openai.tokensPerMinute', 0);
+    const maxRetries = this.get<number>('openai.maxRetries', -1); // 0 表示不重试
 
     const cfg: Partial<OpenAIConfig> = {};
     if (apiKey) cfg.apiKey = apiKey; // only add if non-empty, though constructor requires it
@@ -54,9 +97,54 @@ export class ConfigService {
     if (model) cfg.model = model;
     if (temperature !== undefined) cfg.temperature = temperature;
     if (timeout !== undefined) cfg.timeout = timeout;
+    if (concurrency > 0) cfg.concurrency = concurrency;
+    if (requestsPerMinute > 0) cfg.requestsPerMinute = requestsPerMinute;
+    if (tokensPerMinute > 0) cfg.tokensPerMinute = tokensPerMinute;
+    if (maxRetries >= 0) cfg.maxRetries = maxRetries;
     return cfg;
   }
 
+  public getLocalProviderConfig(): LocalProviderConfig {
+    return {
+      baseUrl: this.get<string>('local.baseUrl', 'http://localhost:11434'),
+      model: this.get<string>('local.model', 'qwen2.5:7b'),
+      api: this.get<'ollama' | 'llamacpp'>('local.api', 'ollama'),
+      temperature: this.get<number>('local.temperature', 0.3),
+      timeout: this.get<number>('local.timeout', 300000),
+    };
+  }
+
+  public getDeepLConfig(): DeepLConfig {
+    return {
+      apiKey: this.get<string>('deepl.apiKey', ''),
+      baseUrl: this.get<string>('deepl.baseUrl', 'https://api-free.deepl.com'),
+      formality: this.get<DeepLConfig['formality'] | ''>('deepl.formality', '') || undefined,
+      timeout: this.get<number>('deepl.timeout', 60000),
+    };
+  }
+
+  /**
+   * 获取模型每个翻译块的 token 预算。
+   * 先按模型名精确匹配 translation.chunking.modelBudgets，再按最长前缀匹配 (如 "gpt-4o" 匹配 "gpt-4o-mini")，
+   * 都没有时使用 translation.chunking.maxTokens。
+   * @param model 模型名称
+   */
+  public getChunkTokenBudget(model: string): number {
+    const defaultBudget = this.get<number>('translation.chunking.maxTokens', 1000);
+    const budgets = this.get<Record<string, number>>('translation.chunking.modelBudgets', {});
+    return findModelEntry(budgets, model) ?? defaultBudget;
+  }
+
+  /**
+   * 获取模型价格 (每百万 token 的费用)，按 translation.pricing 中的模型名精确匹配或最长前缀匹配
+   * @param model 模型名称
+   * @returns 未配置该模型的价格时为 null
+   */
+  public getModelPrice(model: string): ModelPrice | null {
+    const prices = this.get<Record<string, ModelPrice>>('translation.pricing', {});
+    return findModelEntry(prices, model) ?? null;
+  }
+
   public getDefaultTranslatorOptions(): {
     targetLanguage: string;
     sourceLanguage?: string;
@@ -64,15 +152,35 @@ export class ConfigService {
     maskingOptions: Required<MaskingOptions>;
     saveIntermediateFiles: boolean;
     bypassLLMTranslation: boolean;
+    useCache: boolean;
+    cacheDir: string;
+    useMemory: boolean;
+    memoryPath: string;
+    provider: TranslationProviderName;
+    glossaryPath: string;
+    bilingual: boolean;
+    bilingualLayout: BilingualLayout;
+    bilingualSourceStyle: string;
+    context: boolean;
+    contextTokens: number;
+    validateStructure: boolean;
+    qa: boolean;
+    maxCost: number;
+    maxTokens: number;
   } {
     const defaultMaskOpts: Required<MaskingOptions> = {
       regularEnvironments: ['figure', 'table', 'algorithm', 'enumerate', 'itemize', 'tabular', 'lstlisting'],
       mathEnvironments: ['equation', 'align', 'gather', 'multline', 'eqnarray', 'matrix', 'pmatrix', 'bmatrix', 'array', 'aligned', 'cases', 'split'],
-      maskCommands: ['ref', 'cite', 'eqref', 'includegraphics', 'url', 'label', 'textit', 'textbf', 'texttt', 'emph', 'href', 'caption', 'footnote', 'item'],
+      maskCommands: ['ref', 'cite', 'eqref', 'includegraphics', 'url', 'label', 'item'],
       maskInlineMath: true,
       maskDisplayMath: true,
       maskComments: false,
-      maskPrefix: 'MASK_'
+      commentPolicy: 'preserve',
+      maskPrefix: 'MASK_',
+      commandArgumentPolicies: DEFAULT_COMMAND_ARGUMENT_POLICIES,
+      rules: [],
+      detectMacros: true,
+      macroActions: {}
     };
 
     // Try to get complex object 'translation.maskOptions'
@@ -86,7 +194,18 @@ export class ConfigService {
         maskInlineMath: configMaskOptions.maskInlineMath !== undefined ? configMaskOptions.maskInlineMath : defaultMaskOpts.maskInlineMath,
         maskDisplayMath: configMaskOptions.maskDisplayMath !== undefined ? configMaskOptions.maskDisplayMath : defaultMaskOpts.maskDisplayMath,
         maskComments: configMaskOptions.maskComments !== undefined ? configMaskOptions.maskComments : defaultMaskOpts.maskComments,
+        // 未设置 commentPolicy 时沿用旧的 maskComments 选项
+        commentPolicy: configMaskOptions.commentPolicy
+          || (configMaskOptions.maskComments !== undefined ? (configMaskOptions.maskComments ? 'preserve' : 'drop') : defaultMaskOpts.commentPolicy),
         maskPrefix: configMaskOptions.maskPrefix || defaultMaskOpts.maskPrefix,
+        // 配置中的策略按命令名覆盖默认策略
+        commandArgumentPolicies: {
+          ...defaultMaskOpts.commandArgumentPolicies,
+          ...(configMaskOptions.commandArgumentPolicies || {})
+        },
+        rules: configMaskOptions.rules || defaultMaskOpts.rules,
+        detectMacros: configMaskOptions.detectMacros !== undefined ? configMaskOptions.detectMacros : defaultMaskOpts.detectMacros,
+        macroActions: configMaskOptions.macroActions || defaultMaskOpts.macroActions,
     };
 
     return {
@@ -96,6 +215,32 @@ export class ConfigService {
       maskingOptions: finalMaskingOptions,
       saveIntermediateFiles: this.get<boolean>('translation.saveIntermediateFiles', true),
       bypassLLMTranslation: this.get<boolean>('translation.bypassLLMTranslation', true),
+      useCache: this.get<boolean>('translation.cache.enabled', true),
+      cacheDir: this.get<string>('translation.cache.dir', './.cache/translations'),
+      useMemory: this.get<boolean>('translation.memory.enabled', true),
+      memoryPath: this.get<string>('translation.memory.path', './.cache/translation-memory.json'),
+      provider: this.get<TranslationProviderName>('translation.provider', 'openai'),
+      glossaryPath: this.get<string>('translation.glossary.path', ''),
+      bilingual: this.get<string>('output.mode', 'translated') === 'bilingual',
+      bilingualLayout: this.get<BilingualLayout>('output.bilingual.layout', 'interleave'),
+      bilingualSourceStyle: this.get<string>('output.bilingual.sourceStyle', '\\color{gray}'),
+      context: this.get<boolean>('translation.context.enabled', false),
+      contextTokens: this.get<number>('translation.context.maxTokens', 300),
+      validateStructure: this.get<boolean>('output.validateStructure', true),
+      qa: this.get<boolean>('output.qa.enabled', true),
+      maxCost: this.get<number>('translation.budget.maxCost', 0),
+      maxTokens: this.get<number>('translation.budget.maxTokens', 0),
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * 按模型名查找配置表中的条目：先精确匹配，再按最长前缀匹配 (如 "gpt-4o" 匹配 "gpt-4o-mini")
+ */
+function findModelEntry<T>(table: Record<string, T>, model: string): T | undefined {
+  if (table[model] !== undefined) return table[model];
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? table[prefix] : undefined;
+}
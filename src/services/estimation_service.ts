@@ -0,0 +1,154 @@
+/**
+ * src/services/estimation_service.ts
+ *
+ * 翻译前的用量预估：与翻译流程一样解析、掩码并切分文本块，但不调用翻译接口，
+ * 按文件统计文本块数、估算的输入/输出 token、各类占位符数量以及按模型价格换算的费用。
+ */
+import * as path from 'path';
+import { ProjectAST, ProjectFileAst } from 'ast-gen';
+
+import { ParserService } from './parser_service';
+import { MaskingService } from './masking_service';
+import { ConfigService } from './config_service';
+import { FileService } from './file_service';
+import type { EstimateReport, EstimateTotals, FileEstimate, MaskedNode, MaskingOptions, ModelPrice } from '../types';
+import * as LatexUtils from '../utils/latex.utils';
+import { estimateTokens, PROMPT_OVERHEAD_TOKENS } from '../utils/token.utils';
+import { splitTextIntoChunks } from '../utils/chunk.utils';
+import { calculateCost } from '../utils/usage.utils';
+import log from '../utils/logger';
+
+export interface EstimationOptions {
+  // 用于选择文本块预算和价格的模型，默认为 openai.model
+  model?: string;
+  // 覆盖配置文件中的掩码选项
+  maskingOptions?: MaskingOptions;
+  // 前文上下文中原文和译文各自最多保留的 token 数，0 表示不附带前文
+  contextTokens?: number;
+  // 输出 token 数与原文 token 数之比，默认为 translation.estimate.outputRatio
+  outputRatio?: number;
+}
+
+export class EstimationService {
+  private configService: ConfigService;
+  private fileService: FileService;
+  private parserService: ParserService;
+  private maskingService: MaskingService;
+  private model: string;
+  private price: ModelPrice | null;
+  private chunkTokenBudget: number;
+  private contextTokens: number;
+  private outputRatio: number;
+
+  constructor(options: EstimationOptions = {}) {
+    this.configService = ConfigService.getInstance();
+    this.fileService = FileService.getInstance();
+    this.parserService = new ParserService();
+    const defaults = this.configService.getDefaultTranslatorOptions();
+    this.maskingService = new MaskingService({ ...defaults.maskingOptions, ...(options.maskingOptions || {}) });
+    this.model = options.model || this.configService.getOpenAIConfig().model || 'gpt-3.5-turbo';
+    this.price = this.configService.getModelPrice(this.model);
+    this.chunkTokenBudget = this.configService.getChunkTokenBudget(this.model);
+    this.contextTokens = Math.max(0, options.contextTokens ?? (defaults.context ? defaults.contextTokens : 0));
+    this.outputRatio = options.outputRatio ?? this.configService.get<number>('translation.estimate.outputRatio', 1);
+  }
+
+  /**
+   * 预估翻译 LaTeX 文件或项目的用量
+   * @param inputPath LaTeX 文件或项目目录
+   */
+  async estimate(inputPath: string): Promise<EstimateReport> {
+    const absInputPath = path.resolve(inputPath);
+    const inputStat = await this.fileService.stat(absInputPath);
+    log.info('正在解析LaTeX项目...');
+    const ast = await this.parserService.parse(absInputPath);
+    this.maskingService.classifyProjectMacros(ast);
+
+    const files: FileEstimate[] = [];
+    if (inputStat.isFile()) {
+      // 与翻译流程一致，单文件输入整体掩码
+      files.push(await this.estimateAst(path.basename(absInputPath), ast));
+    } else {
+      const projectFiles: ProjectFileAst[] = ast.files || [];
+      for (const fileAst of projectFiles) {
+        const fileId = LatexUtils.getRelativePath(fileAst.filePath, absInputPath);
+        files.push(await this.estimateAst(fileId, {
+          files: [fileAst],
+          macros: ast.macros,
+          _detailedMacros: ast._detailedMacros,
+          errors: ast.errors,
+          rootFilePath: fileAst.filePath
+        }));
+      }
+    }
+
+    if (!this.price) {
+      log.warn(`价格表 (translation.pricing) 中没有模型 ${this.model} 的价格，费用按 0 计`);
+    }
+    return {
+      generatedAt: new Date().toISOString(),
+      inputPath: absInputPath,
+      model: this.model,
+      price: this.price,
+      chunkTokenBudget: this.chunkTokenBudget,
+      outputRatio: this.outputRatio,
+      contextTokens: this.contextTokens,
+      files,
+      total: sumEstimates(files)
+    };
+  }
+
+  private async estimateAst(fileId: string, ast: ProjectAST): Promise<FileEstimate> {
+    log.debug(`开始掩码文件: ${fileId}`);
+    const { maskedText, maskedNodesMap } = await this.maskingService.maskAst(ast);
+    const chunks = splitTextIntoChunks(maskedText, this.chunkTokenBudget).map(chunk => chunk.text);
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let previousTokens = 0;
+    for (const chunk of chunks) {
+      const chunkTokens = estimateTokens(chunk);
+      const chunkOutputTokens = Math.ceil(chunkTokens * this.outputRatio);
+      // 附带前文时，前一块的原文和译文各截取至多 contextTokens 个 token
+      const referenceTokens = this.contextTokens > 0 && previousTokens > 0
+        ? Math.min(this.contextTokens, previousTokens) + Math.min(this.contextTokens, Math.ceil(previousTokens * this.outputRatio))
+        : 0;
+      inputTokens += chunkTokens + PROMPT_OVERHEAD_TOKENS + referenceTokens;
+      outputTokens += chunkOutputTokens;
+      previousTokens = chunkTokens;
+    }
+    return {
+      fileId,
+      chunks: chunks.length,
+      inputTokens,
+      outputTokens,
+      placeholders: countPlaceholderTypes(maskedNodesMap),
+      cost: calculateCost(inputTokens, outputTokens, this.price)
+    };
+  }
+}
+
+/**
+ * 按占位符编号的前缀 (如 IMATH_0001 中的 IMATH) 统计占位符数量
+ */
+function countPlaceholderTypes(maskedNodesMap: Map<string, MaskedNode>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const id of maskedNodesMap.keys()) {
+    const type = id.replace(/_\d+$/, '');
+    counts[type] = (counts[type] || 0) + 1;
+  }
+  return counts;
+}
+
+function sumEstimates(files: FileEstimate[]): EstimateTotals {
+  const total: EstimateTotals = { chunks: 0, inputTokens: 0, outputTokens: 0, placeholders: {}, cost: 0 };
+  for (const file of files) {
+    total.chunks += file.chunks;
+    total.inputTokens += file.inputTokens;
+    total.outputTokens += file.outputTokens;
+    total.cost += file.cost;
+    for (const [type, count] of Object.entries(file.placeholders)) {
+      total.placeholders[type] = (total.placeholders[type] || 0) + count;
+    }
+  }
+  return total;
+}
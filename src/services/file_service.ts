@@ -30,6 +30,15 @@ export class FileService {
     return fsPromises.writeFile(filePath, data, encoding);
   }
 
+  async readBuffer(filePath: string): Promise<Buffer> {
+    return fsPromises.readFile(filePath);
+  }
+
+  async writeBuffer(filePath: string, data: Buffer): Promise<void> {
+    await this.mkdirRecursive(path.dirname(filePath));
+    return fsPromises.writeFile(filePath, data);
+  }
+
   async mkdirRecursive(dirPath: string): Promise<string | undefined> {
     return fsPromises.mkdir(dirPath, { recursive: true });
   }
@@ -41,6 +50,10 @@ export class FileService {
     return fsPromises.copyFile(src, dest);
   }
 
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    return fsPromises.rename(oldPath, newPath);
+  }
+
   async stat(filePath: string): Promise<Stats> {
     return fsPromises.stat(filePath);
   }
@@ -73,17 +86,20 @@ export class FileService {
     }
   }
 
-  // 其他需要的文件操作可以继续添加，例如：
-  // async fileExists(filePath: string): Promise<boolean> {
-  //   try {
-  //     await fsPromises.access(filePath);
-  //     return true;
-  //   } catch {
-  //     return false;
-  //   }
-  // }
-
-  // async deleteFile(filePath: string): Promise<void> {
-  //   return fsPromises.unlink(filePath);
-  // }
+  async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fsPromises.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 递归删除文件或目录，路径不存在时不报错。
+   * @param targetPath 要删除的路径
+   */
+  async removeRecursive(targetPath: string): Promise<void> {
+    return fsPromises.rm(targetPath, { recursive: true, force: true });
+  }
 } 
\ No newline at end of file
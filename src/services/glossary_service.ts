@@ -0,0 +1,186 @@
+/**
+ * src/services/glossary_service.ts
+ *
+ * 项目术语表：从 CSV 或 JSON 加载「源术语 → 目标译法」及「不翻译」条目，
+ * 查找文本块中出现的术语，并检查译文是否使用了规定译法。
+ */
+import * as path from 'path';
+import type { GlossaryEntry } from '../types';
+import { FileService } from './file_service';
+import { sha256 } from '../utils/hash.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+// CSV 第三列中表示「不翻译」的标记
+const DO_NOT_TRANSLATE_FLAGS = ['dnt', 'do-not-translate', 'keep', '不翻译', '保留'];
+// CSV 首行表头的第一列
+const CSV_HEADER_NAMES = ['source', 'term', '源术语', '原文'];
+// 去除占位符标签，避免占位符 id 参与术语匹配
+const PLACEHOLDER_TAG_REGEX = /<\/?ph\b[^>]*>/g;
+
+export class GlossaryService {
+  private fileService: FileService;
+  private entries: GlossaryEntry[];
+  private glossaryPath: string;
+  private matchers: Map<GlossaryEntry, RegExp>;
+
+  constructor() {
+    this.fileService = FileService.getInstance();
+    this.entries = [];
+    this.glossaryPath = '';
+    this.matchers = new Map();
+  }
+
+  /**
+   * 加载术语表文件
+   * @param filePath .csv 或 .json 文件路径
+   */
+  async load(filePath: string): Promise<void> {
+    const absPath = path.resolve(filePath);
+    const content = await this.fileService.readFile(absPath, 'utf8');
+    const entries = path.extname(absPath).toLowerCase() === '.json'
+      ? this.parseJson(content, absPath)
+      : this.parseCsv(content);
+
+    // 较长的术语优先，便于阅读提示词和报告
+    this.entries = entries.sort((a, b) => b.source.length - a.source.length);
+    this.glossaryPath = absPath;
+    this.matchers = new Map(this.entries.map(entry => [entry, this.createMatcher(entry)]));
+    log.info(`已加载术语表 ${absPath}，共 ${this.entries.length} 条`);
+  }
+
+  getEntries(): GlossaryEntry[] {
+    return [...this.entries];
+  }
+
+  getPath(): string {
+    return this.glossaryPath;
+  }
+
+  /**
+   * 查找文本中出现的术语
+   * @param text 掩码后的文本块
+   * @returns 出现的术语表条目
+   */
+  findTerms(text: string): GlossaryEntry[] {
+    const plainText = text.replace(PLACEHOLDER_TAG_REGEX, ' ');
+    return this.entries.filter(entry => this.matchers.get(entry)!.test(plainText));
+  }
+
+  /**
+   * 找出译文中没有使用规定译法的术语
+   * @param terms 原文中出现的术语
+   * @param translation 译文
+   */
+  findViolations(terms: GlossaryEntry[], translation: string): GlossaryEntry[] {
+    const plainTranslation = translation.replace(PLACEHOLDER_TAG_REGEX, ' ');
+    const lowerTranslation = plainTranslation.toLowerCase();
+    return terms.filter(entry => entry.caseSensitive
+      ? !plainTranslation.includes(entry.target)
+      : !lowerTranslation.includes(entry.target.toLowerCase()));
+  }
+
+  /**
+   * 生成一组术语的指纹，用于翻译缓存键
+   * @param terms 术语表条目
+   */
+  getFingerprint(terms: GlossaryEntry[]): string {
+    return sha256(JSON.stringify(terms.map(entry => [entry.source, entry.target, entry.doNotTranslate])));
+  }
+
+  private createMatcher(entry: GlossaryEntry): RegExp {
+    const escaped = entry.source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    // 以字母或数字开头/结尾的术语按单词边界匹配，并允许英文复数形式
+    const startsWithWord = /^[A-Za-z0-9]/.test(entry.source);
+    const endsWithLetter = /[A-Za-z]$/.test(entry.source);
+    const endsWithWord = /[A-Za-z0-9]$/.test(entry.source);
+    const pattern = `${startsWithWord ? '(?<![A-Za-z0-9])' : ''}${escaped}${endsWithLetter ? '(?:e?s)?' : ''}${endsWithWord ? '(?![A-Za-z0-9])' : ''}`;
+    return new RegExp(pattern, entry.caseSensitive ? '' : 'i');
+  }
+
+  private parseJson(content: string, filePath: string): GlossaryEntry[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`无法解析术语表 ${filePath}: ${error}`);
+    }
+    // 支持对象形式 { "源术语": "译法" }，译法为空或 null 表示不翻译
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      return Object.entries(data as Record<string, string | null>)
+        .map(([source, target]) => this.createEntry(source, target ?? '', !target));
+    }
+    if (!Array.isArray(data)) {
+      throw new Error(`术语表 ${filePath} 应为对象或数组`);
+    }
+    return data
+      .filter(item => item && typeof item.source === 'string' && item.source.trim())
+      .map(item => this.createEntry(item.source, item.target ?? '', item.doNotTranslate ?? !item.target, item.caseSensitive));
+  }
+
+  private parseCsv(content: string): GlossaryEntry[] {
+    const rows = this.parseCsvRows(content);
+    if (rows.length > 0 && CSV_HEADER_NAMES.includes(rows[0][0]?.trim().toLowerCase())) {
+      rows.shift();
+    }
+    return rows
+      .filter(row => row[0] && row[0].trim() && !row[0].trim().startsWith('#'))
+      .map(row => {
+        const target = row[1]?.trim() || '';
+        const flag = row[2]?.trim().toLowerCase() || '';
+        return this.createEntry(row[0], target, !target || DO_NOT_TRANSLATE_FLAGS.includes(flag));
+      });
+  }
+
+  /**
+   * 解析 CSV 文本为行数组，支持双引号包裹的字段和转义的双引号
+   */
+  private parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const text = content.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private createEntry(source: string, target: string, doNotTranslate: boolean, caseSensitive?: boolean): GlossaryEntry {
+    const trimmedSource = source.trim();
+    return {
+      source: trimmedSource,
+      target: doNotTranslate ? trimmedSource : target.trim(),
+      doNotTranslate,
+      // 未显式指定时，首字母之后仍含大写字母的术语 (如 BERT、PyTorch) 区分大小写
+      caseSensitive: caseSensitive ?? /[A-Z]/.test(trimmedSource.slice(1))
+    };
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * src/services/job_server_service.ts
+ *
+ * 本地 HTTP 服务：以任务的形式提供解析与翻译功能，供网页前端和编辑器插件调用。
+ * 上传的项目归档或单个 .tex 文件进入任务队列，由固定数量的工作者通过
+ * LatexTranslatorService 依次处理；任务只保存在内存中，服务重启后丢失。
+ *
+ * 接口:
+ *   POST   /jobs?name=<文件名>[&type=parse][&targetLang=..][&sourceLang=..][&bilingual=true][&provider=..][&model=..]
+ *          请求体为文件内容，返回 202 与任务状态
+ *   GET    /jobs                 列出全部任务
+ *   GET    /jobs/:id             查询任务状态与进度
+ *   GET    /jobs/:id/result      下载 translated/ 目录 (.tar.gz)
+ *   GET    /jobs/:id/ast         下载 AST JSON
+ *   DELETE /jobs/:id             删除已结束的任务及其文件
+ */
+import * as http from 'http';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { Dirent } from 'fs';
+import type { JobInfo, JobType, TranslatorOptions, TranslationProviderName } from '../types';
+import { LatexTranslatorService } from './latex-translator_service';
+import { ParserService } from './parser_service';
+import { FileService } from './file_service';
+import { ConfigService } from './config_service';
+import { TRANSLATION_PROVIDER_NAMES } from '../providers';
+import { isArchiveFile, stripArchiveExtension, readArchive, createTarGz, ArchiveEntry } from '../utils/archive.utils';
+import { isTexFile } from '../utils/latex.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+export interface JobServerOptions {
+  host?: string;
+  port?: number;
+  // 同时运行的任务数
+  workers?: number;
+  // 保存上传文件和任务输出的目录
+  workDir?: string;
+  // 上传文件的大小上限 (字节)
+  maxUploadBytes?: number;
+  // 上传归档解压后的总大小上限 (字节)，默认为上传上限的 10 倍
+  maxExtractedBytes?: number;
+  // 所有任务共用的翻译选项，部分字段可由请求参数覆盖
+  translatorOptions?: TranslatorOptions;
+}
+
+interface Job {
+  info: JobInfo;
+  jobDir: string;
+  // 解压后的项目目录或单个 .tex 文件
+  inputPath: string;
+  options: TranslatorOptions;
+  translator: LatexTranslatorService | null;
+  astPath?: string;
+  translatedDir?: string;
+}
+
+// 带 HTTP 状态码的请求错误
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export class JobServerService {
+  private fileService: FileService;
+  private parserService: ParserService;
+  private options: Required<Omit<JobServerOptions, 'translatorOptions'>> & { translatorOptions: TranslatorOptions };
+  private jobs: Map<string, Job>;
+  private queue: Job[];
+  private runningJobs: number;
+  private server: http.Server | null;
+
+  constructor(options: JobServerOptions = {}) {
+    this.fileService = FileService.getInstance();
+    this.parserService = new ParserService();
+    this.options = {
+      host: options.host || '127.0.0.1',
+      port: options.port ?? 3000,
+      workers: Math.max(1, options.workers || 1),
+      workDir: path.resolve(options.workDir || './output/jobs'),
+      maxUploadBytes: options.maxUploadBytes || 50 * 1024 * 1024,
+      maxExtractedBytes: options.maxExtractedBytes || (options.maxUploadBytes || 50 * 1024 * 1024) * 10,
+      translatorOptions: options.translatorOptions || {}
+    };
+    this.jobs = new Map();
+    this.queue = [];
+    this.runningJobs = 0;
+    this.server = null;
+  }
+
+  /**
+   * 启动 HTTP 服务
+   * @returns 实际监听的地址
+   */
+  async start(): Promise<string> {
+    await this.fileService.mkdirRecursive(this.options.workDir);
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) log.error('处理请求时出错:', error);
+        this.sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    const server = this.server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    const address = server.address();
+    const url = typeof address === 'object' && address ? `http://${this.options.host}:${address.port}` : String(address);
+    log.info(`任务服务已启动: ${url} (工作者数 ${this.options.workers}，任务目录 ${this.options.workDir})`);
+    return url;
+  }
+
+  /**
+   * 停止接受新请求；正在运行的任务不会被中断
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+    const method = req.method || 'GET';
+    if (segments[0] !== 'jobs' || segments.length > 3) {
+      throw new HttpError(404, `未知的路径: ${url.pathname}`);
+    }
+
+    if (segments.length === 1) {
+      if (method === 'POST') {
+        const job = await this.createJob(req, url.searchParams);
+        this.sendJson(res, 202, this.getJobInfo(job));
+        return;
+      }
+      if (method === 'GET') {
+        this.sendJson(res, 200, Array.from(this.jobs.values()).map(job => this.getJobInfo(job)));
+        return;
+      }
+      throw new HttpError(405, `不支持的方法: ${method}`);
+    }
+
+    const job = this.jobs.get(segments[1]);
+    if (!job) {
+      throw new HttpError(404, `任务不存在: ${segments[1]}`);
+    }
+    const action = segments[2];
+    if (method === 'GET' && !action) {
+      this.sendJson(res, 200, this.getJobInfo(job));
+    } else if (method === 'GET' && action === 'result') {
+      await this.sendResult(res, job);
+    } else if (method === 'GET' && action === 'ast') {
+      await this.sendAst(res, job);
+    } else if (method === 'DELETE' && !action) {
+      await this.deleteJob(job);
+      res.writeHead(204).end();
+    } else {
+      throw new HttpError(405, `不支持的请求: ${method} ${url.pathname}`);
+    }
+  }
+
+  /**
+   * 保存上传的文件并将任务加入队列
+   */
+  private async createJob(req: http.IncomingMessage, params: URLSearchParams): Promise<Job> {
+    const inputName = path.basename(params.get('name') || '');
+    if (!inputName || (!isTexFile(inputName) && !isArchiveFile(inputName))) {
+      throw new HttpError(400, '请通过 name 参数提供 .tex 文件或 .zip/.tar/.tar.gz/.tgz 归档的文件名');
+    }
+    const type = (params.get('type') || 'translate') as JobType;
+    if (type !== 'translate' && type !== 'parse') {
+      throw new HttpError(400, `未知的任务类型: ${type}`);
+    }
+    const options = this.buildJobOptions(params);
+    const body = await this.readBody(req);
+
+    const id = randomUUID();
+    const jobDir = path.join(this.options.workDir, id);
+    const inputDir = path.join(jobDir, 'input');
+    let inputPath: string;
+    if (isArchiveFile(inputName)) {
+      let entries: ArchiveEntry[];
+      try {
+        entries = readArchive(body, inputName, this.options.maxExtractedBytes);
+      } catch (error) {
+        throw new HttpError(400, `无法读取归档: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!entries.some(entry => isTexFile(entry.path))) {
+        throw new HttpError(400, '归档中没有 .tex 文件');
+      }
+      const projectDir = path.join(inputDir, stripArchiveExtension(inputName));
+      for (const entry of entries) {
+        await this.fileService.writeBuffer(path.join(projectDir, entry.path), entry.data);
+      }
+      // 归档中所有文件都在同一个顶层目录下时，以该目录作为项目根目录
+      const topLevel = new Set(entries.map(entry => entry.path.split('/')[0]));
+      const [onlyDir] = Array.from(topLevel);
+      inputPath = topLevel.size === 1 && entries.every(entry => entry.path.includes('/'))
+        ? path.join(projectDir, onlyDir)
+        : projectDir;
+    } else {
+      inputPath = path.join(inputDir, inputName);
+      await this.fileService.writeBuffer(inputPath, body);
+    }
+
+    const job: Job = {
+      info: {
+        id,
+        type,
+        status: 'queued',
+        inputName,
+        targetLanguage: type === 'translate' ? options.targetLanguage : undefined,
+        createdAt: new Date().toISOString(),
+        progress: null
+      },
+      jobDir,
+      inputPath,
+      options: { ...options, outputDir: path.join(jobDir, 'output') },
+      translator: null
+    };
+    this.jobs.set(id, job);
+    this.queue.push(job);
+    log.info(`已创建任务 ${id} (${type}): ${inputName}`);
+    this.runNextJobs();
+    return job;
+  }
+
+  /**
+   * 合并服务级翻译选项与请求参数
+   */
+  private buildJobOptions(params: URLSearchParams): TranslatorOptions {
+    const base = this.options.translatorOptions;
+    const options: TranslatorOptions = { ...base, openaiConfig: base.openaiConfig ? { ...base.openaiConfig } : undefined };
+    const targetLanguage = params.get('targetLang');
+    const sourceLanguage = params.get('sourceLang');
+    const bilingual = params.get('bilingual');
+    const provider = params.get('provider');
+    const model = params.get('model');
+    if (targetLanguage) options.targetLanguage = targetLanguage;
+    if (sourceLanguage) options.sourceLanguage = sourceLanguage;
+    if (bilingual !== null) options.bilingual = bilingual === 'true' || bilingual === '1';
+    if (provider) {
+      if (!TRANSLATION_PROVIDER_NAMES.includes(provider as TranslationProviderName)) {
+        throw new HttpError(400, `未知的翻译提供者: ${provider}`);
+      }
+      options.provider = provider as TranslationProviderName;
+    }
+    if (model) {
+      options.openaiConfig = { ...(options.openaiConfig || ConfigService.getInstance().getOpenAIConfig()), model };
+    }
+    // 检查点按输出目录保存，每个任务的输出目录都是新的
+    options.resume = false;
+    return options;
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxUploadBytes) {
+        throw new HttpError(413, `上传文件超过大小上限 ${this.options.maxUploadBytes} 字节`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    if (size === 0) {
+      throw new HttpError(400, '请求体为空');
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * 按工作者数从队列中启动任务
+   */
+  private runNextJobs(): void {
+    while (this.runningJobs < this.options.workers && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.runningJobs++;
+      this.runJob(job).finally(() => {
+        this.runningJobs--;
+        this.runNextJobs();
+      });
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    job.info.status = 'running';
+    job.info.startedAt = new Date().toISOString();
+    log.info(`开始运行任务 ${job.info.id}`);
+    try {
+      const astPath = path.join(job.jobDir, 'ast.json');
+      if (job.info.type === 'parse') {
+        const ast = await this.parserService.parse(job.inputPath);
+        await this.parserService.saveAsJson(ast, astPath, true);
+      } else {
+        job.translator = new LatexTranslatorService(job.options);
+        await job.translator.translate(job.inputPath);
+        const ast = job.translator.getOriginalAst();
+        if (ast) await this.parserService.saveAsJson(ast, astPath, true);
+        job.translatedDir = path.join(job.translator.getProjectDir(), 'translated');
+      }
+      job.astPath = astPath;
+      job.info.status = 'completed';
+      log.info(`任务 ${job.info.id} 已完成`);
+    } catch (error) {
+      job.info.status = 'failed';
+      job.info.error = error instanceof Error ? error.message : String(error);
+      log.error(`任务 ${job.info.id} 失败:`, error);
+    } finally {
+      job.info.finishedAt = new Date().toISOString();
+    }
+  }
+
+  private getJobInfo(job: Job): JobInfo {
+    return { ...job.info, progress: job.translator ? job.translator.getProgress() : job.info.progress };
+  }
+
+  private async sendResult(res: http.ServerResponse, job: Job): Promise<void> {
+    if (job.info.type !== 'translate') {
+      throw new HttpError(400, '解析任务没有翻译结果，请下载 AST');
+    }
+    this.assertCompleted(job);
+    const entries = await this.collectFiles(job.translatedDir!, '');
+    const archive = createTarGz(entries);
+    const fileName = `${stripArchiveExtension(job.info.inputName).replace(/\.tex$/i, '')}_translated.tar.gz`;
+    res.writeHead(200, {
+      'Content-Type': 'application/gzip',
+      'Content-Length': archive.length,
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`
+    });
+    res.end(archive);
+  }
+
+  private async sendAst(res: http.ServerResponse, job: Job): Promise<void> {
+    this.assertCompleted(job);
+    if (!job.astPath || !await this.fileService.fileExists(job.astPath)) {
+      throw new HttpError(404, '该任务没有生成 AST');
+    }
+    const json = await this.fileService.readBuffer(job.astPath);
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': json.length });
+    res.end(json);
+  }
+
+  private async deleteJob(job: Job): Promise<void> {
+    if (job.info.status === 'running') {
+      throw new HttpError(409, '任务正在运行，无法删除');
+    }
+    this.queue = this.queue.filter(queued => queued !== job);
+    this.jobs.delete(job.info.id);
+    await this.fileService.removeRecursive(job.jobDir);
+    log.info(`已删除任务 ${job.info.id}`);
+  }
+
+  private assertCompleted(job: Job): void {
+    if (job.info.status === 'failed') {
+      throw new HttpError(409, `任务失败: ${job.info.error}`);
+    }
+    if (job.info.status !== 'completed') {
+      throw new HttpError(409, `任务尚未完成 (当前状态: ${job.info.status})`);
+    }
+  }
+
+  private async collectFiles(dir: string, relativeDir: string): Promise<ArchiveEntry[]> {
+    const entries: ArchiveEntry[] = [];
+    for (const dirent of await this.fileService.readdir(dir, { withFileTypes: true }) as Dirent[]) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        entries.push(...await this.collectFiles(fullPath, relativePath));
+      } else if (dirent.isFile()) {
+        entries.push({ path: relativePath, data: await this.fileService.readBuffer(fullPath) });
+      }
+    }
+    return entries;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const json = JSON.stringify(body, null, 2);
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+    res.end(json);
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import * as path from 'path';
+import { EventEmitter } from 'events';
 // import * as fsPromises from 'fs/promises'; // 由 FileService 处理
 import { ProjectAST, Ast, serializeProjectAstToJson, findRootFile, ProjectFileAst } from 'ast-gen'; // findRootFile 可能仍需直接使用
 
@@ -12,23 +13,80 @@ import { ProjectAST, Ast, serializeProjectAstToJson, findRootFile, ProjectFileAs
 import { ParserService } from './parser_service';
 import { MaskingService } from './masking_service';
 import { TranslationService } from './translation_service';
+import { BudgetExceededError } from './usage_service';
+import { TranslationCacheService } from './translation_cache_service';
+import { CheckpointService } from './checkpoint_service';
+import { GlossaryService } from './glossary_service';
+import { TranslationMemoryService } from './translation_memory_service';
+import { StructureValidationService, StructureValidationTarget } from './structure_validation_service';
+import { QaService } from './qa_service';
 import { ReplacementService } from './replacement_service';
 import { ConfigService } from './config_service';
 import { FileService } from './file_service';
 
 // 导入类型
-import type { TranslatorOptions, MaskingOptions, FileTranslationResult, OpenAIConfig } from '../types';
+import type {
+  TranslatorOptions,
+  MaskingOptions,
+  FileTranslationResult,
+  OpenAIConfig,
+  IntegrityReport,
+  GlossaryReport,
+  BilingualLayout,
+  BilingualSegment,
+  MaskedNode,
+  LanguagePack,
+  LatexEngine,
+  TranslationProgress,
+  TranslatorEventMap,
+  TranslatorEventName,
+  MacroDecision,
+  MacroReport,
+  QaReport,
+  ReviewChunk,
+  ReviewFile
+} from '../types';
 import type { Dirent } from 'fs';
 
 // 导入工具函数
 import * as LatexUtils from '../utils/latex.utils'; // 使用命名空间导入
+import { buildBilingualText, addBilingualSupport } from '../utils/bilingual.utils';
+import { getLanguagePack, applyLanguagePack } from '../utils/language-pack.utils';
+import { estimateTokens } from '../utils/token.utils';
+import { formatCost } from '../utils/usage.utils';
+import { formatPlaceholder } from '../utils/placeholder.utils';
+import { buildReviewReportHtml } from '../utils/review-report.utils';
 import log from '../utils/logger'; // 引入日志服务
 
+// 章节和标题命令：在原文副本中重复会导致编号和目录条目重复
+const HEADING_MACROS = ['part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'title'];
+// 在文档中只能出现一次的命令 (重复会导致标签冲突、脚注或图表重复)
+const UNIQUE_OUTPUT_MACROS = [
+  'label', 'footnote', 'footnotemark', 'footnotetext', 'caption', 'bibitem', 'index', 'item',
+  ...HEADING_MACROS,
+  ...HEADING_MACROS.map(name => `${name}*`)
+];
+
 export class LatexTranslatorService { // 重命名此类
   private options: Required<Pick<TranslatorOptions, 'targetLanguage' | 'saveIntermediateFiles' | 'outputDir'> & { 
     maskingOptions: Required<MaskingOptions>; 
     sourceLanguage: string | undefined;
     bypassLLMTranslation: boolean; // 新增配置项
+    useCache: boolean;
+    cacheDir: string;
+    useMemory: boolean;
+    memoryPath: string;
+    resume: boolean;
+    glossaryPath: string;
+    bilingual: boolean;
+    bilingualLayout: BilingualLayout;
+    bilingualSourceStyle: string;
+    context: boolean;
+    contextTokens: number;
+    validateStructure: boolean;
+    qa: boolean;
+    maxCost: number;
+    maxTokens: number;
   }>;
   
   // 注入的服务实例
@@ -38,6 +96,16 @@ export class LatexTranslatorService { // 重命名此类
   // ReplacementService 是在需要时根据 maskedNodesMap 动态创建的，因此不作为构造函数注入的长期成员
   private configService: ConfigService;
   private fileService: FileService;
+  // 检查点依赖 log/ 目录，在 translate 中创建
+  private checkpointService!: CheckpointService;
+  private glossaryService: GlossaryService | null = null;
+  private memoryService: TranslationMemoryService | null = null;
+  // 目标语言的导言区配置
+  private languagePack: LanguagePack;
+  // 主文件应使用的编译引擎，处理完主文件后确定
+  private compileEngine: LatexEngine | null = null;
+  // 项目自定义宏的分类与处理决定
+  private macroDecisions: MacroDecision[] = [];
 
   // 项目状态变量
   private originalAst: ProjectAST | null;
@@ -47,7 +115,18 @@ export class LatexTranslatorService { // 重命名此类
   private logDir: string;
   private rootFile: string | null;
   private processedFiles: Set<string>;
+  // 本次运行写出 (或从检查点复用) 的译文文件，供结构校验使用
+  private outputFiles: StructureValidationTarget[];
+  // 本次运行翻译 (或从检查点复用) 的文件，供审校报告使用
+  private reviewFiles: ReviewFile[];
+  // 最近一次运行的质量检查结果，未检查时为 null
+  private qaReport: QaReport | null = null;
   private inputPathRootAbsolute!: string;
+  private progress: TranslationProgress;
+  // 当前文件开始处理的时间，用于事件中的耗时
+  private fileStartedAt: number;
+  // 翻译过程事件，见 TranslatorEventMap
+  private events: EventEmitter;
   
   constructor(options: TranslatorOptions = {}) { // 构造函数接收用户传入的选项
     // 获取服务实例 (这里使用单例模式，也可以改为真正的依赖注入)
@@ -76,13 +155,42 @@ export class LatexTranslatorService { // 重命名此类
       bypassLLMTranslation: options.bypassLLMTranslation !== undefined
         ? options.bypassLLMTranslation
         : defaultTranslatorOptions.bypassLLMTranslation, // 新增配置项读取
+      useCache: options.useCache !== undefined ? options.useCache : defaultTranslatorOptions.useCache,
+      cacheDir: options.cacheDir || defaultTranslatorOptions.cacheDir,
+      useMemory: options.useMemory ?? defaultTranslatorOptions.useMemory,
+      memoryPath: options.memoryPath || defaultTranslatorOptions.memoryPath,
+      resume: options.resume ?? false,
+      glossaryPath: options.glossaryPath || defaultTranslatorOptions.glossaryPath,
+      bilingual: options.bilingual ?? defaultTranslatorOptions.bilingual,
+      bilingualLayout: options.bilingualLayout || defaultTranslatorOptions.bilingualLayout,
+      bilingualSourceStyle: defaultTranslatorOptions.bilingualSourceStyle,
+      context: options.context ?? defaultTranslatorOptions.context,
+      contextTokens: options.contextTokens || defaultTranslatorOptions.contextTokens,
+      validateStructure: options.validateStructure ?? defaultTranslatorOptions.validateStructure,
+      qa: options.qa ?? defaultTranslatorOptions.qa,
+      maxCost: options.maxCost ?? defaultTranslatorOptions.maxCost,
+      maxTokens: options.maxTokens ?? defaultTranslatorOptions.maxTokens,
     };
     
+    this.languagePack = getLanguagePack(
+      this.options.targetLanguage,
+      this.configService.get<Record<string, Partial<LanguagePack>>>('output.languagePacks', {})
+    );
+
     // MaskingService 需要最终的掩码选项
     this.maskingService = new MaskingService(this.options.maskingOptions);
     // TranslationService 需要 OpenAI 配置，可以从传入的 options 或 ConfigService 获取
     const openAIConfigToUse = options.openaiConfig || this.configService.getOpenAIConfig();
-    this.translationService = new TranslationService(openAIConfigToUse);
+    const cache = this.options.useCache ? new TranslationCacheService(this.options.cacheDir) : null;
+    this.translationService = new TranslationService(
+      openAIConfigToUse,
+      cache,
+      options.provider || defaultTranslatorOptions.provider
+    );
+    this.translationService.setUsageBudget({ maxCost: this.options.maxCost, maxTokens: this.options.maxTokens });
+    if (this.options.maxCost > 0 && !this.translationService.hasModelPrice()) {
+      log.warn(`价格表 (translation.pricing) 中没有模型 ${this.translationService.getModel()} 的价格，费用上限不会生效，请改用 token 上限`);
+    }
         
     this.originalAst = null;
     this.projectDir = '';
@@ -91,9 +199,52 @@ export class LatexTranslatorService { // 重命名此类
     this.logDir = '';
     this.rootFile = null;
     this.processedFiles = new Set<string>();
+    this.outputFiles = [];
+    this.reviewFiles = [];
+    this.progress = { phase: 'idle', totalFiles: 0, completedFiles: 0, currentFile: null, totalChunks: 0, completedChunks: 0 };
+    this.fileStartedAt = 0;
+    this.events = new EventEmitter();
+  }
+
+  /**
+   * 订阅翻译过程事件
+   * @param event 事件名
+   * @param listener 回调，参数见 TranslatorEventMap
+   */
+  on<K extends TranslatorEventName>(event: K, listener: (payload: TranslatorEventMap[K]) => void): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * 订阅一次翻译过程事件
+   */
+  once<K extends TranslatorEventName>(event: K, listener: (payload: TranslatorEventMap[K]) => void): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * 取消订阅翻译过程事件
+   */
+  off<K extends TranslatorEventName>(event: K, listener: (payload: TranslatorEventMap[K]) => void): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * 发出事件；订阅者抛出的错误只记录日志，不中断翻译
+   */
+  private emit<K extends TranslatorEventName>(event: K, payload: TranslatorEventMap[K]): void {
+    try {
+      this.events.emit(event, payload);
+    } catch (error) {
+      log.warn(`事件 ${event} 的订阅者出错:`, error);
+    }
   }
   
   async translate(inputPath: string): Promise<string> {
+    const runStartedAt = Date.now();
     try {
       const absInputPath = path.resolve(inputPath);
       const inputStatForRoot = await this.fileService.stat(absInputPath);
@@ -106,9 +257,33 @@ export class LatexTranslatorService { // 重命名此类
       await this.setupProjectDirectories(inputPath);
       
       log.info('正在解析LaTeX项目...');
+      this.progress.phase = 'parsing';
+      this.emit('parse:start', { inputPath });
+      const parseStartedAt = Date.now();
       this.originalAst = await this.parserService.parse(inputPath);
+      this.emit('parse:end', { inputPath, fileCount: this.originalAst.files?.length || 0, durationMs: Date.now() - parseStartedAt });
+      this.classifyProjectMacros();
       
       await this.copyOriginalProject(inputPath);
+
+      this.checkpointService = new CheckpointService(this.logDir);
+      await this.checkpointService.begin({
+        inputPath: absInputPath,
+        targetLanguage: this.options.targetLanguage,
+        sourceLanguage: this.options.sourceLanguage,
+        model: `${this.translationService.getProviderName()}/${this.translationService.getModel()}`
+      }, this.options.resume);
+
+      if (this.options.glossaryPath) {
+        this.glossaryService = new GlossaryService();
+        await this.glossaryService.load(this.options.glossaryPath);
+        this.translationService.setGlossary(this.glossaryService);
+      }
+      if (this.options.useMemory && !this.options.bypassLLMTranslation) {
+        this.memoryService = new TranslationMemoryService(this.options.memoryPath);
+        await this.memoryService.load();
+        this.translationService.setTranslationMemory(this.memoryService);
+      }
       
       if (this.options.saveIntermediateFiles) { // 根据选项决定是否保存
         log.debug(`原始AST将保存 (如果启用)。`); 
@@ -116,26 +291,41 @@ export class LatexTranslatorService { // 重命名此类
       }
       
       const inputStat = await this.fileService.stat(inputPath);
+      this.progress.phase = 'translating';
       if (inputStat.isFile()) {
         log.info(`开始处理单个文件: ${inputPath}`);
-        return await this.processSingleFile(inputPath, this.originalAst as ProjectAST); // 断言 ast 不为 null
+        this.progress.totalFiles = 1;
+        const outputFilePath = await this.processSingleFile(inputPath, this.originalAst as ProjectAST); // 断言 ast 不为 null
+        this.completeFileProgress();
+        await this.finalizeRun();
+        this.emit('run:end', { outputPath: outputFilePath, totalFiles: 1, durationMs: Date.now() - runStartedAt });
+        return outputFilePath;
       }
       
       log.info(`开始处理多文件项目: ${inputPath}`);
+      this.progress.totalFiles = this.originalAst?.files?.length || 0;
       const translatedFilesResults = await this.processMultiFileProject(this.originalAst as ProjectAST); //断言 ast 不为 null
       
       await this.copyNonTexFiles(this.originalDir, this.translatedDir);
+      await this.finalizeRun();
       
+      let outputPath: string;
       if (this.rootFile) {
-        const rootFilePath = path.join(this.translatedDir, this.rootFile);
-        log.info(`翻译完成！项目根文件: ${rootFilePath}`);
-        return rootFilePath;
+        outputPath = path.join(this.translatedDir, this.rootFile);
+        log.info(`翻译完成！项目根文件: ${outputPath}`);
       } else {
-        const translatedFilesStr = translatedFilesResults.map(f => f.translatedFilePath).join('\n');
         log.info(`翻译完成！已翻译文件列表保存在输出目录中。查看: ${this.translatedDir}`);
-        return this.translatedDir;
+        outputPath = this.translatedDir;
       }
+      this.emit('run:end', { outputPath, totalFiles: translatedFilesResults.length, durationMs: Date.now() - runStartedAt });
+      return outputPath;
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        // 已完成的文本块已写入检查点，保存用量报告后中止
+        log.warn(`${error.message}，翻译已中止`);
+        await this.writeUsageReport();
+        throw error;
+      }
       log.error('翻译主流程发生错误:', error); // 中文提示
       throw error;
     }
@@ -160,77 +350,254 @@ export class LatexTranslatorService { // 重命名此类
     for (const fileAst of orderedFiles) {
       if (this.processedFiles.has(fileAst.filePath)) {
         log.debug(`文件 ${fileAst.filePath} 此前已处理，本次跳过。`);
+        this.completeFileProgress();
         continue;
       }
       log.info(`处理文件: ${fileAst.filePath}`); // 保留info级别，标记重要文件的开始
       try {
         const relativeFilePath = LatexUtils.getRelativePath(fileAst.filePath, this.inputPathRootAbsolute);
+        this.startFileProgress(relativeFilePath);
         const originalFilePath = path.join(this.originalDir, relativeFilePath);
-        const singleFileAst: ProjectAST = {
-          files: [fileAst],
-          macros: ast.macros,
-          _detailedMacros: ast._detailedMacros,
-          errors: ast.errors,
-          rootFilePath: fileAst.filePath
-        };
-        log.debug(`开始掩码文件: ${relativeFilePath}`);
-        const { maskedText, maskedNodesMap } = await this.maskingService.maskAst(singleFileAst);
-        
-        let maskedFilePath: string | undefined;
-        if (this.options.saveIntermediateFiles) {
-          log.debug(`掩码后文本将保存 (如果启用)。`);
-          maskedFilePath = await this.saveMaskedText(maskedText, relativeFilePath);
-          log.debug(`掩码节点映射将保存 (如果启用)。`);
-          await this.saveMaskedNodesMap(maskedNodesMap, relativeFilePath);
+        const sourceContent = await this.fileService.readFile(fileAst.filePath, 'utf8');
+        const resumedFilePath = await this.getResumedTranslatedFile(relativeFilePath, sourceContent);
+        if (resumedFilePath) {
+          log.info(`文件 ${relativeFilePath} 已在检查点中完成，跳过: ${resumedFilePath}`);
+          this.processedFiles.add(fileAst.filePath);
+          this.recordOutputFile({ fileId: relativeFilePath, sourceFilePath: fileAst.filePath, translatedFilePath: resumedFilePath });
+          this.recordReviewFile({ fileId: relativeFilePath, resumed: true, chunks: [], placeholders: {} });
+          this.emit('file:written', { fileId: relativeFilePath, outputPath: resumedFilePath, resumed: true, durationMs: Date.now() - this.fileStartedAt });
+          results.push({ originalFilePath, translatedFilePath: resumedFilePath });
+          this.completeFileProgress();
+          continue;
         }
-        
-        let translatedText: string;
-        if (this.options.bypassLLMTranslation) {
-          log.info(`旁路LLM翻译（Bypass LLM translation）已启用，针对文件: ${relativeFilePath}。直接使用掩码文本。`);
-          translatedText = maskedText; // 直接使用掩码文本
-        } else {
-          log.debug(`开始翻译文件: ${relativeFilePath}`);
-          translatedText = await this.translationService.translateLargeText(
-              maskedText, 
-              this.options.targetLanguage, 
-              this.options.sourceLanguage, 
-              4000, 
-              this.options.saveIntermediateFiles ? path.join(this.logDir, 'translation_log.txt') : undefined
-          );
-        }
-        
-        let translatedTextFilePath: string | undefined;
-        if (this.options.saveIntermediateFiles) {
-          log.debug(`翻译后文本将保存 (如果启用)。`);
-          translatedTextFilePath = await this.saveTranslatedText(translatedText, relativeFilePath);
-        }
-        
-        log.debug(`开始替换文件 ${relativeFilePath} 中的掩码节点...`);
-        const replacer = new ReplacementService(maskedNodesMap);
-        const replacedText = replacer.replaceTranslatedText(translatedText);
-        const enhancedText = LatexUtils.addChineseSupport(replacedText);
-        const translatedFilePath = path.join(this.translatedDir, relativeFilePath);
-        await this.fileService.writeFile(translatedFilePath, enhancedText, 'utf8');
-        log.info(`文件 ${relativeFilePath} 处理完成，已保存到: ${translatedFilePath}`);
+        const result = await this.translateFileAst(fileAst, ast, relativeFilePath, sourceContent);
         this.processedFiles.add(fileAst.filePath);
-        results.push({
-          originalFilePath,
-          translatedFilePath,
-          maskedFilePath, 
-          translatedTextFilePath 
-        });
+        results.push(result);
       } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
         log.error(`处理文件 ${fileAst.filePath} 时发生错误:`, error);
+        this.emit('file:failed', { fileId: this.progress.currentFile || fileAst.filePath, error });
       }
+      this.completeFileProgress();
     }
     return results;
   }
   
+  /**
+   * 掩码、翻译单个文件的 AST 并写入 translated/ 中对应的文件
+   * @param fileAst 文件 AST
+   * @param ast 文件所在项目的 AST (提供宏定义)
+   * @param relativeFilePath 文件相对于项目根目录的路径
+   * @param sourceContent 原始文件内容，用于检查点校验
+   */
+  private async translateFileAst(
+    fileAst: ProjectFileAst,
+    ast: ProjectAST,
+    relativeFilePath: string,
+    sourceContent: string
+  ): Promise<FileTranslationResult> {
+    const singleFileAst: ProjectAST = {
+      files: [fileAst],
+      macros: ast.macros,
+      _detailedMacros: ast._detailedMacros,
+      errors: ast.errors,
+      rootFilePath: fileAst.filePath
+    };
+    log.debug(`开始掩码文件: ${relativeFilePath}`);
+    const maskStartedAt = Date.now();
+    const { maskedText, maskedNodesMap } = await this.maskingService.maskAst(singleFileAst);
+    this.emitMasked(relativeFilePath, maskedText, maskedNodesMap, maskStartedAt);
+    
+    let maskedFilePath: string | undefined;
+    if (this.options.saveIntermediateFiles) {
+      log.debug(`掩码后文本将保存 (如果启用)。`);
+      maskedFilePath = await this.saveMaskedText(maskedText, relativeFilePath);
+      log.debug(`掩码节点映射将保存 (如果启用)。`);
+      await this.saveMaskedNodesMap(maskedNodesMap, relativeFilePath);
+    }
+    
+    const { translatedText, chunkPairs } = await this.translateMaskedText(maskedText, relativeFilePath, sourceContent);
+    this.recordReviewChunks(relativeFilePath, chunkPairs, maskedNodesMap);
+    
+    let translatedTextFilePath: string | undefined;
+    if (this.options.saveIntermediateFiles) {
+      log.debug(`翻译后文本将保存 (如果启用)。`);
+      translatedTextFilePath = await this.saveTranslatedText(translatedText, relativeFilePath);
+    }
+    
+    log.debug(`开始替换文件 ${relativeFilePath} 中的掩码节点...`);
+    const replaceStartedAt = Date.now();
+    const enhancedText = this.buildOutputText(translatedText, chunkPairs, maskedNodesMap, relativeFilePath);
+    this.emit('file:replaced', { fileId: relativeFilePath, durationMs: Date.now() - replaceStartedAt });
+    const translatedFilePath = path.join(this.translatedDir, relativeFilePath);
+    await this.fileService.writeFile(translatedFilePath, enhancedText, 'utf8');
+    this.emit('file:written', { fileId: relativeFilePath, outputPath: translatedFilePath, resumed: false, durationMs: Date.now() - this.fileStartedAt });
+    log.info(`文件 ${relativeFilePath} 处理完成，已保存到: ${translatedFilePath}`);
+    await this.checkpointService.markFileCompleted(relativeFilePath, translatedFilePath);
+    this.recordOutputFile({ fileId: relativeFilePath, sourceFilePath: fileAst.filePath, translatedFilePath });
+    return {
+      originalFilePath: path.join(this.originalDir, relativeFilePath),
+      translatedFilePath,
+      maskedFilePath, 
+      translatedTextFilePath 
+    };
+  }
+
+  /**
+   * 记录本次运行写出的译文文件；同一文件重复写出时 (监视模式) 只保留最新一条
+   */
+  private recordOutputFile(target: StructureValidationTarget): void {
+    this.outputFiles = this.outputFiles.filter(file => file.fileId !== target.fileId);
+    this.outputFiles.push(target);
+  }
+
+  /**
+   * 记录审校报告中的文件；同一文件重复翻译时 (监视模式) 只保留最新一条
+   */
+  private recordReviewFile(reviewFile: ReviewFile): void {
+    this.reviewFiles = this.reviewFiles.filter(file => file.fileId !== reviewFile.fileId);
+    this.reviewFiles.push(reviewFile);
+  }
+
+  /**
+   * 记录文件的翻译结果，占位符只保存其原始 LaTeX，不保留 AST
+   */
+  private recordReviewChunks(fileId: string, chunks: ReviewChunk[], maskedNodesMap: Map<string, MaskedNode>): void {
+    if (this.options.bypassLLMTranslation) return;
+    const replacer = new ReplacementService(maskedNodesMap);
+    const placeholders: Record<string, string> = {};
+    for (const id of maskedNodesMap.keys()) {
+      placeholders[id] = replacer.replaceTranslatedText(formatPlaceholder(id));
+    }
+    this.recordReviewFile({ fileId, resumed: false, chunks: chunks.filter(Boolean), placeholders });
+  }
+
+  /**
+   * 监视模式下同步单个源文件的变更 (需先调用 translate 完成一次完整翻译)：
+   * TeX 文件只重新解析、掩码和翻译该文件并重写译文 (未改动的文本块命中翻译缓存)；
+   * 其他文件按 copyNonTexFiles 的方式复制；已删除的文件同时从 original/ 和 translated/ 中删除。
+   * @param filePath 发生变化的源文件路径
+   * @returns translated/ 中受影响的文件路径
+   */
+  async syncChangedFile(filePath: string): Promise<string> {
+    if (!this.originalAst) {
+      throw new Error('请先调用 translate 完成一次完整翻译，再同步文件变更');
+    }
+    const absPath = path.resolve(filePath);
+    const relativeFilePath = LatexUtils.getRelativePath(absPath, this.inputPathRootAbsolute);
+    const originalFilePath = path.join(this.originalDir, relativeFilePath);
+    const translatedFilePath = path.join(this.translatedDir, relativeFilePath);
+
+    if (!await this.fileService.fileExists(absPath)) {
+      await this.fileService.removeRecursive(originalFilePath);
+      await this.fileService.removeRecursive(translatedFilePath);
+      this.outputFiles = this.outputFiles.filter(file => file.fileId !== relativeFilePath);
+      this.reviewFiles = this.reviewFiles.filter(file => file.fileId !== relativeFilePath);
+      log.info(`源文件 ${relativeFilePath} 已删除，已移除对应的原文和译文`);
+      return translatedFilePath;
+    }
+
+    await this.fileService.mkdirRecursive(path.dirname(originalFilePath));
+    await this.fileService.copyFile(absPath, originalFilePath);
+    if (!LatexUtils.isTexFile(absPath)) {
+      await this.fileService.mkdirRecursive(path.dirname(translatedFilePath));
+      await this.fileService.copyFile(absPath, translatedFilePath);
+      log.info(`已同步非 TeX 文件: ${relativeFilePath}`);
+      return translatedFilePath;
+    }
+
+    log.info(`源文件 ${relativeFilePath} 已修改，重新翻译...`);
+    const parsedAst = await this.parserService.parse(absPath);
+    const fileAst = (parsedAst.files || []).find((file: ProjectFileAst) => path.resolve(file.filePath) === absPath);
+    if (!fileAst) {
+      throw new Error(`解析结果中未找到文件: ${absPath}`);
+    }
+    // 宏定义通常在主文件中，沿用完整翻译时的项目级宏定义
+    const sourceContent = await this.fileService.readFile(absPath, 'utf8');
+    this.progress.phase = 'translating';
+    this.startFileProgress(relativeFilePath);
+    const files: ProjectFileAst[] = this.originalAst.files || [];
+    this.originalAst.files = [...files.filter(file => path.resolve(file.filePath) !== absPath), fileAst];
+    // 修改的文件可能增删或改动了宏定义
+    this.classifyProjectMacros();
+    const result = await this.translateFileAst(fileAst, this.originalAst, relativeFilePath, sourceContent);
+    await this.finalizeRun();
+    return result.translatedFilePath;
+  }
+
+  /**
+   * 识别项目中定义的宏，决定它们在正文中的处理方式
+   */
+  private classifyProjectMacros(): void {
+    if (!this.originalAst) return;
+    this.macroDecisions = this.maskingService.classifyProjectMacros(this.originalAst);
+    if (this.macroDecisions.length === 0) return;
+    const countKind = (kind: MacroDecision['kind']) => this.macroDecisions.filter(decision => decision.kind === kind).length;
+    log.info(`识别到 ${this.macroDecisions.length} 个自定义宏 (数学 ${countKind('math')}，文本 ${countKind('text')}，结构 ${countKind('structural')})`);
+  }
+
+  /**
+   * 获取当前的翻译进度 (可在 translate 运行期间轮询)
+   */
+  getProgress(): TranslationProgress {
+    return { ...this.progress };
+  }
+
+  private startFileProgress(fileId: string): void {
+    this.progress.currentFile = fileId;
+    this.progress.totalChunks = 0;
+    this.progress.completedChunks = 0;
+    this.fileStartedAt = Date.now();
+    this.emit('file:start', { fileId, index: this.progress.completedFiles, totalFiles: this.progress.totalFiles });
+  }
+
+  private completeFileProgress(): void {
+    this.progress.completedFiles++;
+    this.emit('progress', this.getProgress());
+  }
+
+  private emitMasked(fileId: string, maskedText: string, maskedNodesMap: Map<string, MaskedNode>, startedAt: number): void {
+    this.emit('file:masked', {
+      fileId,
+      placeholderCount: maskedNodesMap.size,
+      estimatedTokens: estimateTokens(maskedText),
+      durationMs: Date.now() - startedAt
+    });
+  }
+
+  /**
+   * 获取 translate 解析得到的原始项目 AST，尚未翻译时为 null
+   */
+  getOriginalAst(): ProjectAST | null {
+    return this.originalAst;
+  }
+
+  /**
+   * 获取项目输出目录 (output/<项目名>)
+   */
+  getProjectDir(): string {
+    return this.projectDir;
+  }
+
   private async processSingleFile(filePath: string, ast: ProjectAST): Promise<string> {
     const fileName = path.basename(filePath);
     log.info(`开始处理单文件: ${fileName}`); 
+    this.startFileProgress(fileName);
+    const sourceContent = await this.fileService.readFile(filePath, 'utf8');
+    const resumedFilePath = await this.getResumedTranslatedFile(fileName, sourceContent);
+    if (resumedFilePath) {
+      log.info(`文件 ${fileName} 已在检查点中完成，跳过翻译: ${resumedFilePath}`);
+      this.recordOutputFile({ fileId: fileName, sourceFilePath: path.resolve(filePath), translatedFilePath: resumedFilePath });
+      this.recordReviewFile({ fileId: fileName, resumed: true, chunks: [], placeholders: {} });
+      this.emit('file:written', { fileId: fileName, outputPath: resumedFilePath, resumed: true, durationMs: Date.now() - this.fileStartedAt });
+      return resumedFilePath;
+    }
     log.debug(`开始掩码AST: ${fileName}`);
+    const maskStartedAt = Date.now();
     const { maskedText, maskedNodesMap } = await this.maskingService.maskAst(ast);
+    this.emitMasked(fileName, maskedText, maskedNodesMap, maskStartedAt);
     
     if (this.options.saveIntermediateFiles) {
       log.debug(`掩码后文本将保存 (如果启用): ${fileName}`);
@@ -239,20 +606,8 @@ export class LatexTranslatorService { // 重命名此类
       await this.saveMaskedNodesMap(maskedNodesMap, fileName);
     }
     
-    let translatedText: string;
-    if (this.options.bypassLLMTranslation) {
-      log.info(`旁路LLM翻译（Bypass LLM translation）已启用，针对文件: ${fileName}。直接使用掩码文本。`);
-      translatedText = maskedText; 
-    } else {
-      log.debug(`开始翻译文本: ${fileName}`);
-      translatedText = await this.translationService.translateLargeText(
-          maskedText, 
-          this.options.targetLanguage, 
-          this.options.sourceLanguage, 
-          4000, 
-          this.options.saveIntermediateFiles ? path.join(this.logDir, 'translation_log.txt') : undefined
-      );
-    }
+    const { translatedText, chunkPairs } = await this.translateMaskedText(maskedText, fileName, sourceContent);
+    this.recordReviewChunks(fileName, chunkPairs, maskedNodesMap);
     
     if (this.options.saveIntermediateFiles) {
       log.debug(`翻译后文本将保存 (如果启用): ${fileName}`);
@@ -260,15 +615,327 @@ export class LatexTranslatorService { // 重命名此类
     }
     
     log.debug(`开始替换掩码节点: ${fileName}`);
-    const replacer = new ReplacementService(maskedNodesMap);
-    const replacedText = replacer.replaceTranslatedText(translatedText);
-    const enhancedText = LatexUtils.addChineseSupport(replacedText);
+    const replaceStartedAt = Date.now();
+    const enhancedText = this.buildOutputText(translatedText, chunkPairs, maskedNodesMap, fileName);
+    this.emit('file:replaced', { fileId: fileName, durationMs: Date.now() - replaceStartedAt });
     const outputFilePath = path.join(this.translatedDir, fileName);
     await this.fileService.writeFile(outputFilePath, enhancedText, 'utf8');
+    this.emit('file:written', { fileId: fileName, outputPath: outputFilePath, resumed: false, durationMs: Date.now() - this.fileStartedAt });
+    await this.checkpointService.markFileCompleted(fileName, outputFilePath);
+    this.recordOutputFile({ fileId: fileName, sourceFilePath: path.resolve(filePath), translatedFilePath: outputFilePath });
     log.info(`单文件翻译完成！输出文件: ${outputFilePath}`);
     return outputFilePath;
   }
   
+  /**
+   * 翻译掩码后的文本，并在每个文本块完成后写入检查点
+   * @param maskedText 掩码后的文本
+   * @param fileId 文件标识 (相对路径)
+   * @param sourceContent 原始文件内容，用于检查点校验
+   * @returns 翻译后的掩码文本，以及按顺序排列的原文/译文块 (供双语输出对齐和审校报告)
+   */
+  private async translateMaskedText(
+    maskedText: string,
+    fileId: string,
+    sourceContent: string
+  ): Promise<{ translatedText: string; chunkPairs: ReviewChunk[] }> {
+    const completedChunks = await this.checkpointService.startFile(fileId, sourceContent, maskedText);
+    if (this.options.bypassLLMTranslation) {
+      log.info(`旁路LLM翻译（Bypass LLM translation）已启用，针对文件: ${fileId}。直接使用掩码文本。`);
+      return { translatedText: maskedText, chunkPairs: [] }; // 直接使用掩码文本
+    }
+    log.debug(`开始翻译文件: ${fileId}`);
+    const chunkPairs: ReviewChunk[] = [];
+    // 本文件开始翻译前已有的完整性问题，之后新增的问题属于本文件
+    const issueOffset = this.translationService.getIntegrityIssues().length;
+    const translatedText = await this.translationService.translateLargeText(
+        maskedText, 
+        this.options.targetLanguage, 
+        this.options.sourceLanguage, 
+        this.translationService.getChunkTokenBudget(), 
+        this.options.saveIntermediateFiles ? path.join(this.logDir, 'translation_log.txt') : undefined,
+        {
+          fileId,
+          completedChunks,
+          contextTokens: this.options.context ? this.options.contextTokens : 0,
+          onChunkRetry: (record) => this.emit('chunk:retry', { fileId, ...record }),
+          onChunkTranslated: async (record) => {
+            chunkPairs[record.index] = { index: record.index, source: record.source, translation: record.translation, status: record.status };
+            this.progress.totalChunks = record.total;
+            this.progress.completedChunks++;
+            this.emit('chunk:translated', {
+              fileId,
+              index: record.index,
+              total: record.total,
+              status: record.status,
+              estimatedTokens: estimateTokens(record.source),
+              durationMs: record.durationMs,
+              usage: record.usage
+            });
+            this.emit('progress', this.getProgress());
+            // 回退为原文的块不写入检查点，继续翻译时会重新尝试
+            if (record.status === 'translated' || record.status === 'cached' || record.status === 'memory') {
+              await this.checkpointService.markChunkCompleted(fileId, record.index, record.source, record.translation);
+            }
+            // 回退为原文的块不写入翻译记忆库
+            if (record.status !== 'fallback') {
+              this.memoryService?.add(record.source, record.translation, this.options.sourceLanguage, this.options.targetLanguage, fileId);
+            }
+          }
+        }
+    );
+    for (const issue of this.translationService.getIntegrityIssues().slice(issueOffset)) {
+      if (issue.fileId === fileId && chunkPairs[issue.chunkIndex]) {
+        chunkPairs[issue.chunkIndex].integrityIssue = issue;
+      }
+    }
+    return { translatedText, chunkPairs };
+  }
+
+  /**
+   * 将译文中的占位符还原为 LaTeX 并添加语言支持；双语模式下先与原文段落对齐
+   * @param translatedText 翻译后的掩码文本
+   * @param chunkPairs 按顺序排列的原文/译文块
+   * @param maskedNodesMap 掩码节点映射
+   * @param fileId 文件标识 (相对路径)
+   * @returns 最终写入 translated/ 的文件内容
+   */
+  private buildOutputText(
+    translatedText: string,
+    chunkPairs: BilingualSegment[],
+    maskedNodesMap: Map<string, MaskedNode>,
+    fileId: string
+  ): string {
+    const replacer = new ReplacementService(maskedNodesMap);
+    if (this.options.bypassLLMTranslation) {
+      // 旁路模式下不添加语言支持和双语排版，输出应与原文逐字节一致
+      return replacer.replaceTranslatedText(translatedText);
+    }
+    if (!this.options.bilingual) {
+      return this.applyLanguageSupport(replacer.replaceTranslatedText(translatedText), fileId);
+    }
+    const bilingualText = buildBilingualText(
+      chunkPairs.length > 0 ? chunkPairs : [{ source: translatedText, translation: translatedText }],
+      {
+        layout: this.options.bilingualLayout,
+        keepPlaceholderInSource: (id) => this.keepPlaceholderInSource(maskedNodesMap.get(id))
+      }
+    );
+    const enhancedText = this.applyLanguageSupport(replacer.replaceTranslatedText(bilingualText), fileId);
+    return addBilingualSupport(enhancedText, this.options.bilingualLayout, this.options.bilingualSourceStyle);
+  }
+
+  /**
+   * 按目标语言的语言包补充导言区，只对含 \documentclass 的主文件生效
+   */
+  private applyLanguageSupport(texContent: string, fileId: string): string {
+    const result = applyLanguagePack(texContent, this.languagePack);
+    if (!LatexUtils.getDocumentClass(texContent)) {
+      return result.content;
+    }
+    if (result.conflicts.length > 0) {
+      log.warn(`文件 ${fileId} 的导言区与 ${this.languagePack.code} 语言包冲突 (${result.conflicts.join('、')})，未自动添加语言支持，请手动调整导言区`);
+    } else if (result.applied) {
+      log.debug(`已为文件 ${fileId} 添加 ${this.languagePack.code} 语言支持`);
+    }
+    this.compileEngine = result.engine;
+    return result.content;
+  }
+
+  /**
+   * 获取译文主文件应使用的编译引擎；尚未处理主文件时返回 null
+   */
+  getCompileEngine(): LatexEngine | null {
+    return this.compileEngine;
+  }
+
+  /**
+   * 获取最近一次运行的质量检查结果；未启用质量检查或尚未完成翻译时返回 null
+   */
+  getQaReport(): QaReport | null {
+    return this.qaReport;
+  }
+
+  /**
+   * 双语模式下原文副本是否保留该占位符：行内公式和普通命令保留；
+   * 会产生编号、标签或浮动体的结构 (环境、章节标题、\label、\footnote 等) 只在译文中出现一次
+   */
+  private keepPlaceholderInSource(maskedNode: MaskedNode | undefined): boolean {
+    const node = maskedNode?.originalContent as { type?: string; content?: unknown } | undefined;
+    if (!node) return false;
+    if (node.type === 'inlinemath' || node.type === 'math.inline' || node.type === 'displaymath' || node.type === 'math.display') {
+      return true;
+    }
+    if (node.type === 'macro') {
+      return !UNIQUE_OUTPUT_MACROS.includes(String(node.content));
+    }
+    return false;
+  }
+
+  /**
+   * 继续模式下，若文件已在检查点中完成且译文仍存在，则返回译文路径
+   */
+  private async getResumedTranslatedFile(fileId: string, sourceContent: string): Promise<string | undefined> {
+    if (!this.options.resume || !this.checkpointService.isFileCompleted(fileId, sourceContent)) {
+      return undefined;
+    }
+    const translatedFilePath = this.checkpointService.getTranslatedFilePath(fileId);
+    if (translatedFilePath && await this.fileService.fileExists(translatedFilePath)) {
+      return translatedFilePath;
+    }
+    return undefined;
+  }
+
+  /**
+   * 运行结束后的汇总：输出缓存统计，写入占位符完整性、质量检查、审校、术语、结构校验、自定义宏和用量报告
+   */
+  private async finalizeRun(): Promise<void> {
+    this.progress.phase = 'finalizing';
+    this.logCacheStats();
+    await this.saveTranslationMemory();
+    if (this.compileEngine) {
+      log.info(`译文主文件的编译引擎: ${this.compileEngine}`);
+    }
+    await this.writeIntegrityReport();
+    await this.writeQaReport();
+    await this.writeReviewReport();
+    await this.writeGlossaryReport();
+    await this.writeStructureReport();
+    await this.writeMacroReport();
+    await this.writeUsageReport();
+    this.progress.phase = 'completed';
+  }
+
+  private async writeMacroReport(): Promise<void> {
+    if (!this.options.maskingOptions.detectMacros) return;
+    const report: MacroReport = {
+      generatedAt: new Date().toISOString(),
+      totalMacros: this.macroDecisions.length,
+      macros: this.macroDecisions
+    };
+    const reportPath = path.join(this.logDir, 'macro_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    log.debug(`自定义宏报告已保存至: ${reportPath}`);
+  }
+
+  private async writeUsageReport(): Promise<void> {
+    if (this.options.bypassLLMTranslation || !this.logDir) return;
+    const report = this.translationService.getUsageReport();
+    const reportPath = path.join(this.logDir, 'usage_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    const { total } = report;
+    if (total.requests === 0) {
+      log.debug(`用量报告已保存至: ${reportPath}`);
+      return;
+    }
+    const estimated = total.estimatedRequests > 0 ? ` (其中 ${total.estimatedRequests} 次请求的用量为估算值)` : '';
+    const cost = report.price ? `，费用约 $${formatCost(total.cost)}` : '';
+    log.info(`用量: ${total.requests} 次请求，输入 ${total.promptTokens} tokens，输出 ${total.completionTokens} tokens${cost}${estimated}，详见: ${reportPath}`);
+  }
+
+  private async writeStructureReport(): Promise<void> {
+    if (!this.options.validateStructure || this.outputFiles.length === 0 || !this.originalAst) return;
+    log.info('正在校验译文结构...');
+    const validator = new StructureValidationService(this.options.bilingual);
+    // 多文件项目从译文根文件解析一次即可覆盖被 \input 的文件
+    const translatedEntryPath = this.rootFile ? path.join(this.translatedDir, this.rootFile) : undefined;
+    const report = await validator.validate(this.outputFiles, this.originalAst, translatedEntryPath);
+    const reportPath = path.join(this.logDir, 'structure_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    for (const file of report.files.filter(file => file.likelyToFail)) {
+      const errors = file.issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+      log.warn(`译文 ${file.fileId} 很可能无法编译: ${errors.join('；')}`);
+    }
+    if (report.filesLikelyToFail > 0) {
+      log.warn(`${report.filesLikelyToFail} 个译文文件存在结构错误，详见: ${reportPath}`);
+    } else {
+      log.debug(`结构校验报告已保存至: ${reportPath}`);
+    }
+  }
+
+  private async writeQaReport(): Promise<void> {
+    if (!this.options.qa || this.options.bypassLLMTranslation || this.reviewFiles.length === 0) return;
+    const qaService = new QaService({ targetLanguage: this.options.targetLanguage, sourceLanguage: this.options.sourceLanguage });
+    this.qaReport = qaService.check(this.reviewFiles);
+    const reportPath = path.join(this.logDir, 'qa_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(this.qaReport, null, 2), 'utf8');
+    if (this.qaReport.issues.length > 0) {
+      log.warn(`质量检查发现 ${this.qaReport.errors} 个错误、${this.qaReport.warnings} 个警告，详见: ${reportPath}`);
+    } else {
+      log.debug(`质量检查报告已保存至: ${reportPath}`);
+    }
+  }
+
+  private async writeReviewReport(): Promise<void> {
+    if (this.options.bypassLLMTranslation || this.reviewFiles.length === 0) return;
+    const html = buildReviewReportHtml({
+      generatedAt: new Date().toISOString(),
+      projectName: path.basename(this.projectDir),
+      sourceLanguage: this.options.sourceLanguage,
+      targetLanguage: this.options.targetLanguage,
+      files: this.reviewFiles,
+      qaIssues: this.qaReport?.issues
+    });
+    const reportPath = path.join(this.logDir, 'review_report.html');
+    await this.fileService.writeFile(reportPath, html, 'utf8');
+    log.info(`审校报告已保存至: ${reportPath}`);
+  }
+
+  private async writeGlossaryReport(): Promise<void> {
+    if (this.options.bypassLLMTranslation || !this.glossaryService) return;
+    const violations = this.translationService.getGlossaryViolations();
+    const report: GlossaryReport = {
+      generatedAt: new Date().toISOString(),
+      glossaryPath: this.glossaryService.getPath(),
+      entryCount: this.glossaryService.getEntries().length,
+      totalViolations: violations.length,
+      violations
+    };
+    const reportPath = path.join(this.logDir, 'glossary_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    if (violations.length > 0) {
+      log.warn(`${violations.length} 处术语未按术语表翻译，详见: ${reportPath}`);
+    } else {
+      log.debug(`术语检查报告已保存至: ${reportPath}`);
+    }
+  }
+
+  private async writeIntegrityReport(): Promise<void> {
+    if (this.options.bypassLLMTranslation) return;
+    const issues = this.translationService.getIntegrityIssues();
+    const report: IntegrityReport = {
+      generatedAt: new Date().toISOString(),
+      totalIssues: issues.length,
+      unresolvedChunks: issues.filter(issue => issue.resolution !== 'recovered').length,
+      issues
+    };
+    const reportPath = path.join(this.logDir, 'integrity_report.json');
+    await this.fileService.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    if (report.unresolvedChunks > 0) {
+      log.warn(`${report.unresolvedChunks} 个文本块的占位符在重新提示后仍不完整，详见: ${reportPath}`);
+    } else {
+      log.debug(`占位符完整性报告已保存至: ${reportPath}`);
+    }
+  }
+
+  private logCacheStats(): void {
+    const stats = this.translationService.getCacheStats();
+    if (!stats || this.options.bypassLLMTranslation) return;
+    const total = stats.hits + stats.misses;
+    const hitRate = total > 0 ? ((stats.hits / total) * 100).toFixed(1) : '0.0';
+    log.info(`翻译缓存: 命中 ${stats.hits} 块，未命中 ${stats.misses} 块 (命中率 ${hitRate}%)，缓存目录: ${this.options.cacheDir}`);
+  }
+
+  /**
+   * 保存本次运行写入翻译记忆库的译文，并输出记忆库的使用统计
+   */
+  private async saveTranslationMemory(): Promise<void> {
+    if (!this.memoryService) return;
+    await this.memoryService.save();
+    const stats = this.memoryService.getStats();
+    log.info(`翻译记忆库: 完全匹配 ${stats.exactHits} 块，模糊匹配参考 ${stats.fuzzyHits} 块，新增或更新 ${stats.added} 条，共 ${stats.entries} 条: ${this.memoryService.getPath()}`);
+  }
+
   private async setupProjectDirectories(inputPath: string): Promise<void> {
     const resolvedInputPath = path.resolve(inputPath);
     const inputStats = await this.fileService.stat(resolvedInputPath);
@@ -338,18 +1005,13 @@ export class LatexTranslatorService { // 重命名此类
   }
   
   private async saveMaskedNodesMap(
-    maskedNodesMap: Map<string, { id: string; originalContent: Ast.Ast }>,
+    maskedNodesMap: Map<string, MaskedNode>,
     fileIdentifier: string
   ): Promise<string> {
     const safeIdentifier = fileIdentifier.replace(/[\/\\]/g, '_');
     const mapFilePath = path.join(this.logDir, `${safeIdentifier}_masked_map.json`);
-    const maskedNodesObj: Record<string, any> = {};
-    maskedNodesMap.forEach((node, key) => {
-      maskedNodesObj[key] = {
-        id: node.id,
-        originalContent: node.originalContent 
-      };
-    });
+    // 保存完整的掩码节点 (含原文切片和参数信息)，可直接用于还原
+    const maskedNodesObj = Object.fromEntries(maskedNodesMap);
     await this.fileService.writeFile(mapFilePath, JSON.stringify(maskedNodesObj, null, 2), 'utf8');
     log.debug(`掩码节点映射已保存至: ${mapFilePath}`); 
     return mapFilePath;
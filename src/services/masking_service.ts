@@ -11,19 +11,113 @@ import type {
   ProjectFileAst,
   Ast,
 } from 'ast-gen';
-import type { MaskingOptions, MaskedNode } from '../types';
+import type {
+  MaskingOptions,
+  MaskedNode,
+  MaskedArgumentSource,
+  MaskedSourceParts,
+  CommandArgumentPolicy,
+  MaskingRule,
+  MacroDecision
+} from '../types';
 import { toString } from '@unified-latex/unified-latex-util-to-string'; // 假设可以这样导入
+import { formatPairedPlaceholderOpen } from '../utils/placeholder.utils';
+import { parseMaskingRule, findMaskingRule } from '../utils/masking-rule.utils';
+import {
+  findMacroDefinitions,
+  classifyMacroDefinition,
+  getDefaultMacroAction,
+  isMacroDefinitionCommand,
+  ParsedMacroDefinition
+} from '../utils/macro.utils';
+import { getNodeSpan, getArgumentSpans, hasConsistentPositions, splitOuterWhitespace } from '../utils/source.utils';
+import type { ArgumentSpan, SourceSpan } from '../utils/source.utils';
+import { FileService } from './file_service';
 import log from '../utils/logger'; // 引入日志服务
 
+/**
+ * 注释是否包含需要翻译的正文文本：空注释和以命令开头的注释 (通常是被注释掉的代码) 不翻译
+ */
+function isTranslatableComment(content: string): boolean {
+  const text = content.trim();
+  return text.length > 0 && !text.startsWith('\\') && /\p{L}/u.test(text);
+}
+
 export class MaskingService { // 重命名此类
   private options: Required<MaskingOptions>;
   private maskedNodes: Map<string, MaskedNode>;
   private maskCounter: number;
+  // 由 options.rules 解析得到的掩码规则
+  private rules: MaskingRule[];
+  // 项目自定义宏的处理决定及定义，由 classifyProjectMacros 设置
+  private macroDecisions: Map<string, MacroDecision>;
+  private macroDefinitions: Map<string, ParsedMacroDefinition>;
+  // 正在展开的宏，防止递归定义导致无限展开
+  private expandingMacros: Set<string>;
+  // 属于宏定义但未被解析为参数的花括号分组，与定义命令一样掩码
+  private definitionSiblings: Set<Ast.Ast>;
+  // 正在掩码的文件的原文；AST 位置信息可用时，空白、未掩码的命令和掩码节点均取自原文
+  private source: string | undefined;
   
+  /**
+   * @throws 掩码规则格式不正确时抛出错误
+   */
   constructor(options: Required<MaskingOptions>) { // 接收完全配置好的选项
     this.options = options;
     this.maskedNodes = new Map();
     this.maskCounter = 0;
+    this.rules = (options.rules || []).map(parseMaskingRule);
+    this.macroDecisions = new Map();
+    this.macroDefinitions = new Map();
+    this.expandingMacros = new Set();
+    this.definitionSiblings = new Set();
+    this.source = undefined;
+    // maskCommands 优先于参数策略：旧配置中列出的格式化或章节命令会被整体掩码，其文本参数不会被翻译
+    const overlapping = (options.maskCommands || []).filter(command => {
+      const policy = options.commandArgumentPolicies?.[command];
+      return policy && [...(policy.optional || []), ...(policy.mandatory || [])].includes('translate');
+    });
+    if (overlapping.length > 0) {
+      log.warn(`以下命令同时出现在 maskCommands 和 commandArgumentPolicies 中，将按 maskCommands 整体掩码，参数不会被翻译: ${overlapping.join(', ')}。如需翻译其文本参数，请从 maskCommands 中移除`);
+    }
+  }
+
+  /**
+   * 识别并分类项目中定义的宏 (需在 maskAst 之前以完整的项目 AST 调用，宏定义通常不在被翻译的文件中)。
+   * 同名的宏以最后一个定义为准；macroActions 中的配置覆盖自动得到的处理方式
+   * @param ast 完整的项目 AST
+   * @returns 每个自定义宏的分类与处理决定
+   */
+  classifyProjectMacros(ast: ProjectAST): MacroDecision[] {
+    this.macroDecisions = new Map();
+    this.macroDefinitions = new Map();
+    this.definitionSiblings = new Set();
+    if (!this.options.detectMacros) return [];
+    for (const definition of findMacroDefinitions(ast)) {
+      this.macroDefinitions.set(definition.name, definition);
+      definition.siblingNodes.forEach(node => this.definitionSiblings.add(node));
+    }
+    for (const definition of this.macroDefinitions.values()) {
+      const { kind, reason } = classifyMacroDefinition(definition);
+      const override = this.options.macroActions?.[definition.name];
+      let action = override || getDefaultMacroAction(kind, definition.argCount);
+      let decisionReason = reason;
+      if (action === 'expand' && definition.argCount > 0) {
+        // 带参数的宏不做展开，改为翻译参数
+        action = 'translate';
+        decisionReason = `${reason}；带参数的宏不能展开，改为翻译参数`;
+      }
+      const { bodyNodes, siblingNodes, ...plainDefinition } = definition;
+      this.macroDecisions.set(definition.name, {
+        name: definition.name,
+        kind,
+        action,
+        overridden: Boolean(override),
+        reason: decisionReason,
+        definition: plainDefinition
+      });
+    }
+    return Array.from(this.macroDecisions.values());
   }
   
   /**
@@ -41,7 +135,7 @@ export class MaskingService { // 重命名此类
     
     // 假设 ProjectAST 保证 files 数组存在
     for (const fileAst of ast.files) {
-      const fileMaskedText = this.maskFileAst(fileAst);
+      const fileMaskedText = await this.maskFileAst(fileAst);
       if (maskedText && fileMaskedText) { // 确保两者都有内容才加分隔符
         maskedText += '\n\n'; // 文件间用双换行分隔，便于阅读
       }
@@ -55,20 +149,47 @@ export class MaskingService { // 重命名此类
   }
   
   /**
-   * 掩码单个文件的AST
+   * 掩码单个文件的AST。位置信息与原文一致时按原文切片输出，文件开头和结尾的空白也一并保留
    * @param fileAst 文件AST
    * @returns 掩码后的文本
    */
-  private maskFileAst(fileAst: ProjectFileAst): string {
-    let maskedText = '';
-    if (fileAst.ast && fileAst.ast.type === 'root' && fileAst.ast.content) {
-      maskedText = this.processNodes(fileAst.ast.content);
+  private async maskFileAst(fileAst: ProjectFileAst): Promise<string> {
+    if (!fileAst.ast || fileAst.ast.type !== 'root' || !fileAst.ast.content) {
+      return '';
+    }
+    const nodes: Ast.Ast[] = fileAst.ast.content;
+    this.source = await this.readSource(fileAst.filePath);
+    if (this.source !== undefined && !hasConsistentPositions(nodes, this.source)) {
+      log.debug(`文件 ${fileAst.filePath} 的 AST 位置信息与原文不一致，按 AST 重新生成 LaTeX`);
+      this.source = undefined;
+    }
+    try {
+      const maskedText = this.processNodes(nodes);
+      const spans = this.source !== undefined ? nodes.map(node => this.getSpan(node)) : [];
+      const first = spans.find(span => span);
+      const last = [...spans].reverse().find(span => span);
+      if (this.source === undefined || !first || !last) {
+        return maskedText;
+      }
+      return this.source.slice(0, first.start) + maskedText + this.source.slice(last.end);
+    } finally {
+      this.source = undefined;
+    }
+  }
+
+  private async readSource(filePath: string): Promise<string | undefined> {
+    try {
+      return await FileService.getInstance().readFile(filePath, 'utf8');
+    } catch (error) {
+      log.debug(`无法读取原文 ${filePath}，按 AST 重新生成 LaTeX:`, error);
+      return undefined;
     }
-    return maskedText;
   }
   
   private processNodes(nodes: Ast.Ast[]): string {
     let result = '';
+    // 上一个节点在原文中的结束位置，用于补回解析时未生成节点的空白
+    let cursor: number | undefined;
     for (const node of nodes) {
       if (!node) continue;
       if (Array.isArray(node)) {
@@ -76,16 +197,26 @@ export class MaskingService { // 重命名此类
         continue;
       }
       if (!node.type) continue;
+      const span = this.getSpan(node);
+      if (span && cursor !== undefined && span.start > cursor) {
+        const gap = this.source!.slice(cursor, span.start);
+        if (!gap.trim()) result += gap;
+      }
+      cursor = span?.end;
+      if (this.definitionSiblings.has(node)) {
+        result += this.maskNode('DEF', node);
+        continue;
+      }
       const nodeType = node.type.toString();
       switch (nodeType) {
         case 'string':
           result += (node as Ast.String).content;
           break;
         case 'whitespace':
-          result += ' '; // 保持原始空白，尽管在翻译中可能被压缩
+          result += this.sourceOf(node) ?? ' '; // 没有原文时压缩为一个空格
           break;
         case 'parbreak':
-          result += '\n\n'; // 保持段落分隔
+          result += this.sourceOf(node) ?? '\n\n'; // 保持段落分隔
           break;
         case 'comment':
           result += this.processComment(node as Ast.Comment);
@@ -104,8 +235,12 @@ export class MaskingService { // 重命名此类
           result += this.processDisplayMath(node as Ast.DisplayMath);
           break;
         case 'verbatim': // 如 lstlisting
+        case 'verb': // \verb|...|
           result += this.processVerbatim(node as Ast.VerbatimEnvironment);
           break;
+        case 'group':
+          result += this.processGroup(node as Ast.Group);
+          break;
         default:
           // 特殊处理 ast-gen 可能产生的 math.inline/math.display 类型
           if (nodeType === 'math.inline') {
@@ -127,26 +262,139 @@ export class MaskingService { // 重命名此类
   }
   
   private processMacro(node: Ast.Macro): string {
+    // 掩码规则优先于 maskCommands 和 commandArgumentPolicies
+    const rule = findMaskingRule(this.rules, 'command', node.content);
+    if (rule) {
+      return this.processMacroWithPolicy(node, rule.policy);
+    }
     if (this.options.maskCommands && 
         this.options.maskCommands.includes(node.content)) {
-      const maskId = this.generateMaskId('CMD');
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+      return this.maskNode('CMD', node);
     }
-    // 格式化命令通常需要保留其参数进行翻译，但这里简单掩码整个命令+参数
-    // 细致处理：可以仅翻译参数内容，但这会使掩码和替换更复杂
-    const formattingCommands = ['textbf', 'textit', 'texttt', 'textrm', 'textsc', 'emph', 'underline', 'textcolor', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
-    if (formattingCommands.includes(node.content)) {
-      const maskId = this.generateMaskId('FMT_CMD');
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+    // 格式化和章节命令按参数策略处理：保留命令结构，只把指定参数的文本交给翻译
+    const policy = this.options.commandArgumentPolicies?.[node.content];
+    if (policy) {
+      return this.processMacroWithPolicy(node, policy);
+    }
+    if (this.options.detectMacros) {
+      // 宏定义本身不交给翻译
+      if (isMacroDefinitionCommand(node.content)) {
+        return this.maskNode('DEF', node);
+      }
+      const decision = this.macroDecisions.get(node.content);
+      if (decision && decision.action !== 'none') {
+        return this.processUserMacro(node, decision);
+      }
     }
     // 对于其他宏，递归处理其参数，但宏本身（如 \label）不应翻译
     // 如果宏参数是文本，则应该被翻译，否则（如 \includegraphics 的文件名）不应翻译
     // 目前的 processArgs 会将参数内容变为文本字符串，这适合翻译
-    return `\\${node.content}${this.processArgsToString(node.args || [])}`;
+    return this.sourceOf(node) ?? `\\${node.content}${this.processArgsToString(node.args || [])}`;
   }
   
+  /**
+   * 按参数策略掩码命令：需要翻译的参数以成对占位符 <ph id="FMT_0001" arg="n">文本</ph> 输出，
+   * 其余参数和命令本身保存在掩码节点中，由 ReplacementService 围绕译文重建命令 (省略标记为 drop 的参数)。
+   * 没有可翻译参数，或参数跨越段落时 (无法保证分块后配对)，整体掩码。
+   */
+  private processMacroWithPolicy(node: Ast.Macro, policy: CommandArgumentPolicy): string {
+    const args = node.args || [];
+    const { translatableArgs, droppedArgs } = this.classifyArgs(args, policy);
+    const dropped = droppedArgs.length > 0 ? { droppedArgs } : {};
+    const argSpans = this.source !== undefined ? getArgumentSpans(node, this.source) : undefined;
+    const sourceParts = argSpans ? {
+      sourceParts: {
+        head: this.source!.slice(getNodeSpan(node, this.source!)!.start, argSpans[0]?.start),
+        args: argSpans.map(span => this.toArgumentSource(span))
+      } as MaskedSourceParts
+    } : {};
+
+    const spansParagraphs = translatableArgs.some(i => args[i].content.some((child: Ast.Ast) => !Array.isArray(child) && child?.type === 'parbreak'));
+    if (translatableArgs.length === 0 || spansParagraphs) {
+      return this.maskNode('FMT_CMD', node, { ...dropped, ...sourceParts });
+    }
+
+    const maskId = this.generateMaskId('FMT');
+    this.maskedNodes.set(maskId, { id: maskId, originalContent: node, translatableArgs, ...dropped, ...sourceParts });
+    const spans = translatableArgs.map(i =>
+      `${formatPairedPlaceholderOpen(maskId, i)}${this.processNodes(args[i].content).trim()}</ph>`
+    );
+    return spans.join('');
+  }
+
+  /**
+   * 按自定义宏的处理决定输出：mask 整体掩码；translate 翻译全部花括号参数；expand 输出定义内容
+   */
+  private processUserMacro(node: Ast.Macro, decision: MacroDecision): string {
+    if (decision.action === 'translate') {
+      return this.processMacroWithPolicy(node, {
+        optional: decision.definition.hasOptionalArg ? ['mask'] : [],
+        mandatory: Array(decision.definition.argCount - (decision.definition.hasOptionalArg ? 1 : 0)).fill('translate')
+      });
+    }
+    const definition = this.macroDefinitions.get(node.content);
+    if (decision.action === 'expand' && definition && !this.expandingMacros.has(node.content)) {
+      // 定义内容的位置属于定义所在的文件，展开时不使用当前文件的原文
+      const source = this.source;
+      this.expandingMacros.add(node.content);
+      this.source = undefined;
+      try {
+        return this.processNodes(definition.bodyNodes);
+      } finally {
+        this.expandingMacros.delete(node.content);
+        this.source = source;
+      }
+    }
+    return this.maskNode('MACRO', node);
+  }
+
+  /**
+   * 按参数策略对参数分类，花括号和方括号参数分别按出现顺序对应策略中的条目
+   * @returns 需要翻译 (且不为空) 和需要删除的参数下标
+   */
+  private classifyArgs(args: Ast.Argument[], policy: CommandArgumentPolicy): { translatableArgs: number[]; droppedArgs: number[] } {
+    const translatableArgs: number[] = [];
+    const droppedArgs: number[] = [];
+    let mandatoryIndex = 0;
+    let optionalIndex = 0;
+    args.forEach((arg: Ast.Argument, i: number) => {
+      if (!arg || arg.type !== 'argument') return;
+      let action: string | undefined;
+      if (arg.openMark === '{') action = policy.mandatory?.[mandatoryIndex++];
+      else if (arg.openMark === '[') action = policy.optional?.[optionalIndex++];
+      if (action === 'translate' && arg.content && arg.content.length > 0) {
+        translatableArgs.push(i);
+      } else if (action === 'drop') {
+        droppedArgs.push(i);
+      }
+    });
+    return { translatableArgs, droppedArgs };
+  }
+
+  /**
+   * 按掩码规则处理环境的参数：translate 的参数文本直接交给翻译，drop 的参数省略，
+   * 其余参数 (包括规则未列出的) 各自掩码为 <ph id="ARG_0001"/>
+   */
+  private processEnvironmentArgsWithPolicy(
+    args: Ast.Argument[],
+    policy: CommandArgumentPolicy,
+    argSources?: MaskedArgumentSource[]
+  ): string {
+    const { translatableArgs, droppedArgs } = this.classifyArgs(args, policy);
+    return args.map((arg: Ast.Argument, i: number) => {
+      if (!arg || arg.type !== 'argument' || droppedArgs.includes(i)) return '';
+      const argSource = argSources?.[i];
+      if (translatableArgs.includes(i)) {
+        const content = this.processNodes(arg.content);
+        return argSource
+          ? `${argSource.before}${content.trim()}${argSource.after}`
+          : `${arg.openMark}${content}${arg.closeMark}`;
+      }
+      if (!arg.openMark && (!arg.content || arg.content.length === 0)) return argSource?.text ?? '';
+      return this.maskNode('ARG', arg, argSource ? { source: argSource.text } : {});
+    }).join('');
+  }
+
   private processEnvironment(node: Ast.Environment): string {
     if (!('env' in node)) return '';
     let envName = '';
@@ -160,17 +408,34 @@ export class MaskingService { // 重命名此类
       return ''; // 或者返回原始内容的字符串表示?
     }
 
+    // 掩码规则优先于环境列表
+    const rule = findMaskingRule(this.rules, 'environment', envName);
+    if (rule) {
+      if (rule.body === 'mask') {
+        return this.maskNode('ENV', node);
+      }
+      const parts = this.getEnvironmentSourceParts(node);
+      if (parts) {
+        return parts.head + this.processEnvironmentArgsWithPolicy(node.args || [], rule.policy, parts.args)
+          + parts.bodyPrefix + this.processNodes(node.content || []) + parts.tail;
+      }
+      return `\\begin{${envName}}${this.processEnvironmentArgsWithPolicy(node.args || [], rule.policy)}`
+        + `${this.processNodes(node.content || [])}\\end{${envName}}`;
+    }
+
     const isRegularEnvToMask = this.options.regularEnvironments?.includes(envName);
     const isMathEnvToMask = this.options.mathEnvironments?.includes(envName) && this.options.maskDisplayMath; // 仅当maskDisplayMath为true时，数学环境才按此规则掩码
 
     if (isRegularEnvToMask || isMathEnvToMask) {
-      const maskType = isMathEnvToMask ? 'MATH_ENV' : 'ENV';
-      const maskId = this.generateMaskId(maskType);
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+      return this.maskNode(isMathEnvToMask ? 'MATH_ENV' : 'ENV', node);
     }
     
     // 如果环境不需要掩码，则处理其内容
+    const parts = this.getEnvironmentSourceParts(node);
+    if (parts) {
+      return parts.head + parts.args.map(arg => arg.text).join('') + parts.bodyPrefix
+        + this.processNodes(node.content || []) + parts.tail;
+    }
     let result = `\\begin{${envName}}${this.processArgsToString(node.args || [])}`;
     if (node.content && Array.isArray(node.content)) {
       result += this.processNodes(node.content);
@@ -179,35 +444,78 @@ export class MaskingService { // 重命名此类
     return result;
   }
   
+  /**
+   * 花括号分组：保留括号，处理其中的内容
+   */
+  private processGroup(node: Ast.Group): string {
+    const content: Ast.Ast[] = node.content || [];
+    const span = this.getSpan(node);
+    const contentSpans = content.filter(child => child && !Array.isArray(child)).map(child => this.getSpan(child));
+    if (span && contentSpans.every(child => child)) {
+      const bodyStart = contentSpans.length > 0 ? contentSpans[0]!.start : span.end - 1;
+      const bodyEnd = contentSpans.length > 0 ? contentSpans[contentSpans.length - 1]!.end : span.end - 1;
+      return this.source!.slice(span.start, bodyStart) + this.processNodes(content) + this.source!.slice(bodyEnd, span.end);
+    }
+    return `{${this.processNodes(content)}}`;
+  }
+
   private processInlineMath(node: Ast.InlineMath): string {
     if (this.options.maskInlineMath) {
-      const maskId = this.generateMaskId('IMATH');
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+      return this.maskNode('IMATH', node);
     }
     // 若不掩码，则需要将其内容转换为字符串以包含在文本流中
     // 使用 unified-latex 的 toString 函数代替自定义的 nodesToString
-    return `$${toString(node.content || [])}$`;
+    return this.sourceOf(node) ?? `$${toString(node.content || [])}$`;
   }
   
   private processDisplayMath(node: Ast.DisplayMath): string {
     if (this.options.maskDisplayMath) {
-      const maskId = this.generateMaskId('DMATH');
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+      return this.maskNode('DMATH', node);
     }
     // 使用 unified-latex 的 toString 函数代替自定义的 nodesToString
-    return `\\[${toString(node.content || [])}\\]`;
+    return this.sourceOf(node) ?? `\\[${toString(node.content || [])}\\]`;
   }
     
+  /**
+   * 按 commentPolicy 处理注释：
+   * - preserve: 整体掩码，原样保留；
+   * - translate: 注释文本以成对占位符 <ph id="COMMENT_0001" arg="0">文本</ph> 交给翻译，% 及前后的空白和换行保存在掩码节点中。
+   *   没有正文文本的注释 (空注释、被注释掉的代码) 原样保留；
+   * - drop: 删除注释。独占一行的注释连同该行一起删除；行尾注释删除后保留换行；
+   *   紧跟在文本后、用于连接下一行的 % 保留为空注释 (段落末尾的除外)。
+   */
   private processComment(node: Ast.Comment): string {
-    if (this.options.maskComments) {
+    const policy = this.options.commentPolicy || (this.options.maskComments ? 'preserve' : 'drop');
+    const content: string = node.content || '';
+    const source = this.sourceOf(node);
+    // 注释的原文包括 % 之前的空白和之后的换行，文本与节点内容不符时不按原文拆分
+    const percent = source !== undefined ? source.indexOf('%') : -1;
+    const parts = percent >= 0 && source!.slice(percent + 1, percent + 1 + content.length) === content
+      ? { leading: source!.slice(0, percent), trailing: source!.slice(percent + 1 + content.length) }
+      : undefined;
+
+    if (policy === 'drop') {
+      // 紧跟在文本后的 % 只有其后还有下一行时才起连接作用；位于段落或文件末尾时连同 % 一起删除，
+      // 否则裁剪段落首尾空白后 % 会注释掉其后拼接的内容 (如双语原文副本的 \par})
+      const joinsNextLine = node.sameline && !node.leadingWhitespace && !node.suffixParbreak;
+      // 没有原文时注释前后的换行已不可知，按一个换行处理
+      if (!parts) return joinsNextLine ? '%\n' : '\n';
+      if (!node.sameline) return parts.leading;
+      if (joinsNextLine && parts.trailing.includes('\n')) return `%${parts.trailing}`;
+      // 行尾注释：保留其后的换行，避免把两行原文连成一行 (换行与注释前的空白同样是一个空格)
+      return parts.trailing || parts.leading;
+    }
+    if (policy === 'translate' && isTranslatableComment(content)) {
       const maskId = this.generateMaskId('COMMENT');
-      this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-      return ` <ph id="${maskId}"/> `;
+      const [leading, text, trailing] = splitOuterWhitespace(content);
+      const sourceParts: MaskedSourceParts | undefined = parts && {
+        head: '',
+        args: [{ text: source!, before: `${parts.leading}%${leading}`, after: `${trailing}${parts.trailing}` }]
+      };
+      this.maskedNodes.set(maskId, { id: maskId, originalContent: node, translatableArgs: [0], ...(sourceParts ? { sourceParts } : {}) });
+      return `${formatPairedPlaceholderOpen(maskId, 0)}${text}</ph>`;
     }
-    // 不掩码注释，则注释不应出现在待翻译文本中
-    return ''; // 或者根据需要保留，但通常目标是翻译主要内容
+    return this.maskNode('COMMENT', node);
   }
   
   // 将参数节点转换为字符串，用于宏和环境的参数部分
@@ -258,9 +566,71 @@ export class MaskingService { // 重命名此类
   }
   
   private processVerbatim(node: Ast.VerbatimEnvironment): string {
-    const maskId = this.generateMaskId('VERBATIM');
-    this.maskedNodes.set(maskId, { id: maskId, originalContent: node });
-    return ` <ph id="${maskId}"/> `;
+    return this.maskNode('VERBATIM', node);
+  }
+
+  /**
+   * 将节点整体掩码为自闭合占位符，并记录节点的原文 (位置信息可用时)
+   * @param prefix 占位符编号前缀
+   * @param node 被掩码的节点
+   * @param extra 掩码节点的其他字段
+   */
+  private maskNode(prefix: string, node: Ast.Ast, extra: Partial<MaskedNode> = {}): string {
+    const maskId = this.generateMaskId(prefix);
+    const source = this.sourceOf(node);
+    this.maskedNodes.set(maskId, { id: maskId, originalContent: node, ...(source !== undefined ? { source } : {}), ...extra });
+    return `<ph id="${maskId}"/>`;
+  }
+
+  private getSpan(node: Ast.Ast) {
+    return this.source !== undefined ? getNodeSpan(node, this.source) : undefined;
+  }
+
+  /**
+   * 节点在当前文件中的原文；没有可用的位置信息时返回 undefined
+   */
+  private sourceOf(node: Ast.Ast): string | undefined {
+    const span = this.getSpan(node);
+    return span ? this.source!.slice(span.start, span.end) : undefined;
+  }
+
+  private toArgumentSource(span: ArgumentSpan): MaskedArgumentSource {
+    const source = this.source!;
+    const [leading, , trailing] = splitOuterWhitespace(source.slice(span.contentStart, span.contentEnd));
+    return {
+      text: source.slice(span.start, span.end),
+      before: source.slice(span.start, span.contentStart) + leading,
+      after: trailing + source.slice(span.contentEnd, span.end)
+    };
+  }
+
+  /**
+   * 将环境按原文拆分为 \begin{环境名}、各参数、内容之前的空白和内容之后直到 \end{环境名} 的部分
+   */
+  private getEnvironmentSourceParts(node: Ast.Environment): {
+    head: string;
+    args: MaskedArgumentSource[];
+    bodyPrefix: string;
+    tail: string;
+  } | undefined {
+    const span = this.getSpan(node);
+    const argSpans = span ? getArgumentSpans(node, this.source!) : undefined;
+    if (!span || !argSpans) return undefined;
+    const source = this.source!;
+    const headEnd = argSpans[0]?.start ?? source.slice(span.start, span.end).indexOf('}') + span.start + 1;
+    const argsEnd = argSpans.length > 0 ? argSpans[argSpans.length - 1].end : headEnd;
+    const contentSpans = (node.content || []).filter((child: Ast.Ast) => child && !Array.isArray(child)).map((child: Ast.Ast) => this.getSpan(child));
+    if (contentSpans.some((child: SourceSpan | undefined) => !child)) return undefined;
+    const endMarker = source.lastIndexOf('\\end', span.end);
+    const bodyStart = contentSpans.length > 0 ? contentSpans[0]!.start : endMarker;
+    const bodyEnd = contentSpans.length > 0 ? contentSpans[contentSpans.length - 1]!.end : endMarker;
+    if (endMarker < span.start || bodyStart < argsEnd || bodyEnd > endMarker) return undefined;
+    return {
+      head: source.slice(span.start, headEnd),
+      args: argSpans.map(argSpan => this.toArgumentSource(argSpan)),
+      bodyPrefix: source.slice(argsEnd, bodyStart),
+      tail: source.slice(bodyEnd, span.end)
+    };
   }
   // saveMaskedText 和 saveMaskedNodesMap 方法定义已按计划移除
 } 
\ No newline at end of file
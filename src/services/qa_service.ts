@@ -0,0 +1,381 @@
+/**
+ * src/services/qa_service.ts
+ *
+ * 翻译完成后的译文质量检查：逐段比较掩码原文与译文，标记仍为源语言的段落、数字/单位/URL 不一致、
+ * 长度比例异常，以及模型输出中残留的 Markdown 代码块标记和「以下是译文」之类的客套话。
+ * 检查只基于文本，不调用翻译接口。
+ */
+import type { QaIssue, QaIssueKind, QaReport, ReviewChunk, ReviewFile } from '../types';
+import { ConfigService } from './config_service';
+import { alignBilingualSegments } from '../utils/bilingual.utils';
+import { removePlaceholderTags } from '../utils/placeholder.utils';
+import { getLanguageScripts, toLanguageCode } from '../utils/language.utils';
+
+const SEVERITIES: Record<QaIssueKind, QaIssue['severity']> = {
+  untranslated: 'error',
+  number_mismatch: 'warning',
+  unit_mismatch: 'warning',
+  url_mismatch: 'error',
+  length_ratio: 'warning',
+  markdown_fence: 'error',
+  chatty_preamble: 'error',
+  code_wrapper: 'error'
+};
+
+// 以逗号作为小数点的语言
+const DECIMAL_COMMA_LANGUAGES = ['de', 'fr', 'es', 'pt', 'it', 'ru'];
+// 计算字数时的一个词：汉字、假名、谚文按字计，其他文字按连续字母计
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+/gu;
+const SCRIPT_PATTERNS = ['Latin', 'Han', 'Hiragana', 'Katakana', 'Hangul', 'Cyrillic', 'Arabic', 'Greek']
+  .map(name => ({ name, pattern: new RegExp(`^\\p{Script=${name}}`, 'u') }));
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+// 数字后的单位符号；秒、分钟等可以译为目标语言的单位不在其中
+const QUANTITY_PATTERN = /(\d+(?:[.,]\d+)*)\s*(%|‰|[kKMGTP]?i?B|[kMG]?Hz|[mμµun]s|[kcmnμµ]?m|[km]?g|[km]?W|mA|V|°C|°)(?![\p{L}\d])/gu;
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s{}<>"'\\]+/g;
+const URL_TRAILING_PUNCTUATION = /[.,;:!?)\]。，；：！？）]+$/;
+// 代码块标记独占一行
+const FENCE_LINE = /^[ \t]*(?:`{3}|~{3})/m;
+const WRAPPER_START = /^\s*(?:`{3}|~{3})[\w-]*[ \t]*\n/;
+const WRAPPER_END = /\n[ \t]*(?:`{3}|~{3})\s*$/;
+// 模型在译文前后附加的客套话
+const CHATTY_PREAMBLE_PATTERNS = [
+  /^(?:sure|certainly|of course|okay)\b[,.!:]/i,
+  /^here(?:'s| is| are)\b[^\n]{0,60}\btranslat/i,
+  /^(?:the )?(?:translation|translated text)(?: is)?\s*[:：]/i,
+  /^(?:以下是|下面是|这是)[^\n]{0,30}(?:翻译|译文)/,
+  /^(?:译文|翻译结果|翻译)\s*[:：]/,
+  /^(?:好的|当然|没问题)[，,。！!：:]/
+];
+const CHATTY_POSTSCRIPT_PATTERNS = [
+  /\b(?:i hope this helps|let me know if|feel free to)\b/i,
+  /希望(?:这|以上|对你|对您)[^\n]{0,20}(?:帮助|有用)/,
+  /如(?:果)?有[^\n]{0,20}(?:问题|需要)[^\n]{0,10}(?:请|随时)/,
+  /^(?:note|注意|注|说明)\s*[:：][^\n]{0,80}(?:translat|翻译|译文|placeholder|占位符)/i
+];
+// 译文中目标语言文字所占的比例低于该值时视为未翻译
+const UNTRANSLATED_SCRIPT_SHARE = 0.25;
+// 参与长度比例检查的段落在原文中至少包含的字符数 (不含空白)
+const LENGTH_RATIO_MIN_CHARACTERS = 40;
+// 至少有这么多段落时才能得到可靠的长度比例中位数
+const LENGTH_RATIO_MIN_SAMPLES = 5;
+// 报告中原文和译文片段的最大长度
+const MAX_SNIPPET_LENGTH = 300;
+
+export interface QaOptions {
+  targetLanguage: string;
+  // 未设置时按原文中的文字判断
+  sourceLanguage?: string;
+  // 段落的译文/原文长度比例与全文中位数相差超过该倍数时报告
+  lengthRatioTolerance?: number;
+  // 原文少于该字数的段落不检查是否未翻译
+  minWords?: number;
+}
+
+// 一个待检查的段落
+interface QaSegment {
+  fileId: string;
+  chunk: ReviewChunk;
+  source: string;
+  translation: string;
+}
+
+export class QaService {
+  private targetLanguage: string;
+  private sourceLanguage?: string;
+  private lengthRatioTolerance: number;
+  private minWords: number;
+  private targetScripts: string[];
+
+  constructor(options: QaOptions) {
+    const configService = ConfigService.getInstance();
+    this.targetLanguage = options.targetLanguage;
+    this.sourceLanguage = options.sourceLanguage;
+    this.lengthRatioTolerance = options.lengthRatioTolerance ?? configService.get<number>('output.qa.lengthRatioTolerance', 3);
+    this.minWords = options.minWords ?? configService.get<number>('output.qa.minWords', 4);
+    this.targetScripts = getLanguageScripts(options.targetLanguage);
+  }
+
+  /**
+   * 检查一组文件的译文
+   * @param files 审校报告中的文件 (从检查点复用的文件没有文本块，不检查)
+   */
+  check(files: ReviewFile[]): QaReport {
+    const issues: QaIssue[] = [];
+    const segments: QaSegment[] = [];
+    for (const file of files) {
+      for (const chunk of file.chunks) {
+        issues.push(...this.checkChunk(file.fileId, chunk));
+        for (const pair of alignBilingualSegments([chunk])) {
+          const segment = { fileId: file.fileId, chunk, source: pair.source, translation: pair.translation };
+          segments.push(segment);
+          issues.push(...this.checkSegment(segment));
+        }
+      }
+    }
+    issues.push(...this.checkLengthRatios(segments));
+
+    // 长度比例在所有段落之后检查，按文件和文本块的顺序重新排列
+    const fileOrder = new Map(files.map((file, index) => [file.fileId, index]));
+    issues.sort((a, b) => (fileOrder.get(a.fileId)! - fileOrder.get(b.fileId)!) || a.chunkIndex - b.chunkIndex);
+    const kinds: QaReport['kinds'] = {};
+    for (const issue of issues) {
+      kinds[issue.kind] = (kinds[issue.kind] || 0) + 1;
+    }
+    return {
+      generatedAt: new Date().toISOString(),
+      checkedSegments: segments.length,
+      errors: issues.filter(issue => issue.severity === 'error').length,
+      warnings: issues.filter(issue => issue.severity === 'warning').length,
+      kinds,
+      issues
+    };
+  }
+
+  /**
+   * 整块检查模型输出的包裹标记和客套话 (它们通常出现在块首或块尾)
+   */
+  private checkChunk(fileId: string, chunk: ReviewChunk): QaIssue[] {
+    if (chunk.status === 'fallback') return [];
+    const issues: QaIssue[] = [];
+    const issue = (kind: QaIssueKind, message: string, items?: string[]) =>
+      issues.push(this.createIssue(kind, fileId, chunk, chunk.source, chunk.translation, message, items));
+
+    if (!FENCE_LINE.test(chunk.source)) {
+      if (WRAPPER_START.test(chunk.translation) || WRAPPER_END.test(chunk.translation)) {
+        issue('code_wrapper', '译文被代码块标记包裹');
+      } else if (FENCE_LINE.test(chunk.translation)) {
+        issue('markdown_fence', '译文中出现原文没有的 Markdown 代码块标记');
+      }
+    }
+
+    const [firstSource, lastSource] = getOuterLines(chunk.source);
+    const [firstLine, lastLine] = getOuterLines(chunk.translation);
+    if (CHATTY_PREAMBLE_PATTERNS.some(pattern => pattern.test(firstLine) && !pattern.test(firstSource))) {
+      issue('chatty_preamble', '译文开头有模型附加的说明文字', [firstLine]);
+    }
+    if (lastLine !== firstLine && CHATTY_POSTSCRIPT_PATTERNS.some(pattern => pattern.test(lastLine) && !pattern.test(lastSource))) {
+      issue('chatty_preamble', '译文结尾有模型附加的说明文字', [lastLine]);
+    }
+    return issues;
+  }
+
+  private checkSegment(segment: QaSegment): QaIssue[] {
+    const issues: QaIssue[] = [];
+    const issue = (kind: QaIssueKind, message: string, items?: string[]) =>
+      issues.push(this.createIssue(kind, segment.fileId, segment.chunk, segment.source, segment.translation, message, items));
+
+    const sourceUrls = extractUrls(segment.source);
+    const targetUrls = extractUrls(segment.translation);
+    const sourcePlain = toPlainText(segment.source);
+    const targetPlain = toPlainText(segment.translation);
+
+    const untranslated = this.checkUntranslated(sourcePlain, targetPlain);
+    if (untranslated) {
+      issue('untranslated', segment.chunk.status === 'fallback' ? `${untranslated} (该块回退为原文)` : untranslated);
+    }
+
+    const { missing, extra } = compareMultisets(sourceUrls, targetUrls);
+    if (missing.length > 0 || extra.length > 0) {
+      issue('url_mismatch', describeDifference('URL', missing, extra), [...missing, ...extra]);
+    }
+
+    const sourceNumbers = extractNumbers(sourcePlain, this.sourceLanguage);
+    const targetNumbers = extractNumbers(targetPlain, this.targetLanguage);
+    const numbers = compareMultisets(sourceNumbers, targetNumbers);
+    if (numbers.missing.length > 0 || numbers.extra.length > 0) {
+      issue('number_mismatch', describeDifference('数字', numbers.missing, numbers.extra), [...numbers.missing, ...numbers.extra]);
+    }
+
+    // 数字本身缺失时已在上面报告，这里只报告数字还在但单位变了的情况
+    const targetQuantities = new Set(extractQuantities(targetPlain, this.targetLanguage));
+    const changedUnits = extractQuantities(sourcePlain, this.sourceLanguage)
+      .filter(quantity => !targetQuantities.has(quantity) && targetNumbers.includes(quantity.split(' ')[0]));
+    if (changedUnits.length > 0) {
+      issue('unit_mismatch', `译文中 ${changedUnits.join('、')} 的单位与原文不一致`, changedUnits);
+    }
+    return issues;
+  }
+
+  /**
+   * 判断译文是否仍为源语言：译文与原文相同，或源语言与目标语言文字不同而译文中几乎没有目标语言的文字
+   * @returns 问题描述，没有问题时返回 null
+   */
+  private checkUntranslated(sourcePlain: string, targetPlain: string): string | null {
+    const sourceWords = sourcePlain.match(WORD_PATTERN) || [];
+    if (sourceWords.length < this.minWords) return null;
+    if (normalizeWhitespace(sourcePlain) === normalizeWhitespace(targetPlain)) {
+      return '译文与原文相同';
+    }
+    if (this.targetScripts.length === 0) return null;
+    const sourceScripts = getLanguageScripts(this.sourceLanguage);
+    const scripts = sourceScripts.length > 0 ? sourceScripts : [getDominantScript(sourceWords)];
+    if (scripts.some(script => this.targetScripts.includes(script))) return null;
+    const targetWords = targetPlain.match(WORD_PATTERN) || [];
+    const inTargetScript = targetWords.filter(word => this.targetScripts.includes(getScript(word))).length;
+    if (targetWords.length === 0 || inTargetScript / targetWords.length < UNTRANSLATED_SCRIPT_SHARE) {
+      return `译文中几乎没有${this.targetLanguage}的文字`;
+    }
+    return null;
+  }
+
+  /**
+   * 以全文段落长度比例的中位数为基准，报告比例明显偏离的段落 (不同语言对的正常比例差别很大)
+   */
+  private checkLengthRatios(segments: QaSegment[]): QaIssue[] {
+    const samples = segments
+      .filter(segment => segment.chunk.status !== 'fallback')
+      .map(segment => {
+        const sourceLength = countCharacters(toPlainText(segment.source));
+        const targetLength = countCharacters(toPlainText(segment.translation));
+        return { segment, sourceLength, ratio: sourceLength > 0 ? targetLength / sourceLength : 0 };
+      })
+      .filter(sample => sample.sourceLength >= LENGTH_RATIO_MIN_CHARACTERS && sample.segment.source.trim() !== sample.segment.translation.trim());
+    if (samples.length < LENGTH_RATIO_MIN_SAMPLES) return [];
+    const ratios = samples.map(sample => sample.ratio).sort((a, b) => a - b);
+    const middle = Math.floor(ratios.length / 2);
+    const median = ratios.length % 2 === 1 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+    if (median === 0) return [];
+    return samples
+      .filter(sample => sample.ratio > median * this.lengthRatioTolerance || sample.ratio < median / this.lengthRatioTolerance)
+      .map(({ segment, ratio }) => this.createIssue(
+        'length_ratio', segment.fileId, segment.chunk, segment.source, segment.translation,
+        `译文与原文的长度比例为 ${ratio.toFixed(2)}，全文中位数为 ${median.toFixed(2)}`
+      ));
+  }
+
+  private createIssue(
+    kind: QaIssueKind,
+    fileId: string,
+    chunk: ReviewChunk,
+    source: string,
+    translation: string,
+    message: string,
+    items?: string[]
+  ): QaIssue {
+    return {
+      kind,
+      severity: SEVERITIES[kind],
+      fileId,
+      chunkIndex: chunk.index,
+      message,
+      ...(items ? { items } : {}),
+      source: truncate(source.trim()),
+      translation: truncate(translation.trim())
+    };
+  }
+}
+
+/**
+ * 去掉占位符标签和 LaTeX 命令，只保留可读文字 (成对占位符中的文本保留)。注释已在掩码时按 commentPolicy 处理，
+ * 这里不再识别，\% 与 % 视为相同
+ */
+function toPlainText(maskedText: string): string {
+  return removePlaceholderTags(maskedText)
+    .replace(URL_PATTERN, ' ')
+    .replace(/\\(?:begin|end)\s*\{[^{}]*\}/g, ' ')
+    .replace(/\\[A-Za-z@]+\*?/g, ' ')
+    .replace(/\\(.)/g, '$1')
+    .replace(/[{}~]/g, ' ')
+    .normalize('NFKC');
+}
+
+function extractUrls(maskedText: string): string[] {
+  return (removePlaceholderTags(maskedText).match(URL_PATTERN) || []).map(url => url.replace(URL_TRAILING_PUNCTUATION, ''));
+}
+
+/**
+ * 提取并规范化数字：千位分隔符和小数点写法不同的数字视为相同，如 1,000 与 1000、3,5 (德语) 与 3.5
+ * @param plainText 可读文字
+ * @param language 文字所属的语言，决定逗号是否为小数点
+ */
+function extractNumbers(plainText: string, language: string | undefined): string[] {
+  const decimalComma = DECIMAL_COMMA_LANGUAGES.includes(toLanguageCode(language) || '');
+  const numbers: string[] = [];
+  for (const token of plainText.match(NUMBER_PATTERN) || []) {
+    numbers.push(...normalizeNumber(token, decimalComma));
+  }
+  return numbers;
+}
+
+function normalizeNumber(token: string, decimalComma: boolean): string[] {
+  const canonical = (value: string) => String(Number(value));
+  if (decimalComma && /^\d{1,3}(?:\.\d{3})+(?:,\d+)?$/.test(token)) {
+    return [canonical(token.replace(/\./g, '').replace(',', '.'))];
+  }
+  if (/^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(token)) {
+    return [canonical(token.replace(/,/g, ''))];
+  }
+  if (decimalComma && /^\d+,\d+$/.test(token)) {
+    return [canonical(token.replace(',', '.'))];
+  }
+  // 其余的逗号视为列举 (如 1,2,3)，译文可能改用顿号分隔
+  return token.split(',').filter(Boolean).map(canonical);
+}
+
+/**
+ * 提取带单位的数量，格式为「数字 单位」
+ */
+function extractQuantities(plainText: string, language: string | undefined): string[] {
+  const decimalComma = DECIMAL_COMMA_LANGUAGES.includes(toLanguageCode(language) || '');
+  return Array.from(plainText.matchAll(QUANTITY_PATTERN), match => {
+    const numbers = normalizeNumber(match[1], decimalComma);
+    return `${numbers[numbers.length - 1]} ${match[2].replace('µ', 'μ')}`;
+  });
+}
+
+/**
+ * 比较两个多重集合
+ * @returns missing: 只在 source 中出现 (或次数更多) 的元素; extra: 只在 target 中出现的元素
+ */
+function compareMultisets(source: string[], target: string[]): { missing: string[]; extra: string[] } {
+  const remaining = new Map<string, number>();
+  for (const item of target) {
+    remaining.set(item, (remaining.get(item) || 0) + 1);
+  }
+  const missing: string[] = [];
+  for (const item of source) {
+    const count = remaining.get(item) || 0;
+    if (count > 0) remaining.set(item, count - 1);
+    else missing.push(item);
+  }
+  const extra = Array.from(remaining.entries()).flatMap(([item, count]) => Array<string>(count).fill(item));
+  return { missing, extra };
+}
+
+function describeDifference(label: string, missing: string[], extra: string[]): string {
+  const parts: string[] = [];
+  if (missing.length > 0) parts.push(`缺少${label} ${missing.join('、')}`);
+  if (extra.length > 0) parts.push(`多出${label} ${extra.join('、')}`);
+  return `译文中${parts.join('，')}`;
+}
+
+function getScript(word: string): string {
+  return SCRIPT_PATTERNS.find(script => script.pattern.test(word))?.name || 'Other';
+}
+
+function getDominantScript(words: string[]): string {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    const script = getScript(word);
+    counts.set(script, (counts.get(script) || 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 'Other';
+}
+
+// 首个和最后一个非空行
+function getOuterLines(text: string): [string, string] {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return [lines[0] || '', lines[lines.length - 1] || ''];
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function countCharacters(text: string): number {
+  return text.replace(/\s+/g, '').length;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}…` : text;
+}
@@ -9,8 +9,12 @@
 import { Ast } from 'ast-gen'; // ProjectAST 可能不需要了，因为不处理整个项目
 import type { MaskedNode } from '../types';
 import { toString } from '@unified-latex/unified-latex-util-to-string';
+import { tokenizePlaceholders } from '../utils/placeholder.utils';
 import log from '../utils/logger'; // 引入日志服务
 
+// 成对占位符折叠后使用的内部标记，形如 \u0000FMT_0001:组号@参数下标\u0000
+const PAIRED_MARKER_REGEX = /\u0000([A-Z_]+_\d+:\d+@\d+)\u0000/g;
+
 export class ReplacementService { // 重命名此类
   private maskedNodesMap: Map<string, MaskedNode>;
   
@@ -38,11 +42,124 @@ export class ReplacementService { // 重命名此类
         log.warn(`未找到ID为 ${maskId} 的掩码节点`); // 中文注释
         return match; // 返回原始匹配（整个 <ph ... /> 标签）
       }
-      return this.nodeToLatex(maskedNode.originalContent);
+      if (maskedNode.droppedArgs?.length) {
+        return this.macroWithTranslatedArgsToLatex(maskedNode, new Map());
+      }
+      // 优先使用原文，避免重新序列化改变格式
+      return maskedNode.source ?? this.nodeToLatex(maskedNode.originalContent);
+    });
+    return this.replacePairedPlaceholders(replaced);
+  }
+
+  /**
+   * 还原成对占位符 <ph id="..." arg="n">译文</ph>：
+   * 由内向外收集每个参数的译文，在该命令第一次出现的位置重建完整命令，
+   * 缺失的参数使用原文。同一命令的参数重复出现时 (如双语输出中的原文副本) 视为新的一组。
+   * @param text 自闭合占位符已被替换的文本
+   * @returns 替换后的文本
+   */
+  private replacePairedPlaceholders(text: string): string {
+    const tokens = tokenizePlaceholders(text).filter(token => token.kind === 'open' || token.kind === 'close');
+    if (tokens.length === 0) return text;
+
+    const groupArgs = new Map<string, Map<number, string>>();
+    const groupCounters = new Map<string, { group: number; seenArgs: Set<number> }>();
+    const frames: { groupKey: string; argIndex: number; buffer: string }[] = [];
+    let root = '';
+    let cursor = 0;
+    const append = (chunk: string) => {
+      if (frames.length > 0) frames[frames.length - 1].buffer += chunk;
+      else root += chunk;
+    };
+    const closeFrame = () => {
+      const frame = frames.pop()!;
+      if (!groupArgs.has(frame.groupKey)) groupArgs.set(frame.groupKey, new Map());
+      groupArgs.get(frame.groupKey)!.set(frame.argIndex, frame.buffer.trim());
+      append(`\u0000${frame.groupKey}@${frame.argIndex}\u0000`);
+    };
+
+    for (const token of tokens) {
+      append(text.slice(cursor, token.start));
+      cursor = token.end;
+      if (token.kind === 'close') {
+        if (frames.length > 0) closeFrame();
+        else log.warn('发现多余的成对占位符结束标签 </ph>，已忽略'); // 中文注释
+        continue;
+      }
+      const [id, arg] = token.key.split('#');
+      const argIndex = Number(arg);
+      const counter = groupCounters.get(id) || { group: 0, seenArgs: new Set<number>() };
+      if (counter.seenArgs.has(argIndex)) {
+        counter.group++;
+        counter.seenArgs = new Set<number>();
+      }
+      counter.seenArgs.add(argIndex);
+      groupCounters.set(id, counter);
+      frames.push({ groupKey: `${id}:${counter.group}`, argIndex, buffer: '' });
+    }
+    append(text.slice(cursor));
+    while (frames.length > 0) {
+      log.warn('成对占位符缺少结束标签，已在文本末尾闭合'); // 中文注释
+      closeFrame();
+    }
+
+    const emittedGroups = new Set<string>();
+    const expandMarkers = (value: string): string => value.replace(PAIRED_MARKER_REGEX, (_marker, ref: string) => {
+      const groupKey = ref.slice(0, ref.lastIndexOf('@'));
+      if (emittedGroups.has(groupKey)) return '';
+      emittedGroups.add(groupKey);
+      const id = groupKey.slice(0, groupKey.lastIndexOf(':'));
+      const maskedNode = this.maskedNodesMap.get(id);
+      if (!maskedNode) {
+        log.warn(`未找到ID为 ${id} 的掩码节点`); // 中文注释
+        return Array.from(groupArgs.get(groupKey)!.values()).map(expandMarkers).join(' ');
+      }
+      const translatedArgs = new Map<number, string>();
+      groupArgs.get(groupKey)!.forEach((value, argIndex) => translatedArgs.set(argIndex, expandMarkers(value)));
+      if (maskedNode.originalContent?.type === 'comment') {
+        return this.commentWithTranslationToLatex(maskedNode, translatedArgs.get(0) ?? '');
+      }
+      return this.macroWithTranslatedArgsToLatex(maskedNode, translatedArgs);
+    });
+    return expandMarkers(root);
+  }
+
+  /**
+   * 用译文替换命令中的可翻译参数，省略被删除的参数 (droppedArgs)，其余参数按原文输出。
+   * 掩码时记录了命令各部分的原文时，命令名、参数间的空白和括号均取自原文
+   * @param maskedNode 命令的掩码节点
+   * @param translatedArgs 参数下标到译文的映射
+   */
+  private macroWithTranslatedArgsToLatex(maskedNode: MaskedNode, translatedArgs: Map<number, string>): string {
+    const node = maskedNode.originalContent as Ast.Macro;
+    const droppedArgs = maskedNode.droppedArgs || [];
+    const sourceParts = maskedNode.sourceParts;
+    const args = (node.args || []).map((arg: Ast.Argument, i: number) => {
+      if (arg.type !== 'argument' || droppedArgs.includes(i)) return '';
+      const argSource = sourceParts?.args[i];
+      if (argSource) {
+        return translatedArgs.has(i) ? `${argSource.before}${translatedArgs.get(i)}${argSource.after}` : argSource.text;
+      }
+      const openMark = arg.openMark || '';
+      const closeMark = arg.closeMark || '';
+      const content = translatedArgs.has(i) ? translatedArgs.get(i)! : this.nodesToLatex(arg.content || []);
+      return `${openMark}${content}${closeMark}`;
     });
-    return replaced;
+    return `${sourceParts ? sourceParts.head : `\\${node.content}`}${args.join('')}`;
   }
   
+  /**
+   * 用译文替换注释文本。译文跨越多行时每行都以 % 开头，避免后续行成为正文；
+   * % 之前的空白和注释之后的换行取自原文，没有原文时按 %译文 加换行输出
+   * @param maskedNode 注释的掩码节点
+   * @param translation 注释文本的译文
+   */
+  private commentWithTranslationToLatex(maskedNode: MaskedNode, translation: string): string {
+    const text = translation.split(/\r?\n/).map(line => line.trim()).join('\n% ');
+    const commentSource = maskedNode.sourceParts?.args[0];
+    return commentSource ? `${commentSource.before}${text}${commentSource.after}` : `% ${text}\n`;
+  }
+
   /**
    * 将节点转换为LaTeX代码
    * @param node AST节点
@@ -0,0 +1,101 @@
+/**
+ * src/services/roundtrip_service.ts
+ *
+ * 往返检查：与旁路翻译 (bypassLLMTranslation) 一样解析、掩码并直接还原每个文件，
+ * 将结果与原文逐字节比较，报告每个文件是否一致以及第一处差异的位置。
+ */
+import * as path from 'path';
+import { ProjectFileAst } from 'ast-gen';
+
+import { ParserService } from './parser_service';
+import { MaskingService } from './masking_service';
+import { ReplacementService } from './replacement_service';
+import { ConfigService } from './config_service';
+import { FileService } from './file_service';
+import type { FileRoundtripResult, MaskingOptions, RoundtripDifference, RoundtripReport } from '../types';
+import * as LatexUtils from '../utils/latex.utils';
+import log from '../utils/logger';
+
+export interface RoundtripOptions {
+  // 覆盖配置文件中的掩码选项
+  maskingOptions?: MaskingOptions;
+}
+
+export class RoundtripService {
+  private fileService: FileService;
+  private parserService: ParserService;
+  private maskingService: MaskingService;
+
+  constructor(options: RoundtripOptions = {}) {
+    this.fileService = FileService.getInstance();
+    this.parserService = new ParserService();
+    const defaults = ConfigService.getInstance().getDefaultTranslatorOptions();
+    this.maskingService = new MaskingService({ ...defaults.maskingOptions, ...(options.maskingOptions || {}) });
+  }
+
+  /**
+   * 检查 LaTeX 文件或项目中的每个文件能否经掩码和还原得到与原文相同的内容
+   * @param inputPath LaTeX 文件或项目目录
+   */
+  async check(inputPath: string): Promise<RoundtripReport> {
+    const absInputPath = path.resolve(inputPath);
+    const inputStat = await this.fileService.stat(absInputPath);
+    const baseDir = inputStat.isFile() ? path.dirname(absInputPath) : absInputPath;
+    log.info('正在解析LaTeX项目...');
+    const ast = await this.parserService.parse(absInputPath);
+    this.maskingService.classifyProjectMacros(ast);
+
+    const files: FileRoundtripResult[] = [];
+    const projectFiles: ProjectFileAst[] = ast.files || [];
+    for (const fileAst of projectFiles) {
+      const fileId = LatexUtils.getRelativePath(fileAst.filePath, baseDir);
+      log.debug(`开始往返检查文件: ${fileId}`);
+      const source = await this.fileService.readFile(fileAst.filePath, 'utf8');
+      const { maskedText, maskedNodesMap } = await this.maskingService.maskAst({
+        files: [fileAst],
+        macros: ast.macros,
+        _detailedMacros: ast._detailedMacros,
+        errors: ast.errors,
+        rootFilePath: fileAst.filePath
+      });
+      const output = new ReplacementService(maskedNodesMap).replaceTranslatedText(maskedText);
+      const difference = findFirstDifference(source, output);
+      files.push({
+        fileId,
+        identical: !difference,
+        sourceLength: source.length,
+        outputLength: output.length,
+        placeholders: maskedNodesMap.size,
+        ...(difference ? { difference } : {})
+      });
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      inputPath: absInputPath,
+      totalFiles: files.length,
+      identicalFiles: files.filter(file => file.identical).length,
+      files
+    };
+  }
+}
+
+/**
+ * 找出两段文本的第一处差异，返回其行号、列号和所在行的内容；文本相同时返回 undefined
+ */
+function findFirstDifference(expected: string, actual: string): RoundtripDifference | undefined {
+  if (expected === actual) return undefined;
+  let offset = 0;
+  while (offset < expected.length && offset < actual.length && expected[offset] === actual[offset]) offset++;
+  const lineStart = expected.lastIndexOf('\n', offset - 1) + 1;
+  const lineOf = (text: string) => {
+    const end = text.indexOf('\n', offset);
+    return text.slice(lineStart, end === -1 ? text.length : end);
+  };
+  return {
+    line: expected.slice(0, lineStart).split('\n').length,
+    column: offset - lineStart + 1,
+    expected: lineOf(expected),
+    actual: lineOf(actual)
+  };
+}
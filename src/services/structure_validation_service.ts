@@ -0,0 +1,258 @@
+/**
+ * src/services/structure_validation_service.ts
+ *
+ * 翻译后的结构校验：重新解析译文，与原文比较环境配对、花括号、\label/\ref/\cite 键集合
+ * 以及数学公式数量，在运行 xelatex 之前标记很可能无法编译的文件。
+ */
+import * as path from 'path';
+import type { ProjectAST, ProjectFileAst, Ast } from 'ast-gen';
+import { toString } from '@unified-latex/unified-latex-util-to-string';
+import type { StructureFileReport, StructureIssue, StructureReport, StructureSummary } from '../types';
+import { ParserService } from './parser_service';
+import { FileService } from './file_service';
+import { scanLatexBalance } from '../utils/structure.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+const REF_MACROS = ['ref', 'eqref', 'pageref', 'autoref', 'cref', 'Cref', 'nameref', 'vref'];
+const CITE_MACROS = ['cite', 'citep', 'citet', 'citealp', 'citeauthor', 'citeyear', 'nocite', 'parencite', 'textcite', 'autocite', 'footcite'];
+const MATH_ENVIRONMENTS = ['equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*', 'eqnarray', 'eqnarray*', 'displaymath', 'math', 'flalign', 'flalign*', 'alignat', 'alignat*'];
+const MATH_NODE_TYPES = ['inlinemath', 'displaymath', 'math.inline', 'math.display'];
+// 双语 paracol 布局由翻译器添加的环境
+const BILINGUAL_ENVIRONMENTS = ['paracol'];
+
+// 需要校验的一个译文文件
+export interface StructureValidationTarget {
+  // 文件标识 (相对路径)
+  fileId: string;
+  // 原文文件的绝对路径，与原始 AST 中的 filePath 对应
+  sourceFilePath: string;
+  translatedFilePath: string;
+}
+
+export class StructureValidationService {
+  private parserService: ParserService;
+  private fileService: FileService;
+  private bilingual: boolean;
+
+  /**
+   * @param bilingual 译文是否为双语对照输出 (原文副本会增加公式数量和 paracol 环境)
+   */
+  constructor(bilingual: boolean = false) {
+    this.parserService = new ParserService();
+    this.fileService = FileService.getInstance();
+    this.bilingual = bilingual;
+  }
+
+  /**
+   * 校验一组译文文件
+   * @param targets 需要校验的文件
+   * @param originalAst 原文项目的 AST
+   * @param translatedEntryPath 译文项目的入口文件，解析一次即可得到被 \input 的文件
+   */
+  async validate(targets: StructureValidationTarget[], originalAst: ProjectAST, translatedEntryPath?: string): Promise<StructureReport> {
+    const translatedFiles = new Map<string, ProjectFileAst>();
+    if (translatedEntryPath) {
+      try {
+        const translatedAst = await this.parserService.parse(translatedEntryPath);
+        for (const fileAst of translatedAst.files || []) {
+          translatedFiles.set(path.resolve(fileAst.filePath), fileAst);
+        }
+      } catch (error) {
+        log.warn(`无法解析译文入口文件 ${translatedEntryPath}，将逐个解析译文文件:`, error);
+      }
+    }
+
+    const files: StructureFileReport[] = [];
+    for (const target of targets) {
+      files.push(await this.validateFile(target, originalAst, translatedFiles));
+    }
+    return {
+      generatedAt: new Date().toISOString(),
+      totalFiles: files.length,
+      filesLikelyToFail: files.filter(file => file.likelyToFail).length,
+      files
+    };
+  }
+
+  private async validateFile(
+    target: StructureValidationTarget,
+    originalAst: ProjectAST,
+    translatedFiles: Map<string, ProjectFileAst>
+  ): Promise<StructureFileReport> {
+    const originalFileAst = (originalAst.files || []).find(
+      (fileAst: ProjectFileAst) => path.resolve(fileAst.filePath) === path.resolve(target.sourceFilePath)
+    );
+    const originalText = await this.fileService.readFile(target.sourceFilePath, 'utf8');
+    const original = this.summarize(originalText, originalFileAst);
+    const report: StructureFileReport = {
+      fileId: target.fileId,
+      translatedFilePath: target.translatedFilePath,
+      likelyToFail: false,
+      issues: [],
+      original,
+      translated: null
+    };
+
+    const translatedText = await this.fileService.readFile(target.translatedFilePath, 'utf8');
+    let translatedFileAst = translatedFiles.get(path.resolve(target.translatedFilePath));
+    if (!translatedFileAst) {
+      try {
+        const translatedAst = await this.parserService.parse(target.translatedFilePath);
+        translatedFileAst = (translatedAst.files || []).find(
+          (fileAst: ProjectFileAst) => path.resolve(fileAst.filePath) === path.resolve(target.translatedFilePath)
+        );
+      } catch (error) {
+        report.issues.push({ kind: 'parse', severity: 'error', message: `译文无法解析: ${error}` });
+        report.likelyToFail = true;
+        return report;
+      }
+    }
+
+    const translated = this.summarize(translatedText, translatedFileAst);
+    report.translated = translated;
+    report.issues = this.compare(original, translated);
+    report.likelyToFail = report.issues.some(issue => issue.severity === 'error');
+    return report;
+  }
+
+  private compare(original: StructureSummary, translated: StructureSummary): StructureIssue[] {
+    const issues: StructureIssue[] = [];
+
+    if (translated.unclosedBraces !== original.unclosedBraces || translated.extraClosingBraces !== original.extraClosingBraces) {
+      issues.push({
+        kind: 'brace',
+        severity: 'error',
+        message: `花括号不平衡: 未闭合的 { 由 ${original.unclosedBraces} 变为 ${translated.unclosedBraces}，多余的 } 由 ${original.extraClosingBraces} 变为 ${translated.extraClosingBraces}`
+      });
+    }
+
+    const newEnvironmentErrors = subtractList(translated.environmentErrors, original.environmentErrors);
+    if (newEnvironmentErrors.length > 0) {
+      issues.push({ kind: 'environment', severity: 'error', message: '\\begin/\\end 不配对', items: newEnvironmentErrors });
+    }
+
+    const ignoredEnvironments = this.bilingual ? BILINGUAL_ENVIRONMENTS : [];
+    const environmentNames = new Set([...Object.keys(original.environments), ...Object.keys(translated.environments)]);
+    const changedEnvironments = Array.from(environmentNames)
+      .filter(name => !ignoredEnvironments.includes(name))
+      .filter(name => (original.environments[name] || 0) !== (translated.environments[name] || 0))
+      .map(name => `${name}: ${original.environments[name] || 0} → ${translated.environments[name] || 0}`);
+    if (changedEnvironments.length > 0) {
+      issues.push({ kind: 'environment', severity: 'warning', message: '环境数量与原文不一致', items: changedEnvironments });
+    }
+
+    this.compareKeys(issues, 'label', '\\label', original.labels, translated.labels);
+    this.compareKeys(issues, 'ref', '引用', original.refs, translated.refs);
+    this.compareKeys(issues, 'cite', '\\cite', original.cites, translated.cites);
+
+    // 双语输出的原文副本保留行内公式，公式数量只会增加
+    if (translated.mathNodes < original.mathNodes || (!this.bilingual && translated.mathNodes > original.mathNodes)) {
+      issues.push({
+        kind: 'math',
+        severity: 'warning',
+        message: `数学公式数量由 ${original.mathNodes} 变为 ${translated.mathNodes}`
+      });
+    }
+    return issues;
+  }
+
+  private compareKeys(issues: StructureIssue[], kind: StructureIssue['kind'], label: string, original: string[], translated: string[]): void {
+    const missing = original.filter(key => !translated.includes(key));
+    const unexpected = translated.filter(key => !original.includes(key));
+    if (missing.length > 0) {
+      issues.push({ kind, severity: 'warning', message: `译文中缺少原文的 ${label} 键`, items: missing });
+    }
+    if (unexpected.length > 0) {
+      issues.push({ kind, severity: 'warning', message: `译文中出现原文没有的 ${label} 键`, items: unexpected });
+    }
+  }
+
+  /**
+   * 汇总文件的结构：配对检查基于源码，其余基于 AST
+   */
+  private summarize(text: string, fileAst: ProjectFileAst | undefined): StructureSummary {
+    const balance = scanLatexBalance(text);
+    const summary: StructureSummary = {
+      environments: {},
+      unclosedBraces: balance.unclosedBraces,
+      extraClosingBraces: balance.extraClosingBraces,
+      environmentErrors: balance.environmentErrors,
+      labels: [],
+      refs: [],
+      cites: [],
+      mathNodes: 0
+    };
+    const labels = new Set<string>();
+    const refs = new Set<string>();
+    const cites = new Set<string>();
+
+    const visit = (nodes: Ast.Ast[]) => {
+      for (const node of nodes) {
+        if (!node) continue;
+        if (Array.isArray(node)) {
+          visit(node as Ast.Ast[]);
+          continue;
+        }
+        const nodeType = String(node.type);
+        if (nodeType === 'environment' || nodeType === 'mathenv') {
+          const envName = getEnvironmentName(node);
+          if (envName) summary.environments[envName] = (summary.environments[envName] || 0) + 1;
+          if (nodeType === 'mathenv' || MATH_ENVIRONMENTS.includes(envName)) summary.mathNodes++;
+        } else if (MATH_NODE_TYPES.includes(nodeType)) {
+          summary.mathNodes++;
+        } else if (nodeType === 'macro') {
+          const name = String((node as Ast.Macro).content);
+          const keys = name === 'label' || REF_MACROS.includes(name) || CITE_MACROS.includes(name)
+            ? getMacroKeys(node as Ast.Macro)
+            : [];
+          const target = name === 'label' ? labels : REF_MACROS.includes(name) ? refs : cites;
+          keys.forEach(key => target.add(key));
+        }
+        if ('args' in node && Array.isArray(node.args)) {
+          node.args.forEach((arg: Ast.Argument) => visit(arg.content || []));
+        }
+        if ('content' in node && Array.isArray(node.content)) {
+          visit(node.content);
+        }
+      }
+    };
+    if (fileAst?.ast && Array.isArray(fileAst.ast.content)) {
+      visit(fileAst.ast.content);
+    }
+
+    summary.labels = Array.from(labels).sort();
+    summary.refs = Array.from(refs).sort();
+    summary.cites = Array.from(cites).sort();
+    return summary;
+  }
+}
+
+function getEnvironmentName(node: Ast.Ast): string {
+  const envAttr = (node as any).env;
+  if (typeof envAttr === 'string') return envAttr;
+  if (envAttr && typeof envAttr === 'object' && 'content' in envAttr) return String(envAttr.content);
+  return '';
+}
+
+/**
+ * 读取 \label/\ref/\cite 最后一个必选参数中的键，多个键以逗号分隔
+ */
+function getMacroKeys(node: Ast.Macro): string[] {
+  const args: Ast.Argument[] = (node.args || []).filter((arg: Ast.Argument) => arg.openMark === '{');
+  const lastArg = args[args.length - 1];
+  if (!lastArg) return [];
+  return toString(lastArg.content || []).split(',').map(key => key.trim()).filter(Boolean);
+}
+
+/**
+ * 按多重集合计算 items 中多出 base 的部分
+ */
+function subtractList(items: string[], base: string[]): string[] {
+  const remaining = [...base];
+  return items.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
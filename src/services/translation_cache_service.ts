@@ -0,0 +1,115 @@
+/**
+ * src/services/translation_cache_service.ts
+ * 
+ * 翻译缓存服务，将已翻译的文本块持久化到磁盘，避免重复调用LLM。
+ */
+import * as path from 'path';
+import { FileService } from './file_service';
+import type { TranslationCacheKeyParams, TranslationCacheEntry, TranslationCacheStats } from '../types';
+import { sha256 } from '../utils/hash.utils';
+import log from '../utils/logger'; // 引入日志服务
+
+export class TranslationCacheService {
+  private cacheDir: string;
+  private fileService: FileService;
+  private stats: TranslationCacheStats;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = path.resolve(cacheDir);
+    this.fileService = FileService.getInstance();
+    this.stats = { hits: 0, misses: 0, writes: 0 };
+  }
+
+  /**
+   * 根据文本块内容及翻译参数生成缓存键
+   * @param params 影响翻译结果的全部参数
+   * @returns SHA-256 十六进制字符串
+   */
+  static buildKey(params: TranslationCacheKeyParams): string {
+    const fields: (string | number)[] = [
+      params.promptVersion,
+      params.model,
+      params.sourceLanguage || '',
+      params.targetLanguage,
+      params.text
+    ];
+    // 仅在使用术语表时加入，保证未使用术语表时的缓存键不变
+    if (params.glossary) fields.push(params.glossary);
+    // 附带前文或翻译记忆库参考译文时，其内容也参与缓存键 (修改一处会使按顺序翻译的其后各块缓存失效)
+    if (params.contextTokens) fields.push(`context:${params.contextTokens}`);
+    if (params.context) fields.push(`previous:${params.context}`);
+    if (params.memoryReferences) fields.push(`memory:${params.memoryReferences}`);
+    const payload = JSON.stringify(fields);
+    return sha256(payload);
+  }
+
+  /**
+   * 读取缓存的翻译
+   * @param key 缓存键
+   * @returns 命中时返回译文，否则返回 undefined
+   */
+  async get(key: string): Promise<string | undefined> {
+    const entryPath = this.getEntryPath(key);
+    try {
+      if (!(await this.fileService.fileExists(entryPath))) {
+        this.stats.misses++;
+        return undefined;
+      }
+      const entry = JSON.parse(await this.fileService.readFile(entryPath, 'utf8')) as TranslationCacheEntry;
+      this.stats.hits++;
+      return entry.translation;
+    } catch (error) {
+      // 缓存文件损坏时视为未命中，后续写入会覆盖它
+      log.warn(`读取翻译缓存失败，将重新翻译: ${entryPath}`, error);
+      this.stats.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * 写入翻译缓存
+   * @param key 缓存键
+   * @param params 生成该键的参数（写入条目便于排查）
+   * @param translation 译文
+   */
+  async set(key: string, params: TranslationCacheKeyParams, translation: string): Promise<void> {
+    const entry: TranslationCacheEntry = {
+      key,
+      model: params.model,
+      sourceLanguage: params.sourceLanguage,
+      targetLanguage: params.targetLanguage,
+      promptVersion: params.promptVersion,
+      source: params.text,
+      translation,
+      createdAt: new Date().toISOString()
+    };
+    try {
+      await this.fileService.writeFile(this.getEntryPath(key), JSON.stringify(entry, null, 2), 'utf8');
+      this.stats.writes++;
+    } catch (error) {
+      // 缓存写入失败不应中断翻译流程
+      log.warn(`写入翻译缓存失败: ${key}`, error);
+    }
+  }
+
+  /**
+   * 清空缓存目录
+   */
+  async clear(): Promise<void> {
+    await this.fileService.removeRecursive(this.cacheDir);
+    log.info(`翻译缓存已清空: ${this.cacheDir}`);
+  }
+
+  getStats(): TranslationCacheStats {
+    return { ...this.stats };
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  private getEntryPath(key: string): string {
+    // 按键的前两位分目录，避免单个目录下文件过多
+    return path.join(this.cacheDir, key.slice(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * src/services/translation_memory_service.ts
+ *
+ * 翻译记忆库：以段落为单位保存已完成翻译的原文和译文 (含占位符)，可导出和导入 TMX。
+ * 翻译文本块前先查找记忆库：所有段落都有完全匹配时直接复用译文，不调用翻译接口；
+ * 否则将相似度达到阈值的模糊匹配作为参考译文提供给模型。
+ */
+import * as path from 'path';
+import { FileService } from './file_service';
+import { ConfigService } from './config_service';
+import type { TranslationMemoryEntry, TranslationMemoryFile, TranslationMemoryMatch, TranslationMemoryStats } from '../types';
+import { toLanguageCode } from '../utils/language.utils';
+import { validatePlaceholders, removePlaceholderTags } from '../utils/placeholder.utils';
+import { segmentMaskedText } from '../utils/xliff.utils';
+import {
+  alignSegments,
+  normalizePlaceholderIds,
+  restorePlaceholderIds,
+  tokenizeForSimilarity,
+  calculateSimilarity
+} from '../utils/translation-memory.utils';
+import { buildTmxDocument, parseTmxDocument } from '../utils/tmx.utils';
+import log from '../utils/logger';
+
+// 未指定源语言时记录的语言代码
+const UNDETERMINED_LANGUAGE = 'und';
+// 按文件路径串行化保存：任务服务中多个任务可能同时使用同一个记忆库文件
+const saveQueues = new Map<string, Promise<void>>();
+
+export interface TranslationMemoryOptions {
+  // 模糊匹配的最低相似度 (0~1)，默认为 translation.memory.fuzzyThreshold
+  fuzzyThreshold?: number;
+  // 每个文本块最多提供给模型的参考译文数，默认为 translation.memory.maxReferences
+  maxReferences?: number;
+}
+
+export class TranslationMemoryService {
+  private fileService: FileService;
+  private memoryPath: string;
+  private fuzzyThreshold: number;
+  private maxReferences: number;
+  // 键为 "源语言|目标语言|规范化的原文"
+  private entries: Map<string, TranslationMemoryEntry>;
+  // 计算相似度用的原文词元及词频，按需生成
+  private tokenCache: Map<TranslationMemoryEntry, { tokens: string[]; counts: Map<string, number> }>;
+  private stats: TranslationMemoryStats;
+  // 本次加载后新增或更新的记录的键，保存时合并到磁盘上的最新内容中
+  private changedKeys: Set<string>;
+
+  constructor(memoryPath: string, options: TranslationMemoryOptions = {}) {
+    const configService = ConfigService.getInstance();
+    this.fileService = FileService.getInstance();
+    this.memoryPath = path.resolve(memoryPath);
+    this.fuzzyThreshold = options.fuzzyThreshold ?? configService.get<number>('translation.memory.fuzzyThreshold', 0.75);
+    this.maxReferences = options.maxReferences ?? configService.get<number>('translation.memory.maxReferences', 3);
+    this.entries = new Map();
+    this.tokenCache = new Map();
+    this.stats = { entries: 0, exactHits: 0, fuzzyHits: 0, added: 0 };
+    this.changedKeys = new Set();
+  }
+
+  /**
+   * 从磁盘加载记忆库，文件不存在时为空记忆库
+   */
+  async load(): Promise<void> {
+    this.entries = await this.readEntries();
+    this.tokenCache.clear();
+    this.changedKeys.clear();
+    this.stats.entries = this.entries.size;
+    log.info(`已加载翻译记忆库 ${this.memoryPath}，共 ${this.entries.size} 条`);
+  }
+
+  /**
+   * 将新增或更新的记录写入磁盘。保存前重新读取文件并合并，
+   * 以免覆盖其他任务在本次加载之后写入的记录 (相同原文以本次的译文为准)
+   */
+  async save(): Promise<void> {
+    if (this.changedKeys.size === 0) return;
+    const previous = saveQueues.get(this.memoryPath) || Promise.resolve();
+    const current = previous.then(async () => {
+      const merged = await this.readEntries();
+      for (const key of this.changedKeys) {
+        const entry = this.entries.get(key)!;
+        const existing = merged.get(key);
+        merged.set(key, existing ? { ...entry, createdAt: existing.createdAt } : entry);
+      }
+      const data: TranslationMemoryFile = { version: 1, entries: [...merged.values()] };
+      await this.fileService.mkdirRecursive(path.dirname(this.memoryPath));
+      await this.fileService.writeFile(this.memoryPath, JSON.stringify(data, null, 2), 'utf8');
+      this.entries = merged;
+      this.tokenCache.clear();
+      this.changedKeys.clear();
+      log.debug(`翻译记忆库已保存至: ${this.memoryPath}`);
+    });
+    // 保存失败不影响后续的保存
+    saveQueues.set(this.memoryPath, current.catch(() => undefined));
+    return current;
+  }
+
+  /**
+   * 将文本块的原文和最终译文按段落写入记忆库 (相同原文的记录以新译文为准)
+   * @param source 原文 (掩码文本)
+   * @param translation 译文 (掩码文本)
+   * @param sourceLanguage 源语言
+   * @param targetLanguage 目标语言
+   * @param origin 来源，如文件标识
+   * @returns 新增或更新的记录数
+   */
+  add(source: string, translation: string, sourceLanguage: string | undefined, targetLanguage: string, origin?: string): number {
+    const now = new Date().toISOString();
+    const srcLang = toMemoryLanguage(sourceLanguage);
+    const tgtLang = toMemoryLanguage(targetLanguage);
+    let count = 0;
+    for (const pair of alignSegments(source, translation)) {
+      const normalizedSource = normalizePlaceholderIds(pair.source);
+      // 译文使用与原文相同的编号映射
+      const reverseIds = new Map([...normalizedSource.ids].map(([normalized, id]) => [id, normalized]));
+      const target = restorePlaceholderIds(pair.target, reverseIds);
+      if (this.upsert({ source: normalizedSource.text, target, sourceLanguage: srcLang, targetLanguage: tgtLang, createdAt: now, updatedAt: now, origin })) {
+        count++;
+      }
+    }
+    this.stats.added += count;
+    return count;
+  }
+
+  /**
+   * 查找文本块的完全匹配：文本块中每个需要翻译的段落都在记忆库中有相同原文 (占位符编号除外) 的记录时，
+   * 返回拼接后的译文，占位符编号已还原为当前文本块中的编号
+   * @param chunk 文本块 (掩码文本)
+   * @param sourceLanguage 源语言
+   * @param targetLanguage 目标语言
+   * @returns 没有完全匹配时返回 undefined
+   */
+  findExact(chunk: string, sourceLanguage: string | undefined, targetLanguage: string): string | undefined {
+    const parts = segmentMaskedText(chunk);
+    if (!parts.some(part => typeof part !== 'string')) return undefined;
+    let translation = '';
+    for (const part of parts) {
+      if (typeof part === 'string') {
+        translation += part;
+        continue;
+      }
+      const normalized = normalizePlaceholderIds(part.source);
+      const entry = this.findEntry(normalized.text, sourceLanguage, targetLanguage);
+      if (!entry) return undefined;
+      translation += restorePlaceholderIds(entry.target, normalized.ids);
+    }
+    if (!validatePlaceholders(chunk, translation).valid) return undefined;
+    this.stats.exactHits++;
+    return translation;
+  }
+
+  /**
+   * 查找文本块中各段落的相似记录，按相似度从高到低返回，原文和译文已去除占位符标签
+   * @param chunk 文本块 (掩码文本)
+   * @param sourceLanguage 源语言
+   * @param targetLanguage 目标语言
+   */
+  findMatches(chunk: string, sourceLanguage: string | undefined, targetLanguage: string): TranslationMemoryMatch[] {
+    if (this.entries.size === 0 || this.maxReferences <= 0) return [];
+    const candidates = [...this.entries.values()].filter(entry => matchesLanguages(entry, sourceLanguage, targetLanguage));
+    const best = new Map<TranslationMemoryEntry, number>();
+    for (const part of segmentMaskedText(chunk)) {
+      if (typeof part === 'string') continue;
+      const tokens = tokenizeForSimilarity(part.source);
+      const counts = countTokens(tokens);
+      for (const entry of candidates) {
+        const cached = this.getTokens(entry);
+        // 共有词元数给出相似度的上限，先据此排除明显不相似的记录
+        const upperBound = countCommonTokens(counts, cached.counts) / Math.max(tokens.length, cached.tokens.length, 1);
+        if (upperBound < this.fuzzyThreshold) continue;
+        const score = calculateSimilarity(tokens, cached.tokens, this.fuzzyThreshold);
+        if (score >= this.fuzzyThreshold && score > (best.get(entry) ?? 0)) {
+          best.set(entry, score);
+        }
+      }
+    }
+    const matches = [...best.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.maxReferences)
+      .map(([entry, score]) => ({
+        source: removePlaceholderTags(entry.source).trim(),
+        target: removePlaceholderTags(entry.target).trim(),
+        score: Math.round(score * 100) / 100
+      }))
+      .filter(match => match.source && match.target);
+    if (matches.length > 0) this.stats.fuzzyHits++;
+    return matches;
+  }
+
+  /**
+   * 导入 TMX 文件中的翻译单元
+   * @param tmxPath TMX 文件路径
+   * @returns 新增或更新的记录数
+   */
+  async importTmx(tmxPath: string): Promise<number> {
+    const absPath = path.resolve(tmxPath);
+    const units = parseTmxDocument(await this.fileService.readFile(absPath, 'utf8'));
+    const now = new Date().toISOString();
+    let count = 0;
+    for (const unit of units) {
+      const normalized = normalizePlaceholderIds(unit.source);
+      const reverseIds = new Map([...normalized.ids].map(([normalizedId, id]) => [id, normalizedId]));
+      const entry: TranslationMemoryEntry = {
+        source: normalized.text,
+        target: restorePlaceholderIds(unit.target, reverseIds),
+        sourceLanguage: unit.sourceLanguage || UNDETERMINED_LANGUAGE,
+        targetLanguage: unit.targetLanguage,
+        createdAt: unit.createdAt || now,
+        updatedAt: unit.updatedAt || unit.createdAt || now,
+        origin: unit.origin || path.basename(absPath)
+      };
+      if (!validatePlaceholders(entry.source, entry.target).valid) {
+        log.warn(`TMX 单元的占位符与原文不一致，已跳过: ${entry.source.slice(0, 60)}`);
+        continue;
+      }
+      if (this.upsert(entry)) count++;
+    }
+    this.stats.added += count;
+    log.info(`已从 ${absPath} 导入 ${count} 条翻译记忆 (共 ${units.length} 个翻译单元)`);
+    return count;
+  }
+
+  /**
+   * 将记忆库导出为 TMX 文件
+   * @param tmxPath TMX 文件路径
+   * @param sourceLanguage 只导出该源语言的记录，未指定时导出全部
+   * @returns 导出的记录数
+   */
+  async exportTmx(tmxPath: string, sourceLanguage?: string): Promise<number> {
+    const absPath = path.resolve(tmxPath);
+    const srcLang = sourceLanguage ? toMemoryLanguage(sourceLanguage) : undefined;
+    const entries = [...this.entries.values()].filter(entry => !srcLang || entry.sourceLanguage === srcLang);
+    await this.fileService.mkdirRecursive(path.dirname(absPath));
+    await this.fileService.writeFile(absPath, buildTmxDocument(entries, srcLang), 'utf8');
+    log.info(`已导出 ${entries.length} 条翻译记忆至: ${absPath}`);
+    return entries.length;
+  }
+
+  getStats(): TranslationMemoryStats {
+    return { ...this.stats, entries: this.entries.size };
+  }
+
+  getPath(): string {
+    return this.memoryPath;
+  }
+
+  /**
+   * 写入一条记录；已有相同原文的记录时更新译文，保留创建时间
+   * @returns 记录是否发生变化
+   */
+  private upsert(entry: TranslationMemoryEntry): boolean {
+    const key = buildEntryKey(entry.sourceLanguage, entry.targetLanguage, entry.source);
+    const existing = this.entries.get(key);
+    if (existing && existing.target === entry.target) return false;
+    if (existing) this.tokenCache.delete(existing);
+    this.entries.set(key, existing ? { ...entry, createdAt: existing.createdAt } : entry);
+    this.changedKeys.add(key);
+    return true;
+  }
+
+  /**
+   * 读取磁盘上的记忆库，文件不存在或损坏时返回空记忆库
+   */
+  private async readEntries(): Promise<Map<string, TranslationMemoryEntry>> {
+    const entries = new Map<string, TranslationMemoryEntry>();
+    if (await this.fileService.fileExists(this.memoryPath)) {
+      try {
+        const data = JSON.parse(await this.fileService.readFile(this.memoryPath, 'utf8')) as TranslationMemoryFile;
+        for (const entry of data.entries || []) {
+          entries.set(buildEntryKey(entry.sourceLanguage, entry.targetLanguage, entry.source), entry);
+        }
+      } catch (error) {
+        // 记忆库文件损坏时从空记忆库开始，保存时会覆盖它
+        log.warn(`读取翻译记忆库失败，将从空记忆库开始: ${this.memoryPath}`, error);
+      }
+    }
+    return entries;
+  }
+
+  private findEntry(source: string, sourceLanguage: string | undefined, targetLanguage: string): TranslationMemoryEntry | undefined {
+    const srcLang = toMemoryLanguage(sourceLanguage);
+    const tgtLang = toMemoryLanguage(targetLanguage);
+    const entry = this.entries.get(buildEntryKey(srcLang, tgtLang, source))
+      ?? this.entries.get(buildEntryKey(UNDETERMINED_LANGUAGE, tgtLang, source));
+    if (entry || srcLang !== UNDETERMINED_LANGUAGE) return entry;
+    // 未指定源语言时接受任意源语言的记录
+    return [...this.entries.values()].find(candidate => candidate.targetLanguage === tgtLang && candidate.source === source);
+  }
+
+  private getTokens(entry: TranslationMemoryEntry): { tokens: string[]; counts: Map<string, number> } {
+    let cached = this.tokenCache.get(entry);
+    if (!cached) {
+      const tokens = tokenizeForSimilarity(entry.source);
+      cached = { tokens, counts: countTokens(tokens) };
+      this.tokenCache.set(entry, cached);
+    }
+    return cached;
+  }
+}
+
+/**
+ * 将配置中的语言名称转换为记忆库使用的语言代码
+ */
+function toMemoryLanguage(language: string | undefined): string {
+  if (!language) return UNDETERMINED_LANGUAGE;
+  return toLanguageCode(language) || language;
+}
+
+function matchesLanguages(entry: TranslationMemoryEntry, sourceLanguage: string | undefined, targetLanguage: string): boolean {
+  const srcLang = toMemoryLanguage(sourceLanguage);
+  if (entry.targetLanguage !== toMemoryLanguage(targetLanguage)) return false;
+  return srcLang === UNDETERMINED_LANGUAGE || entry.sourceLanguage === UNDETERMINED_LANGUAGE || entry.sourceLanguage === srcLang;
+}
+
+function buildEntryKey(sourceLanguage: string, targetLanguage: string, source: string): string {
+  return `${sourceLanguage}|${targetLanguage}|${source}`;
+}
+
+function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+  return counts;
+}
+
+function countCommonTokens(a: Map<string, number>, b: Map<string, number>): number {
+  let common = 0;
+  for (const [token, count] of a) common += Math.min(count, b.get(token) || 0);
+  return common;
+}
@@ -6,22 +6,104 @@
 
 // import * as fsPromises from 'fs/promises'; // FileService 已注入
 // import * as path from 'path'; // path 可能仍需用于logPath处理，但主要文件操作由FileService完成
-import { OpenAI } from 'openai';
 // import config from 'config'; // ConfigService 将处理配置
-import type { OpenAIConfig } from '../types';
+import type {
+  OpenAIConfig,
+  TranslationCacheStats,
+  LargeTextTranslationOptions,
+  PlaceholderIntegrityIssue,
+  PlaceholderValidationResult,
+  TranslationProvider,
+  TranslationProviderName,
+  GlossaryEntry,
+  GlossaryViolation,
+  ChunkTranslationRecord,
+  TranslationReference,
+  ChunkRetryReason,
+  UsageTotals,
+  UsageReport,
+  UsageBudget,
+  TranslationMemoryMatch,
+  TranslationMemoryStats
+} from '../types';
 import { FileService } from './file_service';
 import { ConfigService } from './config_service'; // 引入 ConfigService
+import { TranslationCacheService } from './translation_cache_service';
+import { GlossaryService } from './glossary_service';
+import { TranslationMemoryService } from './translation_memory_service';
+import { UsageService, BudgetExceededError } from './usage_service';
+import { sha256 } from '../utils/hash.utils';
+import {
+  validatePlaceholders,
+  repairPlaceholders,
+  normalizePlaceholderTags,
+  countPlaceholderProblems,
+  describePlaceholder,
+  removePlaceholderTags
+} from '../utils/placeholder.utils';
+import { estimateTokens, PROMPT_OVERHEAD_TOKENS } from '../utils/token.utils';
+import { createEmptyUsage, addUsage } from '../utils/usage.utils';
+import { splitTextIntoChunks, joinChunks, takeTrailingText } from '../utils/chunk.utils';
+import { mapWithConcurrency, sleep } from '../utils/async.utils';
+import { RateLimiter } from '../utils/rate-limit.utils';
+import { createTranslationProvider, ProviderRequestError, PROMPT_VERSION } from '../providers';
 import log from '../utils/logger'; // 引入日志服务
 
+// 单个文本块的请求回调：重试时 (重试原因、第几次重试、说明) 以及每次请求完成后 (本次请求的用量)
+interface RequestHooks {
+  onRetry?: (reason: ChunkRetryReason, attempt: number, message: string) => void;
+  onUsage?: (usage: UsageTotals) => void;
+}
+
+// 单个文本块经占位符校验后的结果
+interface ChunkValidationResult {
+  translation: string;
+  status: 'translated' | 'fallback';
+  // 是否可以写入缓存 (自动修复或回退的结果不缓存)
+  cacheable: boolean;
+}
+
 export class TranslationService { // 重命名此类
-  private client: OpenAI;
+  private provider: TranslationProvider;
   private config: Required<OpenAIConfig>;
   private fileService: FileService;
   private configService: ConfigService;
+  private cache: TranslationCacheService | null;
+  // 占位符校验失败时重新提示的最大次数
+  private maxPlaceholderRetries: number;
+  // 重新提示后仍失败时是否自动修复占位符 (否则回退为原文)
+  private autoRepairPlaceholders: boolean;
+  private integrityIssues: PlaceholderIntegrityIssue[];
+  private rateLimiter: RateLimiter;
+  private glossary: GlossaryService | null;
+  // 译文未使用规定译法时是否重新提示一次
+  private glossaryReprompt: boolean;
+  private glossaryViolations: GlossaryViolation[];
+  private memory: TranslationMemoryService | null;
+  // 当前模型每个文本块的 token 预算
+  private chunkTokenBudget: number;
+  private usage: UsageService;
 
-  constructor(customConfig?: Partial<OpenAIConfig>) {
+  /**
+   * @param customConfig 覆盖配置文件的 OpenAI 设置 (并发、限流和重试设置对所有提供者生效)
+   * @param cache 翻译缓存，为 null 时不使用缓存
+   * @param provider 提供者名称或自定义的提供者实例
+   */
+  constructor(
+    customConfig?: Partial<OpenAIConfig>,
+    cache: TranslationCacheService | null = null,
+    provider: TranslationProviderName | TranslationProvider = 'openai'
+  ) {
     this.fileService = FileService.getInstance();
     this.configService = ConfigService.getInstance();
+    this.cache = cache;
+    this.maxPlaceholderRetries = this.configService.get<number>('translation.integrity.maxRetries', 2);
+    this.autoRepairPlaceholders = this.configService.get<boolean>('translation.integrity.autoRepair', true);
+    this.integrityIssues = [];
+    this.glossary = null;
+    this.glossaryReprompt = this.configService.get<boolean>('translation.glossary.reprompt', false);
+    this.glossaryViolations = [];
+    this.memory = null;
 
     const defaultConfig = this.configService.get<OpenAIConfig>('openai', {} as OpenAIConfig); // 获取整个openai配置块
     
@@ -32,6 +114,10 @@ export class TranslationService { // 重命名此类
         model: defaultConfig.model || 'gpt-3.5-turbo',
         temperature: defaultConfig.temperature ?? 0.3, // 使用 ?? 允许 0
         timeout: defaultConfig.timeout || 60000,
+        concurrency: defaultConfig.concurrency || 1,
+        requestsPerMinute: defaultConfig.requestsPerMinute || 0,
+        tokensPerMinute: defaultConfig.tokensPerMinute || 0,
+        maxRetries: defaultConfig.maxRetries ?? 3,
     };
 
     this.config = {
@@ -39,16 +125,27 @@ export class TranslationService { // 重命名此类
       ...customConfig
     };
 
-    if (!this.config.apiKey) {
+    this.provider = typeof provider === 'string'
+      ? createTranslationProvider(provider, {
+          openai: this.config,
+          local: this.configService.getLocalProviderConfig(),
+          deepl: this.configService.getDeepLConfig()
+        })
+      : provider;
+
+    if (this.provider.name === 'openai' && !this.config.apiKey) {
       log.warn('OpenAI API 密钥未配置。翻译尝试可能会失败。'); // 中文注释
     }
-    
-    this.client = new OpenAI({
-      apiKey: this.config.apiKey,
-      baseURL: this.config.baseUrl,
-      timeout: this.config.timeout,
-      maxRetries: 3
+    if (this.provider.name !== 'openai') {
+      log.info(`使用翻译提供者: ${this.provider.name} (${this.provider.model})`);
+    }
+
+    this.rateLimiter = new RateLimiter({
+      requestsPerMinute: this.config.requestsPerMinute,
+      tokensPerMinute: this.config.tokensPerMinute
     });
+    this.chunkTokenBudget = this.configService.getChunkTokenBudget(this.provider.model);
+    this.usage = new UsageService(this.provider.name, this.provider.model, this.configService.getModelPrice(this.provider.model));
   }
 
   /**
@@ -56,44 +153,46 @@ export class TranslationService { // 重命名此类
    * @param text 要翻译的文本
    * @param targetLang 目标语言
    * @param sourceLang 源语言(可选)
+   * @param extraInstructions 附加到提示词末尾的指令(可选)
+   * @param glossary 文本中出现的术语表条目(可选)
+   * @param reference 前文的原文及译文，仅作参考(可选)
+   * @param hooks 请求重试及完成时的回调(可选)
+   * @param memoryMatches 翻译记忆库中的相似原文及译文，仅作参考(可选)
    * @returns 翻译后的文本
    */
   async translateText(
     text: string,
     targetLang: string,
-    sourceLang?: string
+    sourceLang?: string,
+    extraInstructions: string[] = [],
+    glossary: GlossaryEntry[] = [],
+    reference?: TranslationReference,
+    hooks: RequestHooks = {},
+    memoryMatches: TranslationMemoryMatch[] = []
   ): Promise<string> {
     try {
-      const prompt = this.createTranslationPrompt(text, targetLang, sourceLang);
-      
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: [
-          {
-            role: 'system',
-            content: '你是一个专业的翻译器，专注于学术文档和LaTeX文件的翻译。保持专业术语的准确性，并确保输出格式与输入一致。' // 中文提示
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: this.config.temperature
-      });
+      const context = { targetLanguage: targetLang, sourceLanguage: sourceLang, instructions: extraInstructions, glossary, reference, memoryMatches };
+      // 输出长度与输入相近，按输入的两倍加固定开销估算本次请求的 token 消耗
+      const referenceTokens = (reference ? estimateTokens(reference.source) + estimateTokens(reference.translation) : 0)
+        + memoryMatches.reduce((sum, match) => sum + estimateTokens(match.source) + estimateTokens(match.target), 0);
+      const estimatedTokens = (estimateTokens(text) + PROMPT_OVERHEAD_TOKENS) * 2 + referenceTokens;
+      const [result] = await this.requestWithRetry(estimatedTokens, () => this.provider.translate([text], context), hooks);
+      const translatedText = result?.text ?? '';
+      // 提供者未返回用量时 (如 DeepL) 按文本长度估算
+      const requestUsage = result?.usage
+        ? this.usage.createRequestUsage(result.usage, false)
+        : this.usage.createRequestUsage({
+            promptTokens: estimateTokens(text) + PROMPT_OVERHEAD_TOKENS + referenceTokens,
+            completionTokens: estimateTokens(translatedText)
+          }, true);
+      this.usage.recordRequest(requestUsage);
+      hooks.onUsage?.(requestUsage);
 
-      let translatedText = response.choices[0]?.message?.content?.trim() || '';
-
-      // 后处理：移除LLM可能添加的包裹标记
-      // 例如，如果返回的是 ```latex\nACTUAL_CONTENT\n``` 或者 ```\nACTUAL_CONTENT\n```
-      const codeBlockRegex = /^\s*`{3}(?:latex)?\s*\n(.*?)\n\s*`{3}\s*$/is;
-      const match = translatedText.match(codeBlockRegex);
-      if (match && match[1]) {
-        translatedText = match[1].trim(); // 获取捕获组内容并去除可能的内部首尾空格
-      }
-
-      return translatedText;
+      return normalizePlaceholderTags(translatedText);
     } catch (error) {
-      log.error('翻译请求失败:', error); // 中文注释
+      if (!(error instanceof BudgetExceededError)) {
+        log.error('翻译请求失败:', error); // 中文注释
+      }
       throw error;
     }
   }
@@ -103,117 +202,396 @@ export class TranslationService { // 重命名此类
    * @param text 要翻译的文本
    * @param targetLang 目标语言
    * @param sourceLang 源语言(可选)
-   * @param maxChunkSize 每个块的最大字符数
+   * @param maxChunkTokens 每个块的 token 预算，默认使用配置中当前模型的预算
    * @param logPath 日志文件路径
+   * @param options 附加选项 (检查点复用、块完成回调等)
    * @returns 翻译后的文本
    */
   async translateLargeText(
     text: string,
     targetLang: string,
     sourceLang?: string,
-    maxChunkSize: number = 4000,
-    logPath?: string
+    maxChunkTokens: number = this.chunkTokenBudget,
+    logPath?: string,
+    options: LargeTextTranslationOptions = {}
   ): Promise<string> {
-    const chunks = this.splitTextIntoChunks(text, maxChunkSize);
-    const translatedChunks: string[] = [];
+    const textChunks = splitTextIntoChunks(text, maxChunkTokens);
+    const chunks = textChunks.map(chunk => chunk.text);
     const logs: string[] = [];
-    
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const logEntry = `[${new Date().toISOString()}] 翻译块 ${i+1}/${chunks.length} (${chunk.length} 字符)`; // 中文日志
+    const contextTokens = Math.max(0, options.contextTokens || 0);
+    // 附带前文时每个块都依赖前一个块的译文，只能按顺序翻译
+    const concurrency = contextTokens > 0 ? 1 : Math.max(1, this.config.concurrency);
+    if (contextTokens > 0 && this.config.concurrency > 1 && chunks.length > 1) {
+      log.info(`已启用前文上下文，${chunks.length} 个文本块将按顺序翻译`);
+    } else if (concurrency > 1 && chunks.length > 1) {
+      log.info(`共 ${chunks.length} 个文本块，并发数 ${concurrency}`);
+    }
+    // 上一个成功翻译的块，回退为原文的块不作为前文
+    let previous: TranslationReference | null = null;
+    const remember = (source: string, translation: string, status: ChunkTranslationRecord['status']) => {
+      previous = status === 'fallback' ? null : { source, translation };
+    };
+
+    const translatedChunks = await mapWithConcurrency(chunks, concurrency, async (chunk, i) => {
+      const startedAt = Date.now();
+      const chunkUsage = createEmptyUsage();
+      const hooks: RequestHooks = {
+        onRetry: (reason, attempt, message) => options.onChunkRetry?.({ index: i, attempt, reason, message }),
+        onUsage: usage => addUsage(chunkUsage, usage)
+      };
+      const logEntry = `[${new Date().toISOString()}] 翻译块 ${i+1}/${chunks.length} (约 ${estimateTokens(chunk)} tokens)`; // 中文日志
       log.info(logEntry);
       logs.push(logEntry);
+      const completedChunk = options.completedChunks?.[i];
+      if (completedChunk && completedChunk.sourceHash === sha256(chunk)) {
+        const resumeLog = `[${new Date().toISOString()}] 块 ${i+1} 已在检查点中完成，跳过`; // 中文日志
+        log.info(resumeLog);
+        logs.push(resumeLog);
+        remember(chunk, completedChunk.translation, 'resumed');
+        await options.onChunkTranslated?.({ index: i, total: chunks.length, source: chunk, translation: completedChunk.translation, status: 'resumed', durationMs: Date.now() - startedAt });
+        return completedChunk.translation;
+      }
+      const glossaryTerms = this.glossary ? this.glossary.findTerms(chunk) : [];
+      const memoryTranslation = this.memory ? this.memory.findExact(chunk, sourceLang, targetLang) : undefined;
+      if (memoryTranslation !== undefined) {
+        const memoryLog = `[${new Date().toISOString()}] 块 ${i+1} 完全匹配翻译记忆库`; // 中文日志
+        log.info(memoryLog);
+        logs.push(memoryLog);
+        this.recordGlossaryViolations(glossaryTerms, memoryTranslation, i, options.fileId, false);
+        remember(chunk, memoryTranslation, 'memory');
+        await options.onChunkTranslated?.({ index: i, total: chunks.length, source: chunk, translation: memoryTranslation, status: 'memory', durationMs: Date.now() - startedAt });
+        return memoryTranslation;
+      }
+      const reference = previous && contextTokens > 0 ? this.createReference(previous, contextTokens) : undefined;
+      const memoryMatches = this.memory ? this.memory.findMatches(chunk, sourceLang, targetLang) : [];
+      if (memoryMatches.length > 0) {
+        log.debug(`块 ${i+1} 找到 ${memoryMatches.length} 条翻译记忆模糊匹配 (最高相似度 ${Math.round(memoryMatches[0].score * 100)}%)，作为参考译文`);
+      }
+      const cacheKeyParams = {
+        text: chunk,
+        targetLanguage: targetLang,
+        sourceLanguage: sourceLang,
+        model: `${this.provider.name}/${this.provider.model}`,
+        promptVersion: PROMPT_VERSION,
+        glossary: glossaryTerms.length > 0 ? this.glossary!.getFingerprint(glossaryTerms) : undefined,
+        contextTokens: contextTokens > 0 ? contextTokens : undefined,
+        // 提示中的前文和参考译文不同时译文可能不同，不能共用缓存
+        context: reference ? sha256(JSON.stringify([reference.source, reference.translation])) : undefined,
+        memoryReferences: memoryMatches.length > 0 ? sha256(JSON.stringify(memoryMatches.map(match => [match.source, match.target]))) : undefined
+      };
+      const cacheKey = this.cache ? TranslationCacheService.buildKey(cacheKeyParams) : '';
+      const cachedChunk = this.cache ? await this.cache.get(cacheKey) : undefined;
+      if (cachedChunk !== undefined) {
+        const cacheLog = `[${new Date().toISOString()}] 块 ${i+1} 命中翻译缓存`; // 中文日志
+        log.info(cacheLog);
+        logs.push(cacheLog);
+        this.recordGlossaryViolations(glossaryTerms, cachedChunk, i, options.fileId, false);
+        remember(chunk, cachedChunk, 'cached');
+        await options.onChunkTranslated?.({ index: i, total: chunks.length, source: chunk, translation: cachedChunk, status: 'cached', durationMs: Date.now() - startedAt });
+        return cachedChunk;
+      }
       try {
-        const translatedChunk = await this.translateText(chunk, targetLang, sourceLang);
-        translatedChunks.push(translatedChunk);
-        const successLog = `[${new Date().toISOString()}] 块 ${i+1} 翻译成功`; // 中文日志
+        let result = await this.translateChunkWithValidation(chunk, targetLang, sourceLang, i, options.fileId, glossaryTerms, [], reference, hooks, memoryMatches);
+        if (result.status === 'translated' && glossaryTerms.length > 0) {
+          result = await this.enforceGlossary(result, chunk, targetLang, sourceLang, i, options.fileId, glossaryTerms, reference, hooks, memoryMatches);
+        }
+        const { translation: translatedChunk, status, cacheable } = result;
+        remember(chunk, translatedChunk, status);
+        if (this.cache && cacheable) {
+          await this.cache.set(cacheKey, cacheKeyParams, translatedChunk);
+        }
+        const successLog = status === 'fallback'
+          ? `[${new Date().toISOString()}] 块 ${i+1} 占位符校验失败，保留原文` // 中文日志
+          : `[${new Date().toISOString()}] 块 ${i+1} 翻译成功`; // 中文日志
         log.info(successLog);
         logs.push(successLog);
+        this.usage.recordChunk(options.fileId, i, chunkUsage);
+        await options.onChunkTranslated?.({ index: i, total: chunks.length, source: chunk, translation: translatedChunk, status, durationMs: Date.now() - startedAt, usage: chunkUsage });
+        return translatedChunk;
       } catch (error) {
+        this.usage.recordChunk(options.fileId, i, chunkUsage);
+        // 达到用量上限时中止整个文件的翻译，而不是逐块回退为原文
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
         const errorLog = `[${new Date().toISOString()}] 块 ${i+1} 翻译失败: ${error}`; // 中文日志
         log.error(errorLog); // 使用 logger.error
         logs.push(errorLog);
-        translatedChunks.push(chunk); // Fallback to original chunk on error
-      }
-      if (i < chunks.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500)); // 避免API速率限制
+        remember(chunk, chunk, 'fallback');
+        await options.onChunkTranslated?.({ index: i, total: chunks.length, source: chunk, translation: chunk, status: 'fallback', durationMs: Date.now() - startedAt, usage: chunkUsage });
+        return chunk; // Fallback to original chunk on error
       }
-    }
+    });
     
+    if (this.cache) {
+      const stats = this.cache.getStats();
+      const cacheSummary = `翻译缓存统计（累计）: 命中 ${stats.hits}，未命中 ${stats.misses}，写入 ${stats.writes}`;
+      log.info(cacheSummary);
+      logs.push(`[${new Date().toISOString()}] ${cacheSummary}`);
+    }
+
     if (logPath) {
       await this.fileService.writeFile(logPath, logs.join('\n'), 'utf8');
     }
-    return translatedChunks.join('\n\n');
+    return joinChunks(translatedChunks.map((translation, i) => ({ ...textChunks[i], text: translation })));
   }
-  
+
   /**
-   * 创建翻译提示
-   * @param text 要翻译的文本
-   * @param targetLang 目标语言
-   * @param sourceLang 源语言
-   * @returns 翻译提示
+   * 在限流器许可下发送请求；遇到 429 时按 Retry-After 暂停所有请求后重试，
+   * 遇到服务端错误或连接错误时指数退避重试。已达到用量上限时不再发送请求
+   * @param estimatedTokens 本次请求预计消耗的 token 数
+   * @param request 实际发送请求的函数
+   * @param hooks 重试时的回调
+   * @throws BudgetExceededError 已达到本次运行的用量上限
    */
-  private createTranslationPrompt(
-    text: string,
-    targetLang: string,
-    sourceLang?: string
-  ): string {
-    let prompt = '';
-    const placeholderInstruction = '请务必完整保留所有XML风格的占位符标签（例如 <ph id="CMD_0001"/>），不要翻译它们或修改它们的任何部分。' // 中文提示
-
-    if (sourceLang) {
-      prompt = `将以下${sourceLang}文本翻译成${targetLang}。${placeholderInstruction}\n\n\`\`\`\n${text}\n\`\`\``;
-    } else {
-      prompt = `将以下文本翻译成${targetLang}。${placeholderInstruction}\n\n\`\`\`\n${text}\n\`\`\``;
-    }
-    return prompt;
-  }
-  
-  /**
-   * 将文本分割为更小的块
-   * @param text 要分割的文本
-   * @param maxChunkSize 每个块的最大字符数
-   * @returns 文本块数组
-   */
-  private splitTextIntoChunks(text: string, maxChunkSize: number): string[] {
-    const paragraphs = text.split(/\n\s*\n/);
-    const chunks: string[] = [];
-    let currentChunk = '';
-    for (const paragraph of paragraphs) {
-      if (paragraph.length > maxChunkSize) {
-        if (currentChunk) {
-          chunks.push(currentChunk);
-          currentChunk = '';
+  private async requestWithRetry<T>(estimatedTokens: number, request: () => Promise<T>, hooks: RequestHooks = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.usage.assertWithinBudget();
+      await this.rateLimiter.acquire(estimatedTokens);
+      // 等待限流期间其他并发请求可能已用尽额度
+      this.usage.assertWithinBudget();
+      try {
+        return await request();
+      } catch (error) {
+        const retryable = error instanceof ProviderRequestError && error.retryable;
+        if (!retryable || attempt >= this.config.maxRetries) {
+          throw error;
         }
-        const sentences = paragraph.split(/(?<=[.!?])\s+/);
-        for (const sentence of sentences) {
-          if (sentence.length > maxChunkSize) {
-            for (let i = 0; i < sentence.length; i += maxChunkSize) {
-              chunks.push(sentence.slice(i, i + maxChunkSize));
-            }
-          } else if (currentChunk.length + sentence.length + 1 > maxChunkSize) {
-            chunks.push(currentChunk);
-            currentChunk = sentence;
-          } else {
-            currentChunk = currentChunk 
-              ? `${currentChunk} ${sentence}` 
-              : sentence;
-          }
+        const backoffMs = Math.min(1000 * 2 ** attempt, 30000);
+        hooks.onRetry?.('request', attempt + 1, error.message);
+        if (error.isRateLimited) {
+          const waitMs = error.retryAfterMs ?? backoffMs;
+          log.warn(`触发速率限制 (429)，所有请求暂停 ${Math.ceil(waitMs / 1000)} 秒后重试 (第 ${attempt + 1}/${this.config.maxRetries} 次)`);
+          this.rateLimiter.pauseFor(waitMs);
+        } else {
+          log.warn(`请求失败，${Math.ceil(backoffMs / 1000)} 秒后重试 (第 ${attempt + 1}/${this.config.maxRetries} 次):`, error);
+          await sleep(backoffMs);
         }
-      } 
-      else if (currentChunk.length + paragraph.length + 2 > maxChunkSize) {
-        chunks.push(currentChunk);
-        currentChunk = paragraph;
-      } 
-      else {
-        currentChunk = currentChunk 
-          ? `${currentChunk}\n\n${paragraph}` 
-          : paragraph;
       }
     }
-    if (currentChunk) {
-      chunks.push(currentChunk);
+  }
+
+  /**
+   * 翻译单个文本块并校验占位符完整性。
+   * 占位符缺失、重复或损坏时，带着问题列表重新提示模型，直到达到重试上限；
+   * 仍未通过时按配置自动修复或回退为原文，并记录到完整性报告。
+   * @returns 译文、结果来源以及是否可以写入缓存
+   */
+  private async translateChunkWithValidation(
+    chunk: string,
+    targetLang: string,
+    sourceLang: string | undefined,
+    chunkIndex: number,
+    fileId?: string,
+    glossaryTerms: GlossaryEntry[] = [],
+    extraInstructions: string[] = [],
+    reference?: TranslationReference,
+    hooks: RequestHooks = {},
+    memoryMatches: TranslationMemoryMatch[] = []
+  ): Promise<ChunkValidationResult> {
+    let translation = await this.translateText(chunk, targetLang, sourceLang, extraInstructions, glossaryTerms, reference, hooks, memoryMatches);
+    const initial = validatePlaceholders(chunk, translation);
+    if (initial.valid) {
+      return { translation, status: 'translated', cacheable: true };
     }
-    return chunks;
+
+    let validation = initial;
+    let best = { translation, validation };
+    let attempts = 1;
+    while (!validation.valid && attempts <= this.maxPlaceholderRetries) {
+      log.warn(`块 ${chunkIndex + 1} 占位符校验失败 (缺失 ${validation.missing.length}，多余 ${validation.unexpected.length}，重复 ${validation.duplicated.length}，损坏 ${validation.malformed.length})，第 ${attempts} 次重新提示`);
+      hooks.onRetry?.('placeholder', attempts, `占位符校验失败: 缺失 ${validation.missing.length}，多余 ${validation.unexpected.length}，重复 ${validation.duplicated.length}，损坏 ${validation.malformed.length}`);
+      translation = await this.translateText(
+        chunk, targetLang, sourceLang, [...extraInstructions, this.createPlaceholderRetryInstruction(validation)], glossaryTerms, reference, hooks, memoryMatches
+      );
+      validation = validatePlaceholders(chunk, translation);
+      attempts++;
+      if (countPlaceholderProblems(validation) < countPlaceholderProblems(best.validation)) {
+        best = { translation, validation };
+      }
+    }
+
+    if (validation.valid) {
+      this.integrityIssues.push({ fileId, chunkIndex, attempts, resolution: 'recovered', initial, final: validation });
+      return { translation, status: 'translated', cacheable: true };
+    }
+    if (this.autoRepairPlaceholders) {
+      log.warn(`块 ${chunkIndex + 1} 重新提示后占位符仍不完整，已自动修复`);
+      this.integrityIssues.push({ fileId, chunkIndex, attempts, resolution: 'repaired', initial, final: best.validation });
+      return { translation: repairPlaceholders(chunk, best.translation), status: 'translated', cacheable: false };
+    }
+    log.warn(`块 ${chunkIndex + 1} 重新提示后占位符仍不完整，保留原文`);
+    this.integrityIssues.push({ fileId, chunkIndex, attempts, resolution: 'fallback', initial, final: best.validation });
+    return { translation: chunk, status: 'fallback', cacheable: false };
+  }
+
+  /**
+   * 检查译文是否使用了术语表规定的译法；按配置带着未遵守的术语重新提示一次，
+   * 违规更少时采用新译文。最终仍未遵守的术语记录到术语报告。
+   */
+  private async enforceGlossary(
+    result: ChunkValidationResult,
+    chunk: string,
+    targetLang: string,
+    sourceLang: string | undefined,
+    chunkIndex: number,
+    fileId: string | undefined,
+    glossaryTerms: GlossaryEntry[],
+    reference?: TranslationReference,
+    hooks: RequestHooks = {},
+    memoryMatches: TranslationMemoryMatch[] = []
+  ): Promise<ChunkValidationResult> {
+    let violations = this.glossary!.findViolations(glossaryTerms, result.translation);
+    if (violations.length === 0 || !this.glossaryReprompt) {
+      this.recordGlossaryViolations(glossaryTerms, result.translation, chunkIndex, fileId, false);
+      return result;
+    }
+    log.warn(`块 ${chunkIndex + 1} 有 ${violations.length} 个术语未按术语表翻译，重新提示`);
+    hooks.onRetry?.('glossary', 1, `${violations.length} 个术语未按术语表翻译`);
+    const retry = await this.translateChunkWithValidation(
+      chunk, targetLang, sourceLang, chunkIndex, fileId, glossaryTerms, [this.createGlossaryRetryInstruction(violations)], reference, hooks, memoryMatches
+    );
+    const retryViolations = this.glossary!.findViolations(glossaryTerms, retry.translation);
+    if (retry.status === 'translated' && retryViolations.length < violations.length) {
+      result = retry;
+      violations = retryViolations;
+    }
+    this.recordGlossaryViolations(glossaryTerms, result.translation, chunkIndex, fileId, true);
+    return result;
+  }
+
+  private recordGlossaryViolations(
+    glossaryTerms: GlossaryEntry[],
+    translation: string,
+    chunkIndex: number,
+    fileId: string | undefined,
+    reprompted: boolean
+  ): void {
+    if (!this.glossary || glossaryTerms.length === 0) return;
+    for (const entry of this.glossary.findViolations(glossaryTerms, translation)) {
+      this.glossaryViolations.push({
+        fileId,
+        chunkIndex,
+        source: entry.source,
+        expected: entry.target,
+        doNotTranslate: entry.doNotTranslate,
+        reprompted
+      });
+    }
+  }
+
+  /**
+   * 由前一个块构造前文上下文：去除占位符标签 (避免模型把前文的占位符抄进译文)，
+   * 原文和译文各自只保留末尾不超过预算的部分
+   */
+  private createReference(previous: TranslationReference, maxTokens: number): TranslationReference | undefined {
+    const source = takeTrailingText(removePlaceholderTags(previous.source), maxTokens).trim();
+    const translation = takeTrailingText(removePlaceholderTags(previous.translation), maxTokens).trim();
+    // 前一块只有占位符时没有可参考的文字
+    return source && translation ? { source, translation } : undefined;
+  }
+
+  private createGlossaryRetryInstruction(violations: GlossaryEntry[]): string {
+    const terms = violations.map(entry => entry.doNotTranslate
+      ? `「${entry.source}」应保持原文`
+      : `「${entry.source}」应译为「${entry.target}」`);
+    return `上一次的翻译结果没有遵守术语表：${terms.join('；')}。请重新翻译，并严格使用规定的译法。`; // 中文提示
+  }
+
+  private createPlaceholderRetryInstruction(validation: PlaceholderValidationResult): string {
+    const problems: string[] = [];
+    if (validation.missing.length > 0) {
+      problems.push(`缺失的占位符: ${validation.missing.map(describePlaceholder).join(' ')}`);
+    }
+    if (validation.unexpected.length > 0) {
+      problems.push(`原文中不存在的占位符: ${validation.unexpected.map(describePlaceholder).join(' ')}`);
+    }
+    if (validation.duplicated.length > 0) {
+      problems.push(`重复出现的占位符: ${validation.duplicated.map(describePlaceholder).join(' ')}`);
+    }
+    if (validation.malformed.length > 0) {
+      problems.push(`格式被破坏的标签: ${validation.malformed.join(' ')}`);
+    }
+    return `上一次的翻译结果中占位符有误。${problems.join('；')}。请重新翻译，确保原文中的每个占位符在译文中恰好出现一次，且与原文完全一致。`; // 中文提示
+  }
+
+  /**
+   * 设置术语表，为 null 时不使用术语表
+   */
+  setGlossary(glossary: GlossaryService | null): void {
+    this.glossary = glossary;
+  }
+
+  /**
+   * 设置翻译记忆库，为 null 时不使用翻译记忆库
+   */
+  setTranslationMemory(memory: TranslationMemoryService | null): void {
+    this.memory = memory;
+  }
+
+  /**
+   * 获取翻译记忆库的使用统计
+   * @returns 未使用翻译记忆库时返回 null
+   */
+  getMemoryStats(): TranslationMemoryStats | null {
+    return this.memory ? this.memory.getStats() : null;
+  }
+
+  /**
+   * 获取本次运行中累计的术语违规
+   */
+  getGlossaryViolations(): GlossaryViolation[] {
+    return [...this.glossaryViolations];
+  }
+
+  /**
+   * 获取本次运行中累计的占位符完整性问题
+   */
+  getIntegrityIssues(): PlaceholderIntegrityIssue[] {
+    return [...this.integrityIssues];
+  }
+
+  /**
+   * 设置本次运行的费用和 token 上限 (0 表示不限)
+   */
+  setUsageBudget(budget: Partial<UsageBudget>): void {
+    this.usage.setBudget(budget);
+  }
+
+  /**
+   * 获取本次运行中累计的 token 用量和费用
+   */
+  getUsageReport(): UsageReport {
+    return this.usage.getReport();
+  }
+
+  /**
+   * 当前模型是否在价格表中 (未配置价格时费用按 0 计)
+   */
+  hasModelPrice(): boolean {
+    return this.usage.getPrice() !== null;
+  }
+
+  getModel(): string {
+    return this.provider.model;
+  }
+
+  /**
+   * 获取当前模型每个翻译块的 token 预算
+   */
+  getChunkTokenBudget(): number {
+    return this.chunkTokenBudget;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * 获取翻译缓存的命中统计
+   * @returns 未启用缓存时返回 null
+   */
+  getCacheStats(): TranslationCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,145 @@
+/**
+ * src/services/usage_service.ts
+ *
+ * Token 用量与费用统计：按文本块、文件和整次运行累计提供者返回的用量，按价格表换算费用，
+ * 并在达到费用或 token 上限后阻止新的请求。
+ */
+import type { ChunkUsage, ModelPrice, ProviderUsage, UsageBudget, UsageReport, UsageTotals } from '../types';
+import { createEmptyUsage, addUsage, calculateCost, formatCost } from '../utils/usage.utils';
+
+/**
+ * 达到运行的费用或 token 上限后抛出。TranslationService 遇到该错误时不会回退为原文，
+ * 而是中止翻译；已完成的文本块已写入检查点，可使用 --resume 继续
+ */
+export class BudgetExceededError extends Error {
+  readonly total: UsageTotals;
+  readonly budget: UsageBudget;
+
+  constructor(message: string, total: UsageTotals, budget: UsageBudget) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.total = total;
+    this.budget = budget;
+  }
+}
+
+export class UsageService {
+  private providerName: string;
+  private model: string;
+  private price: ModelPrice | null;
+  private budget: UsageBudget;
+  private total: UsageTotals;
+  private files: Map<string, UsageTotals>;
+  private chunks: ChunkUsage[];
+  private budgetExceeded: boolean;
+
+  /**
+   * @param providerName 提供者名称
+   * @param model 模型名称
+   * @param price 模型价格，未知时为 null (费用按 0 计)
+   */
+  constructor(providerName: string, model: string, price: ModelPrice | null) {
+    this.providerName = providerName;
+    this.model = model;
+    this.price = price;
+    this.budget = { maxCost: 0, maxTokens: 0 };
+    this.total = createEmptyUsage();
+    this.files = new Map();
+    this.chunks = [];
+    this.budgetExceeded = false;
+  }
+
+  setBudget(budget: Partial<UsageBudget>): void {
+    this.budget = { maxCost: Math.max(0, budget.maxCost || 0), maxTokens: Math.max(0, budget.maxTokens || 0) };
+  }
+
+  getBudget(): UsageBudget {
+    return { ...this.budget };
+  }
+
+  getPrice(): ModelPrice | null {
+    return this.price;
+  }
+
+  /**
+   * 将一次请求的用量换算为 UsageTotals
+   * @param usage 提供者返回的用量
+   * @param estimated 用量是否为估算值
+   */
+  createRequestUsage(usage: ProviderUsage, estimated: boolean): UsageTotals {
+    return {
+      requests: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      cost: calculateCost(usage.promptTokens, usage.completionTokens, this.price),
+      estimatedRequests: estimated ? 1 : 0
+    };
+  }
+
+  /**
+   * 记录一次请求的用量 (计入运行总量，用于上限检查)
+   */
+  recordRequest(usage: UsageTotals): void {
+    addUsage(this.total, usage);
+    if (this.isOverBudget()) {
+      this.budgetExceeded = true;
+    }
+  }
+
+  /**
+   * 记录一个文本块的用量 (计入文件用量和逐块明细；运行总量已由 recordRequest 累计)
+   * @param fileId 文件标识
+   * @param chunkIndex 块序号
+   * @param usage 该块所有请求的用量
+   */
+  recordChunk(fileId: string | undefined, chunkIndex: number, usage: UsageTotals): void {
+    if (usage.requests === 0) return;
+    const fileKey = fileId || '';
+    const fileTotals = this.files.get(fileKey) || createEmptyUsage();
+    addUsage(fileTotals, usage);
+    this.files.set(fileKey, fileTotals);
+    this.chunks.push({ fileId, chunkIndex, ...usage });
+  }
+
+  /**
+   * 发送请求前检查是否已达到上限
+   * @throws BudgetExceededError
+   */
+  assertWithinBudget(): void {
+    if (!this.budgetExceeded && !this.isOverBudget()) return;
+    this.budgetExceeded = true;
+    const limits = [
+      this.budget.maxCost > 0 ? `费用 ${formatCost(this.total.cost)} / ${formatCost(this.budget.maxCost)}` : '',
+      this.budget.maxTokens > 0 ? `token ${this.total.totalTokens} / ${this.budget.maxTokens}` : ''
+    ].filter(Boolean).join('，');
+    throw new BudgetExceededError(`已达到本次运行的用量上限 (${limits})`, { ...this.total }, this.getBudget());
+  }
+
+  isBudgetExceeded(): boolean {
+    return this.budgetExceeded;
+  }
+
+  getTotal(): UsageTotals {
+    return { ...this.total };
+  }
+
+  getReport(): UsageReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      provider: this.providerName,
+      model: this.model,
+      price: this.price,
+      budget: this.getBudget(),
+      budgetExceeded: this.budgetExceeded,
+      total: this.getTotal(),
+      files: Object.fromEntries(this.files),
+      chunks: [...this.chunks]
+    };
+  }
+
+  private isOverBudget(): boolean {
+    return (this.budget.maxCost > 0 && this.total.cost >= this.budget.maxCost)
+      || (this.budget.maxTokens > 0 && this.total.totalTokens >= this.budget.maxTokens);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * src/services/watch_service.ts
+ *
+ * 监视源项目的文件变更，并通过 LatexTranslatorService 只重新翻译发生变化的文件，
+ * 使 translated/ 中的译文镜像随写作过程保持最新。
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { LatexTranslatorService } from './latex-translator_service';
+import { FileService } from './file_service';
+import log from '../utils/logger'; // 引入日志服务
+
+// 编辑器产生的临时文件和版本控制目录，不触发同步
+const IGNORED_FILE_PATTERN = /(^|[\/\\])(\.git|\.svn|node_modules)([\/\\]|$)|~$|\.sw[pox]$|^\.#|(^|[\/\\])4913$|\.(aux|log|out|toc|synctex\.gz|fdb_latexmk|fls|bbl|blg|pdf)$/;
+
+export interface WatchOptions {
+  // 最后一次变更后等待的毫秒数，合并编辑器保存时的连续事件
+  debounceMs?: number;
+}
+
+export class WatchService {
+  private translator: LatexTranslatorService;
+  private fileService: FileService;
+  private inputPath: string;
+  private watchRoot: string;
+  // 单文件项目只关注这一个文件
+  private singleFile: string | null;
+  private debounceMs: number;
+  private watcher: fs.FSWatcher | null;
+  private pendingFiles: Set<string>;
+  private debounceTimer: NodeJS.Timeout | null;
+  // 串行处理变更，避免同一文件被并发翻译
+  private queue: Promise<void>;
+
+  /**
+   * @param translator 已完成一次完整翻译的翻译服务
+   * @param inputPath 与 translate 相同的输入路径 (文件或项目目录)
+   * @param options 监视选项
+   */
+  constructor(translator: LatexTranslatorService, inputPath: string, options: WatchOptions = {}) {
+    this.translator = translator;
+    this.fileService = FileService.getInstance();
+    this.inputPath = path.resolve(inputPath);
+    this.watchRoot = this.inputPath;
+    this.singleFile = null;
+    this.debounceMs = options.debounceMs ?? 500;
+    this.watcher = null;
+    this.pendingFiles = new Set();
+    this.debounceTimer = null;
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * 开始监视
+   */
+  async start(): Promise<void> {
+    if (this.watcher) return;
+    if ((await this.fileService.stat(this.inputPath)).isFile()) {
+      this.watchRoot = path.dirname(this.inputPath);
+      this.singleFile = this.inputPath;
+    }
+    const outputDir = path.resolve(this.translator.getProjectDir());
+    this.watcher = fs.watch(this.watchRoot, { recursive: this.singleFile === null }, (_event, fileName) => {
+      if (!fileName) return;
+      const filePath = path.resolve(this.watchRoot, fileName.toString());
+      if (this.singleFile && filePath !== this.singleFile) return;
+      // 输出目录位于输入目录内时，忽略翻译器自己写出的文件
+      if (filePath === outputDir || filePath.startsWith(outputDir + path.sep)) return;
+      if (IGNORED_FILE_PATTERN.test(path.relative(this.watchRoot, filePath))) return;
+      this.schedule(filePath);
+    });
+    this.watcher.on('error', error => log.error('文件监视出错:', error));
+    log.info(`正在监视 ${this.singleFile || this.watchRoot} 的变更，按 Ctrl+C 退出`);
+  }
+
+  /**
+   * 停止监视，并等待正在进行的同步完成
+   */
+  async stop(): Promise<void> {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.watcher?.close();
+    this.watcher = null;
+    await this.queue;
+  }
+
+  private schedule(filePath: string): void {
+    this.pendingFiles.add(filePath);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const files = Array.from(this.pendingFiles);
+      this.pendingFiles.clear();
+      this.queue = this.queue.then(() => this.syncFiles(files));
+    }, this.debounceMs);
+  }
+
+  private async syncFiles(files: string[]): Promise<void> {
+    for (const filePath of files) {
+      // 目录本身的事件 (新建或删除子目录) 由其中文件的事件处理
+      const stat = await this.fileService.stat(filePath).catch(() => null);
+      if (stat?.isDirectory()) continue;
+      try {
+        const translatedPath = await this.translator.syncChangedFile(filePath);
+        log.info(`已更新: ${translatedPath}`);
+      } catch (error) {
+        log.error(`同步文件 ${filePath} 失败:`, error);
+      }
+    }
+  }
+}
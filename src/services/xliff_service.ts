@@ -0,0 +1,301 @@
+/**
+ * src/services/xliff_service.ts
+ *
+ * XLIFF 导出与导入，供 CAT 工具 (计算机辅助翻译) 或人工译后编辑使用：
+ * 导出时与翻译流程一样解析并掩码，将每个含文字的段落写为一个 XLIFF 2.0 翻译单元，
+ * 掩码节点映射和段落之间的骨架文本写入旁路文件 (<文件名>.xlf.json)；
+ * 导入时按旁路文件拼回掩码文本，经 ReplacementService 还原为 LaTeX，重建 translated/ 目录。
+ */
+import * as path from 'path';
+import { ProjectAST, ProjectFileAst } from 'ast-gen';
+import type { Dirent } from 'fs';
+
+import { ParserService } from './parser_service';
+import { MaskingService } from './masking_service';
+import { ReplacementService } from './replacement_service';
+import { ConfigService } from './config_service';
+import { FileService } from './file_service';
+import type {
+  LanguagePack,
+  MaskedNode,
+  MaskingOptions,
+  XliffExportResult,
+  XliffImportResult,
+  XliffSidecar,
+  XliffSidecarFile
+} from '../types';
+import * as LatexUtils from '../utils/latex.utils';
+import { toLanguageCode } from '../utils/language.utils';
+import { getLanguagePack, applyLanguagePack } from '../utils/language-pack.utils';
+import { formatPlaceholder, validatePlaceholders, repairPlaceholders, countPlaceholderProblems } from '../utils/placeholder.utils';
+import {
+  XliffFile,
+  XliffInlineCode,
+  XliffUnit,
+  buildXliffDocument,
+  maskedTextToXliff,
+  parseXliffDocument,
+  segmentMaskedText
+} from '../utils/xliff.utils';
+import log from '../utils/logger';
+
+// 行内代码 disp 属性中显示的 LaTeX 最大长度
+const MAX_DISPLAY_LENGTH = 40;
+
+export interface XliffExportOptions {
+  // 覆盖配置文件中的掩码选项
+  maskingOptions?: MaskingOptions;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+export interface XliffImportOptions {
+  // 旁路文件路径，默认为 <XLIFF 文件>.json
+  sidecarPath?: string;
+  // 输出根目录，默认为配置中的 output.defaultOutputDir
+  outputDir?: string;
+}
+
+export class XliffService {
+  private configService: ConfigService;
+  private fileService: FileService;
+  private parserService: ParserService;
+  private maskingService: MaskingService;
+  private sourceLanguage?: string;
+  private targetLanguage: string;
+  private outputDir: string;
+
+  constructor(options: XliffExportOptions = {}) {
+    this.configService = ConfigService.getInstance();
+    this.fileService = FileService.getInstance();
+    this.parserService = new ParserService();
+    const defaults = this.configService.getDefaultTranslatorOptions();
+    this.maskingService = new MaskingService({ ...defaults.maskingOptions, ...(options.maskingOptions || {}) });
+    this.sourceLanguage = options.sourceLanguage || defaults.sourceLanguage;
+    this.targetLanguage = options.targetLanguage || defaults.targetLanguage;
+    this.outputDir = defaults.outputDir;
+  }
+
+  /**
+   * 将 LaTeX 文件或项目导出为 XLIFF 2.0 文件和旁路文件
+   * @param inputPath LaTeX 文件或项目目录
+   * @param outputPath XLIFF 文件路径，默认为 <输出目录>/<项目名>/xliff/<项目名>.xlf
+   */
+  async exportProject(inputPath: string, outputPath?: string): Promise<XliffExportResult> {
+    const absInputPath = path.resolve(inputPath);
+    const inputStat = await this.fileService.stat(absInputPath);
+    const projectName = inputStat.isFile()
+      ? path.basename(absInputPath, path.extname(absInputPath))
+      : path.basename(absInputPath);
+    const xliffPath = path.resolve(outputPath || path.join(this.outputDir, projectName, 'xliff', `${projectName}.xlf`));
+    const sidecarPath = `${xliffPath}.json`;
+
+    log.info('正在解析LaTeX项目...');
+    const ast = await this.parserService.parse(absInputPath);
+    this.maskingService.classifyProjectMacros(ast);
+
+    const sidecarFiles: XliffSidecarFile[] = [];
+    const xliffFiles: XliffFile[] = [];
+    if (inputStat.isFile()) {
+      // 与翻译流程一致，单文件输入整体掩码
+      await this.exportAst(path.basename(absInputPath), ast, sidecarFiles, xliffFiles);
+    } else {
+      const projectFiles: ProjectFileAst[] = ast.files || [];
+      for (const fileAst of projectFiles) {
+        await this.exportAst(LatexUtils.getRelativePath(fileAst.filePath, absInputPath), {
+          files: [fileAst],
+          macros: ast.macros,
+          _detailedMacros: ast._detailedMacros,
+          errors: ast.errors,
+          rootFilePath: fileAst.filePath
+        }, sidecarFiles, xliffFiles);
+      }
+    }
+
+    const sidecar: XliffSidecar = {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      inputPath: absInputPath,
+      projectName,
+      sourceLanguage: this.sourceLanguage,
+      targetLanguage: this.targetLanguage,
+      files: sidecarFiles
+    };
+    const xliff = buildXliffDocument({
+      srcLang: toLanguageCode(this.sourceLanguage) || 'und',
+      trgLang: toLanguageCode(this.targetLanguage) || 'und',
+      files: xliffFiles
+    });
+    await this.fileService.mkdirRecursive(path.dirname(xliffPath));
+    await this.fileService.writeFile(xliffPath, xliff, 'utf8');
+    await this.fileService.writeFile(sidecarPath, JSON.stringify(sidecar, null, 2), 'utf8');
+
+    const units = xliffFiles.reduce((sum, file) => sum + file.units.length, 0);
+    log.info(`XLIFF 已导出: ${xliffPath} (${xliffFiles.length} 个文件，${units} 个翻译单元)`);
+    log.info(`旁路文件已保存: ${sidecarPath}，导入译文时需要此文件`);
+    return { xliffPath, sidecarPath, files: xliffFiles.length, units };
+  }
+
+  /**
+   * 导入翻译或译后编辑后的 XLIFF 文件，重建 <输出目录>/<项目名>/translated/
+   * @param xliffPath XLIFF 文件路径
+   * @param options 旁路文件路径和输出目录
+   * @returns 输出目录及单元统计
+   */
+  async importProject(xliffPath: string, options: XliffImportOptions = {}): Promise<XliffImportResult> {
+    const absXliffPath = path.resolve(xliffPath);
+    const sidecarPath = path.resolve(options.sidecarPath || `${absXliffPath}.json`);
+    const sidecar = JSON.parse(await this.fileService.readFile(sidecarPath, 'utf8')) as XliffSidecar;
+    if (sidecar.version !== 1 || !Array.isArray(sidecar.files)) {
+      throw new Error(`无法识别的 XLIFF 旁路文件: ${sidecarPath}`);
+    }
+    const xliffUnits = parseXliffDocument(await this.fileService.readFile(absXliffPath, 'utf8'));
+    const languagePack = getLanguagePack(
+      sidecar.targetLanguage,
+      this.configService.get<Record<string, Partial<LanguagePack>>>('output.languagePacks', {})
+    );
+
+    const projectDir = path.join(path.resolve(options.outputDir || this.outputDir), sidecar.projectName);
+    const translatedDir = path.join(projectDir, 'translated');
+    await this.fileService.mkdirRecursive(translatedDir);
+    await this.copyOriginalProject(sidecar.inputPath, path.join(projectDir, 'original'), translatedDir);
+
+    const result: XliffImportResult = { outputPath: translatedDir, files: 0, units: 0, untranslatedUnits: 0, repairedUnits: 0 };
+    for (const file of sidecar.files) {
+      const units = xliffUnits.get(file.fileId);
+      if (!units) {
+        log.warn(`XLIFF 中没有文件 ${file.fileId} 的翻译单元，按原文输出`);
+      }
+      let maskedText = '';
+      for (const part of file.skeleton) {
+        if (typeof part === 'string') {
+          maskedText += part;
+          continue;
+        }
+        const unit = units?.get(part.unit);
+        result.units++;
+        if (!unit || unit.target === undefined) {
+          result.untranslatedUnits++;
+          maskedText += part.source;
+          continue;
+        }
+        const validation = validatePlaceholders(part.source, unit.target);
+        if (!validation.valid) {
+          log.warn(`文件 ${file.fileId} 的单元 ${part.unit} 占位符不完整 (${countPlaceholderProblems(validation)} 处问题)，已自动修复`);
+          result.repairedUnits++;
+          maskedText += repairPlaceholders(part.source, unit.target);
+        } else {
+          maskedText += unit.target;
+        }
+      }
+
+      const maskedNodesMap = new Map<string, MaskedNode>(Object.entries(file.maskedNodes));
+      const texContent = new ReplacementService(maskedNodesMap).replaceTranslatedText(maskedText);
+      const outputFilePath = path.join(translatedDir, file.fileId);
+      await this.fileService.mkdirRecursive(path.dirname(outputFilePath));
+      await this.fileService.writeFile(outputFilePath, this.applyLanguageSupport(texContent, file.fileId, languagePack), 'utf8');
+      result.files++;
+      log.debug(`已写入译文: ${outputFilePath}`);
+    }
+
+    if (result.untranslatedUnits > 0) {
+      log.warn(`${result.untranslatedUnits} 个翻译单元没有译文，已按原文输出`);
+    }
+    log.info(`XLIFF 导入完成: ${result.files} 个文件，${result.units} 个翻译单元，输出目录: ${translatedDir}`);
+    return result;
+  }
+
+  private async exportAst(
+    fileId: string,
+    ast: ProjectAST,
+    sidecarFiles: XliffSidecarFile[],
+    xliffFiles: XliffFile[]
+  ): Promise<void> {
+    log.debug(`开始掩码文件: ${fileId}`);
+    const { maskedText, maskedNodesMap } = await this.maskingService.maskAst(ast);
+    const replacer = new ReplacementService(maskedNodesMap);
+    const skeleton: XliffSidecarFile['skeleton'] = [];
+    const units: XliffUnit[] = [];
+    for (const part of segmentMaskedText(maskedText)) {
+      if (typeof part === 'string') {
+        skeleton.push(part);
+        continue;
+      }
+      const unitId = `u${units.length + 1}`;
+      const originalData: Record<string, string> = {};
+      const describe = (maskId: string): XliffInlineCode => {
+        const maskedNode = maskedNodesMap.get(maskId);
+        if (!maskedNode) return {};
+        if (maskedNode.sourceParts) {
+          return { disp: truncate(maskedNode.sourceParts.head || maskId) };
+        }
+        // 自闭合占位符的原始 LaTeX 写入 <originalData>，供 CAT 工具显示
+        const latex = replacer.replaceTranslatedText(formatPlaceholder(maskId));
+        const dataRef = `d${Object.keys(originalData).length + 1}`;
+        originalData[dataRef] = latex;
+        return { dataRef, disp: truncate(latex) };
+      };
+      units.push({ id: unitId, source: maskedTextToXliff(part.source, describe), originalData });
+      skeleton.push({ unit: unitId, source: part.source });
+    }
+    sidecarFiles.push({ fileId, skeleton, maskedNodes: Object.fromEntries(maskedNodesMap) });
+    xliffFiles.push({ id: `f${xliffFiles.length + 1}`, original: fileId, units });
+  }
+
+  /**
+   * 按目标语言的语言包补充导言区，只对含 \documentclass 的主文件生效
+   */
+  private applyLanguageSupport(texContent: string, fileId: string, languagePack: LanguagePack): string {
+    if (!LatexUtils.getDocumentClass(texContent)) {
+      return texContent;
+    }
+    const result = applyLanguagePack(texContent, languagePack);
+    if (result.conflicts.length > 0) {
+      log.warn(`文件 ${fileId} 的导言区与 ${languagePack.code} 语言包冲突 (${result.conflicts.join('、')})，未自动添加语言支持，请手动调整导言区`);
+    }
+    return result.content;
+  }
+
+  /**
+   * 原项目仍存在时复制到 original/，并将图片等非 TeX 文件复制到 translated/
+   */
+  private async copyOriginalProject(inputPath: string, originalDir: string, translatedDir: string): Promise<void> {
+    let inputStat;
+    try {
+      inputStat = await this.fileService.stat(inputPath);
+    } catch {
+      log.warn(`导出时的输入路径 ${inputPath} 已不存在，只输出译文 TeX 文件`);
+      return;
+    }
+    await this.fileService.mkdirRecursive(originalDir);
+    if (inputStat.isFile()) {
+      await this.fileService.copyFile(inputPath, path.join(originalDir, path.basename(inputPath)));
+      return;
+    }
+    await this.fileService.copyDirectoryRecursive(inputPath, originalDir);
+    await this.copyNonTexFiles(inputPath, translatedDir);
+  }
+
+  private async copyNonTexFiles(srcDir: string, destDir: string): Promise<void> {
+    const entries = await this.fileService.readdir(srcDir, { withFileTypes: true }) as Dirent[];
+    for (const entry of entries) {
+      const srcPath = path.join(srcDir, entry.name);
+      const destPath = path.join(destDir, entry.name);
+      if (entry.isDirectory()) {
+        await this.fileService.mkdirRecursive(destPath);
+        await this.copyNonTexFiles(srcPath, destPath);
+      } else if (entry.isFile() && !LatexUtils.isTexFile(entry.name)) {
+        try {
+          await this.fileService.copyFile(srcPath, destPath);
+        } catch (error) {
+          log.warn(`无法复制非 TeX 文件 ${srcPath} 到 ${destPath}:`, error);
+        }
+      }
+    }
+  }
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_DISPLAY_LENGTH ? `${singleLine.slice(0, MAX_DISPLAY_LENGTH - 1)}…` : singleLine;
+}
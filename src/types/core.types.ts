@@ -1,4 +1,5 @@
 import { Ast, ProjectAST, ParserOptions, ProjectFileAst } from 'ast-gen';
+import type { TranslationProvider, TranslationProviderName } from './provider.types';
 
 // 从 latex-translator.ts 提取
 export interface TranslatorOptions {
@@ -16,6 +17,36 @@ export interface TranslatorOptions {
   outputDir?: string;
   // 是否绕过LLM翻译
   bypassLLMTranslation?: boolean;
+  // 是否启用翻译缓存
+  useCache?: boolean;
+  // 翻译缓存目录
+  cacheDir?: string;
+  // 是否使用翻译记忆库 (复用完全匹配的译文，将模糊匹配作为参考，并在运行结束后写入本次译文)
+  useMemory?: boolean;
+  // 翻译记忆库文件路径
+  memoryPath?: string;
+  // 是否从 log/ 目录中的检查点继续上次中断的翻译
+  resume?: boolean;
+  // 翻译提供者名称，或实现了 TranslationProvider 接口的自定义实例
+  provider?: TranslationProviderName | TranslationProvider;
+  // 术语表文件路径 (.csv 或 .json)
+  glossaryPath?: string;
+  // 是否输出原文与译文对照的双语文档
+  bilingual?: boolean;
+  // 双语文档的布局
+  bilingualLayout?: BilingualLayout;
+  // 是否在提示词中附带前一个文本块的原文及译文作为上下文 (启用后文本块按顺序翻译)
+  context?: boolean;
+  // 前文上下文中原文和译文各自最多保留的 token 数
+  contextTokens?: number;
+  // 翻译完成后是否重新解析译文并与原文比较结构
+  validateStructure?: boolean;
+  // 翻译完成后是否检查译文质量 (未翻译、数字/单位/URL 不一致、多余的 Markdown 标记等)
+  qa?: boolean;
+  // 本次运行的费用上限 (与价格表的货币单位相同)，0 或未设置表示不限制
+  maxCost?: number;
+  // 本次运行的 token 上限，0 或未设置表示不限制
+  maxTokens?: number;
 }
 
 // 从 masker.ts 和 latex-translator.ts (maskingOptions 内部) 提取和合并
@@ -30,16 +61,133 @@ export interface MaskingOptions {
   maskInlineMath?: boolean;
   // 需要掩码的行间数学
   maskDisplayMath?: boolean;
-  // 是否掩码注释
+  // 是否掩码注释 (旧选项，未设置 commentPolicy 时 true 相当于 preserve，false 相当于 drop)
   maskComments?: boolean;
+  // 注释的处理方式
+  commentPolicy?: CommentPolicy;
   // 掩码前缀
   maskPrefix?: string;
+  // 按命令名配置的参数策略：保留命令结构，只把指定参数的文本交给翻译
+  commandArgumentPolicies?: Record<string, CommandArgumentPolicy>;
+  // 按命令或环境声明的掩码规则，按顺序匹配，优先于 maskCommands、环境列表和 commandArgumentPolicies
+  rules?: MaskingRuleSpec[];
+  // 是否识别项目中 \newcommand 等定义的宏并按分类处理
+  detectMacros?: boolean;
+  // 按宏名覆盖自动分类得到的处理方式
+  macroActions?: Record<string, MacroAction>;
+}
+
+// 注释的处理方式: drop 从译文中删除; preserve 原样保留; translate 翻译注释文本，保留 % 和换行
+export type CommentPolicy = 'drop' | 'preserve' | 'translate';
+
+// 项目自定义宏的分类: math 只用于数学 (如 \R、\norm); text 产生正文文本 (如 \method); structural 影响文档结构或版式
+export type MacroKind = 'math' | 'text' | 'structural';
+
+// 自定义宏在正文中的处理方式: mask 整体掩码; translate 保留命令并翻译其参数; expand 展开为定义内容后翻译; none 不做特殊处理
+export type MacroAction = 'mask' | 'translate' | 'expand' | 'none';
+
+// 从源码中找到的宏定义
+export interface MacroDefinition {
+  name: string;
+  // 定义所用的命令，如 newcommand、DeclareMathOperator
+  command: string;
+  argCount: number;
+  // 第一个参数是否为可选参数 (定义中给出了默认值)
+  hasOptionalArg: boolean;
+  // 定义内容的 LaTeX 源码
+  body: string;
+  filePath: string;
+}
+
+// 对一个自定义宏的分类与处理决定
+export interface MacroDecision {
+  name: string;
+  kind: MacroKind;
+  action: MacroAction;
+  // 处理方式是否来自 macroActions 配置
+  overridden: boolean;
+  // 分类依据
+  reason: string;
+  definition: MacroDefinition;
+}
+
+// 写入 log/macro_report.json 的自定义宏报告
+export interface MacroReport {
+  generatedAt: string;
+  totalMacros: number;
+  macros: MacroDecision[];
+}
+
+// 命令参数的处理方式: translate 交给翻译; mask 原样保留 (keep 与 mask 相同); drop 从译文中删除
+export type ArgumentAction = 'translate' | 'mask' | 'keep' | 'drop';
+
+// 单个命令的参数策略，按参数在同类括号中的顺序指定，未列出的参数原样保留
+// 例如 \textcolor{red}{文本} 为 { mandatory: ['keep', 'translate'] }
+export interface CommandArgumentPolicy {
+  // 花括号参数 {...}
+  mandatory?: ArgumentAction[];
+  // 方括号可选参数 [...]
+  optional?: ArgumentAction[];
+}
+
+// 环境内容的处理方式: translate 交给翻译; mask 整个环境掩码
+export type EnvironmentBodyAction = 'translate' | 'mask';
+
+// 掩码规则的对象形式。command / environment 为名称，可以是精确名称、含 * 和 ? 的通配符或 /正则/
+export interface MaskingRuleObject {
+  command?: string;
+  environment?: string;
+  // 参数声明，如 "{mask}{translate}"、"[translate]{translate}"
+  args?: string;
+  // 仅用于环境，默认为 translate
+  body?: EnvironmentBodyAction;
+}
+
+// 掩码规则：字符串形式如 "\\href{mask}{translate}"、"\\begin{theorem}[translate]"，或对象形式
+export type MaskingRuleSpec = string | MaskingRuleObject;
+
+// 解析后的掩码规则
+export interface MaskingRule {
+  target: 'command' | 'environment';
+  // 规则中的原始名称
+  pattern: string;
+  // 由名称转换的匹配表达式 (精确名称同样转换为表达式)
+  matcher: RegExp;
+  policy: CommandArgumentPolicy;
+  body: EnvironmentBodyAction;
+  // 规则原文，用于日志
+  source: string;
 }
 
 // 从 masker.ts 和 replacer.ts 提取
 export interface MaskedNode {
   id: string;
   originalContent: Ast.Ast; // 确保 Ast 类型被正确导入或定义
+  // 以成对占位符 <ph id="..." arg="n">文本</ph> 暴露给翻译的参数下标 (对应 originalContent.args)
+  translatableArgs?: number[];
+  // 按掩码规则从译文中删除的参数下标 (对应 originalContent.args)
+  droppedArgs?: number[];
+  // 节点的原文，还原时优先使用，使未翻译的部分与原文逐字节一致 (解析结果没有位置信息时为空)
+  source?: string;
+  // 按原文重建命令时使用的各部分原文 (仅含参数的命令)
+  sourceParts?: MaskedSourceParts;
+}
+
+// 命令各部分的原文，用于在保留原始格式的前提下替换可翻译参数 (注释的文本视为下标为 0 的参数)
+export interface MaskedSourceParts {
+  // 命令名，如 \section
+  head: string;
+  // 各参数的原文，与 originalContent.args 一一对应
+  args: MaskedArgumentSource[];
+}
+
+export interface MaskedArgumentSource {
+  // 参数的完整原文，包括参数前的空白和括号
+  text: string;
+  // 参数内容之前的原文 (参数前的空白、左括号和内容开头的空白)
+  before: string;
+  // 参数内容之后的原文 (内容结尾的空白和右括号)
+  after: string;
 }
 
 // 从 openai-client.ts 提取
@@ -49,6 +197,535 @@ export interface OpenAIConfig {
   model: string;
   temperature?: number;
   timeout?: number;
+  // 同时进行翻译的文本块数
+  concurrency?: number;
+  // 每分钟最大请求数，0 表示不限制
+  requestsPerMinute?: number;
+  // 每分钟最大 token 数，0 表示不限制
+  tokensPerMinute?: number;
+  // 速率限制 (429) 或服务端错误时的最大重试次数
+  maxRetries?: number;
+}
+
+// 翻译缓存键的组成部分，任何一项变化都会使缓存失效
+export interface TranslationCacheKeyParams {
+  text: string;
+  targetLanguage: string;
+  sourceLanguage?: string;
+  model: string;
+  promptVersion: number;
+  // 文本块中出现的术语表条目的指纹，未使用术语表时为空
+  glossary?: string;
+  // 前文上下文的 token 数，未附带前文时为空
+  contextTokens?: number;
+  // 提示中附带的前文 (上一块原文和译文) 的指纹
+  context?: string;
+  // 提示中附带的翻译记忆库参考译文的指纹
+  memoryReferences?: string;
+}
+
+// 磁盘上的单条翻译缓存
+export interface TranslationCacheEntry {
+  key: string;
+  model: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  promptVersion: number;
+  source: string;
+  translation: string;
+  createdAt: string;
+}
+
+// 翻译缓存命中统计
+export interface TranslationCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+// 翻译记忆库中的一条记录。原文和译文均为掩码文本 (一个段落)，占位符编号已按出现顺序规范化，
+// 因此不同文档中结构相同的段落可以互相匹配
+export interface TranslationMemoryEntry {
+  source: string;
+  target: string;
+  // BCP-47 语言代码，无法识别时为配置中的语言名称，未指定源语言时为 und
+  sourceLanguage: string;
+  targetLanguage: string;
+  createdAt: string;
+  updatedAt: string;
+  // 来源：产生该记录的文件，或导入的 TMX 文件
+  origin?: string;
+}
+
+// 翻译记忆库文件的内容
+export interface TranslationMemoryFile {
+  version: 1;
+  entries: TranslationMemoryEntry[];
+}
+
+// 翻译记忆库的匹配结果，score 为 0~1 的相似度，1 表示完全匹配
+export interface TranslationMemoryMatch {
+  source: string;
+  target: string;
+  score: number;
+}
+
+// 翻译记忆库的使用统计
+export interface TranslationMemoryStats {
+  entries: number;
+  // 整块复用译文的文本块数
+  exactHits: number;
+  // 附带模糊匹配作为参考的文本块数
+  fuzzyHits: number;
+  // 本次新增或更新的记录数
+  added: number;
+}
+
+// 单个文本块的翻译结果来源 (memory 为翻译记忆库中的完全匹配)
+export type ChunkTranslationStatus = 'translated' | 'cached' | 'memory' | 'resumed' | 'fallback';
+
+// 文本块翻译完成后回调的记录
+export interface ChunkTranslationRecord {
+  index: number;
+  total: number;
+  source: string;
+  translation: string;
+  status: ChunkTranslationStatus;
+  // 该块从开始处理到完成的耗时
+  durationMs: number;
+  // 该块所有请求 (含重试和重新提示) 的用量，命中缓存或检查点时为空
+  usage?: UsageTotals;
+}
+
+// 模型价格，单位为每百万 token 的费用
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 累计的 token 用量与费用
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // 未配置模型价格时为 0
+  cost: number;
+  // 提供者未返回用量、按文本长度估算的请求数
+  estimatedRequests: number;
+}
+
+// 单个文本块的用量
+export interface ChunkUsage extends UsageTotals {
+  fileId?: string;
+  chunkIndex: number;
+}
+
+// 运行的用量上限，0 表示不限制
+export interface UsageBudget {
+  maxCost: number;
+  maxTokens: number;
+}
+
+// 写入 log/usage_report.json 的用量报告
+export interface UsageReport {
+  generatedAt: string;
+  provider: string;
+  model: string;
+  // 未在价格表中找到模型时为 null
+  price: ModelPrice | null;
+  budget: UsageBudget;
+  // 是否因达到上限而提前停止
+  budgetExceeded: boolean;
+  total: UsageTotals;
+  files: Record<string, UsageTotals>;
+  chunks: ChunkUsage[];
+}
+
+// 不调用翻译接口的用量预估 (estimate 命令)
+export interface EstimateTotals {
+  chunks: number;
+  // 估算的输入 token 数 (含提示词开销和前文上下文)
+  inputTokens: number;
+  // 估算的输出 token 数
+  outputTokens: number;
+  // 按类型 (占位符编号的前缀，如 IMATH、ENV、CMD) 统计的占位符数量
+  placeholders: Record<string, number>;
+  // 未配置模型价格时为 0
+  cost: number;
+}
+
+export interface FileEstimate extends EstimateTotals {
+  fileId: string;
+}
+
+export interface EstimateReport {
+  generatedAt: string;
+  inputPath: string;
+  model: string;
+  // 未在价格表中找到模型时为 null
+  price: ModelPrice | null;
+  chunkTokenBudget: number;
+  // 输出 token 数与原文 token 数之比
+  outputRatio: number;
+  contextTokens: number;
+  files: FileEstimate[];
+  total: EstimateTotals;
+}
+
+// 往返检查中输出与原文的第一处差异 (行号和列号从 1 开始)
+export interface RoundtripDifference {
+  line: number;
+  column: number;
+  // 差异位置所在行的原文和输出
+  expected: string;
+  actual: string;
+}
+
+export interface FileRoundtripResult {
+  fileId: string;
+  identical: boolean;
+  sourceLength: number;
+  outputLength: number;
+  // 掩码后的占位符数量
+  placeholders: number;
+  difference?: RoundtripDifference;
+}
+
+export interface RoundtripReport {
+  generatedAt: string;
+  inputPath: string;
+  totalFiles: number;
+  identicalFiles: number;
+  files: FileRoundtripResult[];
+}
+
+// XLIFF 导出时写入的旁路文件 (<文件名>.xlf.json)，导入时据此将译文还原为 LaTeX
+export interface XliffSidecar {
+  version: 1;
+  generatedAt: string;
+  // 导出时的输入路径 (绝对路径)
+  inputPath: string;
+  projectName: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  files: XliffSidecarFile[];
+}
+
+export interface XliffSidecarFile {
+  // 文件相对于项目根目录的路径，与 XLIFF 中 <file> 的 original 属性相同
+  fileId: string;
+  // 掩码文本的骨架：字符串原样输出，{ unit } 替换为 XLIFF 中同 id 单元的译文，没有译文时输出 source
+  skeleton: Array<string | { unit: string; source: string }>;
+  maskedNodes: Record<string, MaskedNode>;
+}
+
+export interface XliffExportResult {
+  xliffPath: string;
+  sidecarPath: string;
+  files: number;
+  units: number;
+}
+
+export interface XliffImportResult {
+  outputPath: string;
+  files: number;
+  units: number;
+  // 没有译文、按原文输出的单元数
+  untranslatedUnits: number;
+  // 占位符不完整、已自动修复的单元数
+  repairedUnits: number;
+}
+
+// 文本块重试的原因: request 为请求失败后重试; placeholder 为占位符校验失败后重新提示; glossary 为术语未按规定翻译后重新提示
+export type ChunkRetryReason = 'request' | 'placeholder' | 'glossary';
+
+// 文本块的一次重试
+export interface ChunkRetryRecord {
+  index: number;
+  // 第几次重试 (从 1 开始)
+  attempt: number;
+  reason: ChunkRetryReason;
+  message: string;
+}
+
+// translateLargeText 的附加选项
+export interface LargeTextTranslationOptions {
+  // 文件标识，用于日志和报告
+  fileId?: string;
+  // 已完成的文本块 (键为块序号)，来源哈希一致时直接复用
+  completedChunks?: Record<number, ChunkCheckpoint>;
+  // 每个文本块完成后的回调
+  onChunkTranslated?: (record: ChunkTranslationRecord) => void | Promise<void>;
+  // 文本块重试时的回调
+  onChunkRetry?: (record: ChunkRetryRecord) => void;
+  // 前文上下文中原文和译文各自最多保留的 token 数，为 0 或未设置时不附带前文
+  contextTokens?: number;
+}
+
+// 切分后的翻译块
+export interface TextChunk {
+  text: string;
+  // 与下一块之间的原有空白 (空行或段落内部的空白)，最后一块为文本结尾的空白
+  separator: string;
+  // 文本开头的空白，只出现在第一块
+  leading?: string;
+}
+
+// 占位符校验结果
+export interface PlaceholderValidationResult {
+  valid: boolean;
+  // 原文中存在、译文中缺失的占位符
+  missing: string[];
+  // 译文中出现、原文中不存在的占位符
+  unexpected: string[];
+  // 译文中重复出现的占位符
+  duplicated: string[];
+  // 形似占位符但格式已被破坏的标签
+  malformed: string[];
+}
+
+// 单个文本块的占位符完整性问题
+export interface PlaceholderIntegrityIssue {
+  fileId?: string;
+  chunkIndex: number;
+  // 调用模型的总次数 (含首次翻译)
+  attempts: number;
+  // recovered: 重新提示后通过校验; repaired: 自动修复后使用; fallback: 保留原文
+  resolution: 'recovered' | 'repaired' | 'fallback';
+  // 首次翻译时发现的问题
+  initial: PlaceholderValidationResult;
+  // 最终采用的译文在修复前的问题
+  final: PlaceholderValidationResult;
+}
+
+// 写入 log/integrity_report.json 的占位符完整性报告
+export interface IntegrityReport {
+  generatedAt: string;
+  totalIssues: number;
+  // 重新提示后仍未通过校验的块数
+  unresolvedChunks: number;
+  issues: PlaceholderIntegrityIssue[];
+}
+
+// 审校报告中的一个文本块 (原文和译文均为掩码文本)
+export interface ReviewChunk extends BilingualSegment {
+  index: number;
+  status: ChunkTranslationStatus;
+  // 该块的占位符完整性问题
+  integrityIssue?: PlaceholderIntegrityIssue;
+}
+
+// 审校报告中的一个文件
+export interface ReviewFile {
+  fileId: string;
+  // 文件已在检查点中完成，本次没有重新翻译，因此没有文本块
+  resumed: boolean;
+  chunks: ReviewChunk[];
+  // 占位符 id 到其原始 LaTeX
+  placeholders: Record<string, string>;
+}
+
+// 生成 log/review_report.html 的数据
+export interface ReviewReport {
+  generatedAt: string;
+  projectName: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  files: ReviewFile[];
+  // 质量检查发现的问题，在对应的文本块中显示
+  qaIssues?: QaIssue[];
+}
+
+// 译文质量检查问题的类别
+export type QaIssueKind =
+  | 'untranslated'
+  | 'number_mismatch'
+  | 'unit_mismatch'
+  | 'url_mismatch'
+  | 'length_ratio'
+  | 'markdown_fence'
+  | 'chatty_preamble'
+  | 'code_wrapper';
+
+// 质量检查发现的一处问题；error 表示译文几乎肯定有误，warning 需要人工确认
+export interface QaIssue {
+  kind: QaIssueKind;
+  severity: 'error' | 'warning';
+  fileId: string;
+  chunkIndex: number;
+  message: string;
+  // 相关的数字、URL 或匹配到的文字
+  items?: string[];
+  // 出现问题的原文和译文段落 (掩码文本，过长时截断)
+  source: string;
+  translation: string;
+}
+
+// 写入 log/qa_report.json 的质量检查报告
+export interface QaReport {
+  generatedAt: string;
+  // 检查的段落数
+  checkedSegments: number;
+  errors: number;
+  warnings: number;
+  // 各类别的问题数
+  kinds: Partial<Record<QaIssueKind, number>>;
+  issues: QaIssue[];
+}
+
+// 术语表条目
+export interface GlossaryEntry {
+  // 源语言术语
+  source: string;
+  // 规定的目标语言译法；doNotTranslate 为 true 时与 source 相同
+  target: string;
+  // 是否保持原文不翻译
+  doNotTranslate: boolean;
+  // 匹配源术语时是否区分大小写 (产品名等通常需要)
+  caseSensitive: boolean;
+}
+
+// 译文中未使用规定译法的术语
+export interface GlossaryViolation {
+  fileId?: string;
+  chunkIndex: number;
+  source: string;
+  // 译文中应出现的译法
+  expected: string;
+  doNotTranslate: boolean;
+  // 是否因该问题重新提示过模型
+  reprompted: boolean;
+}
+
+// 术语检查报告 (log/glossary_report.json)
+export interface GlossaryReport {
+  generatedAt: string;
+  glossaryPath: string;
+  entryCount: number;
+  totalViolations: number;
+  violations: GlossaryViolation[];
+}
+
+// 结构校验问题的类别
+export type StructureIssueKind = 'parse' | 'brace' | 'environment' | 'label' | 'ref' | 'cite' | 'math';
+
+// 译文与原文之间的一处结构差异；error 表示译文很可能无法编译
+export interface StructureIssue {
+  kind: StructureIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  // 相关的环境名或键
+  items?: string[];
+}
+
+// 单个文件的结构摘要
+export interface StructureSummary {
+  // 各环境出现的次数
+  environments: Record<string, number>;
+  // 未闭合的左花括号数
+  unclosedBraces: number;
+  // 多余的右花括号数
+  extraClosingBraces: number;
+  // \begin/\end 不配对的描述
+  environmentErrors: string[];
+  labels: string[];
+  refs: string[];
+  cites: string[];
+  // 行内公式、行间公式及数学环境的数量
+  mathNodes: number;
+}
+
+// 单个文件的结构校验结果
+export interface StructureFileReport {
+  fileId: string;
+  translatedFilePath: string;
+  likelyToFail: boolean;
+  issues: StructureIssue[];
+  original: StructureSummary;
+  // 译文无法解析时为 null
+  translated: StructureSummary | null;
+}
+
+// 写入 log/structure_report.json 的结构校验报告
+export interface StructureReport {
+  generatedAt: string;
+  totalFiles: number;
+  filesLikelyToFail: number;
+  files: StructureFileReport[];
+}
+
+// LaTeX 编译引擎
+export type LatexEngine = 'pdflatex' | 'xelatex' | 'lualatex';
+
+// 目标语言的导言区配置
+export interface LanguagePack {
+  // 语言代码 (BCP 47)，与 toLanguageCode 的结果对应
+  code: string;
+  // 推荐的编译引擎
+  engine: LatexEngine;
+  // 插入导言区的行
+  preamble: string[];
+  // 已加载其中任一宏包时视为文档已支持该语言，不再插入
+  providedByPackages?: string[];
+  // 使用其中任一文档类时视为文档已支持该语言
+  providedByClasses?: string[];
+  // babel/polyglossia 中的语言名，文档已为 babel 指定或通过 \setmainlanguage 设置该语言时视为已支持
+  babelLanguage?: string;
+  // 与本语言包冲突的宏包，已加载时不插入导言区并给出警告
+  conflicts?: string[];
+  // 是否为从右到左书写的语言
+  rtl?: boolean;
+}
+
+// 对单个文件应用语言包的结果
+export interface LanguagePackResult {
+  content: string;
+  // 是否插入了导言区配置
+  applied: boolean;
+  // 文档实际应使用的编译引擎
+  engine: LatexEngine;
+  // 与语言包冲突的宏包或选项
+  conflicts: string[];
+}
+
+// 检查点中的单个文本块
+export interface ChunkCheckpoint {
+  sourceHash: string;
+  translation: string;
+}
+
+// 检查点中的单个文件
+export interface FileCheckpoint {
+  status: 'in_progress' | 'completed';
+  // 原始文件内容的哈希，文件被修改后检查点失效
+  sourceHash: string;
+  // 掩码文本的哈希，掩码结果变化后块级检查点失效
+  maskedHash?: string;
+  translatedFilePath?: string;
+  chunks: Record<number, ChunkCheckpoint>;
+  updatedAt: string;
+}
+
+// 写入 log/checkpoint.json 的检查点清单
+export interface TranslationCheckpoint {
+  version: number;
+  inputPath: string;
+  targetLanguage: string;
+  sourceLanguage?: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  files: Record<string, FileCheckpoint>;
+}
+
+// 双语输出布局: interleave 为原文段落后紧跟译文段落; paracol 为左右双栏
+export type BilingualLayout = 'interleave' | 'paracol';
+
+// 一组对照的原文与译文 (掩码文本)
+export interface BilingualSegment {
+  source: string;
+  translation: string;
 }
 
 // 从 latex-translator.ts 提取 (用于内部文件处理结果)
@@ -59,6 +736,63 @@ export interface FileTranslationResult {
   translatedTextFilePath?: string;
 }
 
+// 翻译流程所处的阶段
+export type TranslationPhase = 'idle' | 'parsing' | 'translating' | 'finalizing' | 'completed';
+
+// 翻译进度
+export interface TranslationProgress {
+  phase: TranslationPhase;
+  // 需要翻译的 TeX 文件数
+  totalFiles: number;
+  completedFiles: number;
+  // 正在翻译的文件 (相对路径)
+  currentFile: string | null;
+  // 当前文件的文本块数与已完成块数
+  totalChunks: number;
+  completedChunks: number;
+}
+
+// LatexTranslatorService 发出的事件及其数据 (事件名 → 数据)
+export interface TranslatorEventMap {
+  'parse:start': { inputPath: string };
+  'parse:end': { inputPath: string; fileCount: number; durationMs: number };
+  'file:start': { fileId: string; index: number; totalFiles: number };
+  'file:masked': { fileId: string; placeholderCount: number; estimatedTokens: number; durationMs: number };
+  // usage 为本次实际发送的请求的用量，复用检查点或命中缓存的块没有该字段
+  'chunk:translated': { fileId: string; index: number; total: number; status: ChunkTranslationStatus; estimatedTokens: number; durationMs: number; usage?: UsageTotals };
+  'chunk:retry': { fileId: string } & ChunkRetryRecord;
+  'file:replaced': { fileId: string; durationMs: number };
+  // resumed 为 true 表示文件已在检查点中完成，本次直接复用
+  'file:written': { fileId: string; outputPath: string; resumed: boolean; durationMs: number };
+  'file:failed': { fileId: string; error: unknown };
+  // 每个文本块或文件完成后发出
+  'progress': TranslationProgress;
+  'run:end': { outputPath: string; totalFiles: number; durationMs: number };
+}
+
+export type TranslatorEventName = keyof TranslatorEventMap;
+
+// 服务器任务类型: translate 翻译项目; parse 只解析并生成 AST JSON
+export type JobType = 'translate' | 'parse';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// 服务器任务的公开状态 (GET /jobs/:id 的响应)
+export interface JobInfo {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  // 上传的文件名
+  inputName: string;
+  targetLanguage?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // 排队中的任务为 null
+  progress: TranslationProgress | null;
+  error?: string;
+}
+
 // 从 latex-translator.ts (ConfigMaskOptions) - 这是一个内部辅助类型，可以考虑是否提升为核心类型
 // 如果它只在 latex-translator.ts 内部用于合并配置，则可能不需要导出
 // 但如果 MaskingOptions 的默认值也希望由此结构化，可以考虑
@@ -69,7 +803,12 @@ export interface ConfigMaskOptionsForDefaults {
   maskInlineMath: boolean;
   maskDisplayMath: boolean;
   maskComments: boolean;
+  commentPolicy?: CommentPolicy;
   maskPrefix: string;
+  commandArgumentPolicies?: Record<string, CommandArgumentPolicy>;
+  rules?: MaskingRuleSpec[];
+  detectMacros?: boolean;
+  macroActions?: Record<string, MacroAction>;
 }
 
 
@@ -5,6 +5,7 @@
  */
 
 export * from './core.types';
+export * from './provider.types';
 
 // 如果 ast-gen 类型之前是通过项目根的 index.ts 导出的，
 // 并且我们希望保持这种方式从 types/index.ts 统一导出，可以在这里加上：
@@ -0,0 +1,72 @@
+/**
+ * src/types/provider.types.ts
+ * 
+ * 翻译提供者 (TranslationProvider) 相关的类型定义
+ */
+import type { GlossaryEntry, TranslationMemoryMatch } from './core.types';
+
+// 内置的翻译提供者
+export type TranslationProviderName = 'openai' | 'local' | 'deepl';
+
+// 一次翻译请求的上下文，由 TranslationService 构造并传给提供者
+export interface TranslationContext {
+  targetLanguage: string;
+  sourceLanguage?: string;
+  // 附加到提示词末尾的指令 (仅对基于提示词的提供者有效)
+  instructions?: string[];
+  // 本段文本中出现的术语表条目 (仅对基于提示词的提供者有效)
+  glossary?: GlossaryEntry[];
+  // 前一个文本块的原文及译文，仅作为参考，不需要翻译
+  reference?: TranslationReference;
+  // 翻译记忆库中与本段文本相似的原文及译文 (已去除占位符)，仅作为参考
+  memoryMatches?: TranslationMemoryMatch[];
+}
+
+// 滚动上下文：前一个文本块 (已去除占位符并截取末尾部分) 的原文及译文
+export interface TranslationReference {
+  source: string;
+  translation: string;
+}
+
+// 提供者返回的 token 用量
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// 提供者对单个片段的翻译结果
+export interface ProviderTranslation {
+  text: string;
+  usage?: ProviderUsage;
+}
+
+// 所有翻译提供者需实现的统一接口
+export interface TranslationProvider {
+  readonly name: TranslationProviderName | string;
+  readonly model: string;
+  /**
+   * 翻译一组片段，结果顺序与输入一致
+   * @param segments 待翻译的片段 (掩码文本，包含 <ph/> 占位符)
+   * @param context 翻译上下文
+   */
+  translate(segments: string[], context: TranslationContext): Promise<ProviderTranslation[]>;
+}
+
+// 本地模型服务 (Ollama / llama.cpp) 配置
+export interface LocalProviderConfig {
+  baseUrl: string;
+  model: string;
+  // ollama: 使用 /api/chat；llamacpp: 使用 OpenAI 兼容的 /v1/chat/completions
+  api?: 'ollama' | 'llamacpp';
+  temperature?: number;
+  timeout?: number;
+}
+
+// DeepL 风格的机器翻译接口配置
+export interface DeepLConfig {
+  apiKey: string;
+  baseUrl: string;
+  // more / less / default，仅部分目标语言支持
+  formality?: 'more' | 'less' | 'default' | 'prefer_more' | 'prefer_less';
+  timeout?: number;
+}
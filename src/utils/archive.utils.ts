@@ -0,0 +1,238 @@
+/**
+ * src/utils/archive.utils.ts
+ *
+ * 项目归档的读写：读取上传的 .zip、.tar 与 .tar.gz/.tgz 归档，将目录树打包为 .tar.gz。
+ * 只依赖 Node 内置的 zlib，不支持加密和 ZIP64 归档。
+ */
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// 归档中的一个文件，path 为使用 / 分隔的相对路径
+export interface ArchiveEntry {
+  path: string;
+  data: Buffer;
+}
+
+const TAR_BLOCK_SIZE = 512;
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+// 默认的解压后总大小上限 (防止压缩炸弹耗尽内存)
+const DEFAULT_MAX_EXTRACTED_BYTES = 512 * 1024 * 1024;
+// 打包工具附带的元数据文件，不属于项目内容
+const IGNORED_ENTRY_PATTERN = /(^|\/)(__MACOSX|\.DS_Store)(\/|$)/;
+
+/**
+ * 判断文件名是否为支持的归档格式
+ * @param fileName 文件名
+ */
+export function isArchiveFile(fileName: string): boolean {
+  return /\.(zip|tar|tar\.gz|tgz)$/i.test(fileName);
+}
+
+/**
+ * 去掉归档文件名的扩展名，用作解压目录名
+ * @param fileName 归档文件名
+ */
+export function stripArchiveExtension(fileName: string): string {
+  return path.basename(fileName).replace(/\.(zip|tar|tar\.gz|tgz)$/i, '');
+}
+
+/**
+ * 读取归档中的全部文件 (目录项和打包工具的元数据被忽略)
+ * @param buffer 归档内容
+ * @param fileName 归档文件名，用于判断格式
+ * @param maxExtractedBytes 解压后的总大小上限 (字节)
+ * @throws 格式不支持、解压后超过大小上限或条目路径越出归档根目录时抛出错误
+ */
+export function readArchive(buffer: Buffer, fileName: string, maxExtractedBytes: number = DEFAULT_MAX_EXTRACTED_BYTES): ArchiveEntry[] {
+  let entries: ArchiveEntry[];
+  if (/\.zip$/i.test(fileName)) {
+    entries = readZip(buffer, maxExtractedBytes);
+  } else if (/\.(tar\.gz|tgz)$/i.test(fileName)) {
+    entries = readTar(inflateWithLimit(() => zlib.gunzipSync(buffer, { maxOutputLength: maxExtractedBytes }), maxExtractedBytes, fileName));
+  } else if (/\.tar$/i.test(fileName)) {
+    entries = readTar(buffer);
+  } else {
+    throw new Error(`不支持的归档格式: ${fileName}`);
+  }
+  return entries
+    .map(entry => ({ ...entry, path: normalizeEntryPath(entry.path) }))
+    .filter(entry => entry.path && !IGNORED_ENTRY_PATTERN.test(entry.path));
+}
+
+/**
+ * 将文件打包为 .tar.gz
+ * @param entries 归档中的文件
+ */
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    blocks.push(createTarHeader(normalizeEntryPath(entry.path), entry.data.length));
+    blocks.push(entry.data);
+    const padding = (TAR_BLOCK_SIZE - (entry.data.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  // 归档以两个全零块结束
+  blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * 规范化条目路径，拒绝绝对路径和越出根目录的路径 (防止解压时写到任意位置)
+ */
+function normalizeEntryPath(entryPath: string): string {
+  const normalized = path.posix.normalize(entryPath.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+  if (normalized === '.') return '';
+  if (path.posix.isAbsolute(normalized) || /^[A-Za-z]:/.test(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`归档条目路径不合法: ${entryPath}`);
+  }
+  return normalized;
+}
+
+function readTar(buffer: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  // GNU 长文件名 (L) 或 PAX 扩展头 (x) 中给出的路径，作用于下一个条目
+  let pendingPath: string | null = null;
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      pendingPath = data.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      pendingPath = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'))?.[1] ?? pendingPath;
+      continue;
+    }
+    const name = readTarString(header, 0, 100);
+    const prefix = readTarString(header, 345, 155);
+    const entryPath = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+    pendingPath = null;
+    // 只保留普通文件；目录会在写入文件时创建，链接等特殊条目被忽略
+    if (type === '0' || type === '7') {
+      entries.push({ path: entryPath, data: Buffer.from(data) });
+    }
+  }
+  return entries;
+}
+
+function readTarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function createTarHeader(entryPath: string, size: number): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  let name = entryPath;
+  let prefix = '';
+  if (Buffer.byteLength(name) > 100) {
+    // ustar 格式：超长路径拆分为前缀 (最多 155 字节) 和名称 (最多 100 字节)
+    const splitIndex = entryPath.lastIndexOf('/', 155);
+    prefix = splitIndex > 0 ? entryPath.slice(0, splitIndex) : '';
+    name = splitIndex > 0 ? entryPath.slice(splitIndex + 1) : entryPath;
+    if (!prefix || Buffer.byteLength(prefix) > 155 || Buffer.byteLength(name) > 100) {
+      throw new Error(`路径过长，无法写入 tar 归档: ${entryPath}`);
+    }
+  }
+  header.write(name, 0, 100, 'utf8');
+  header.write('0000644\0', 100, 8, 'ascii');
+  header.write('0000000\0', 108, 8, 'ascii');
+  header.write('0000000\0', 116, 8, 'ascii');
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 12, 'ascii');
+  header.write(`${Math.floor(Date.now() / 1000).toString(8).padStart(11, '0')}\0`, 136, 12, 'ascii');
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+  // 校验和按校验和字段为空格时计算
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+}
+
+function readZip(buffer: Buffer, maxExtractedBytes: number): ArchiveEntry[] {
+  // 从末尾向前查找中央目录结束记录 (其后最多有 65535 字节的注释)
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('无效的 zip 归档: 未找到中央目录');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ArchiveEntry[] = [];
+  let extractedBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('无效的 zip 归档: 中央目录已损坏');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    // 标志位 11 表示文件名为 UTF-8，否则按 latin1 读取
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString(flags & 0x800 ? 'utf8' : 'latin1');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`不支持加密的 zip 条目: ${name}`);
+    }
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`无效的 zip 归档: 条目 ${name} 的本地文件头已损坏`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+    // 先按中央目录中声明的大小检查总量，解压时再限制每个条目不超过声明的大小
+    extractedBytes += uncompressedSize;
+    if (extractedBytes > maxExtractedBytes) {
+      throw new Error(`归档解压后超过大小上限 ${maxExtractedBytes} 字节`);
+    }
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(compressed);
+    } else if (method === 8) {
+      data = inflateWithLimit(() => zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(1, uncompressedSize) }), uncompressedSize, name);
+    } else {
+      throw new Error(`不支持的 zip 压缩方式 ${method}: ${name}`);
+    }
+    if (data.length !== uncompressedSize) {
+      throw new Error(`无效的 zip 归档: 条目 ${name} 的大小与中央目录不符`);
+    }
+    entries.push({ path: name, data });
+  }
+  return entries;
+}
+
+/**
+ * 解压并在输出超过上限时给出可读的错误 (zlib 超过 maxOutputLength 时抛出 RangeError)
+ */
+function inflateWithLimit(inflate: () => Buffer, limit: number, name: string): Buffer {
+  try {
+    return inflate();
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`${name} 解压后超过大小上限 ${limit} 字节`);
+    }
+    throw error;
+  }
+}
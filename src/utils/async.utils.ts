@@ -0,0 +1,37 @@
+/**
+ * src/utils/async.utils.ts
+ * 
+ * 异步流程相关的辅助函数。
+ */
+
+/**
+ * 等待指定的毫秒数
+ * @param ms 毫秒
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 以有限并发处理数组中的每一项，结果按输入顺序返回
+ * @param items 输入项
+ * @param concurrency 最大并发数 (小于 1 时按 1 处理)
+ * @param worker 处理函数
+ * @returns 与输入顺序一致的结果数组
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,124 @@
+/**
+ * src/utils/bilingual.utils.ts
+ *
+ * 双语对照输出：将原文段落与译文段落对齐，生成交替排列或 paracol 双栏的掩码文本，
+ * 并在导言区添加所需的宏包和样式命令。
+ */
+import type { BilingualLayout, BilingualSegment } from '../types';
+import { hasPackage, insertIntoPreamble } from './latex.utils';
+import { stripPlaceholders } from './placeholder.utils';
+
+// 原文段落的样式命令，在导言区通过 \providecommand 定义，用户可在自己的导言区覆盖
+export const BILINGUAL_SOURCE_STYLE_COMMAND = '\\bilingualsourcestyle';
+
+const PARAGRAPH_SEPARATOR = /\n\s*\n/;
+// 占位符标签 (成对占位符中的文本保留)
+const PLACEHOLDER_TAG_REGEX = /<\/?ph\b[^<>]*>/g;
+// 含有这些结构的段落不能安全地复制或放入分组，只输出译文
+const STRUCTURAL_PATTERN = /\\(?:begin|end)\s*\{|\\documentclass|\\usepackage|\\item\b|\\(?:input|include)\b/;
+
+export interface BilingualBuildOptions {
+  layout: BilingualLayout;
+  // 原文副本中是否保留某个占位符 (如 \label、编号公式在副本中重复会导致编号或引用冲突)
+  keepPlaceholderInSource?: (placeholderId: string) => boolean;
+}
+
+/**
+ * 将文本块级别的原文/译文对拆成段落级别的对照。
+ * 块内段落数一致时逐段对齐，否则整块作为一个对照单元。
+ * @param chunks 按顺序排列的原文/译文块
+ */
+export function alignBilingualSegments(chunks: BilingualSegment[]): BilingualSegment[] {
+  const segments: BilingualSegment[] = [];
+  for (const chunk of chunks) {
+    const sourceParagraphs = chunk.source.split(PARAGRAPH_SEPARATOR);
+    const translatedParagraphs = chunk.translation.split(PARAGRAPH_SEPARATOR);
+    if (sourceParagraphs.length === translatedParagraphs.length) {
+      sourceParagraphs.forEach((source, i) => segments.push({ source, translation: translatedParagraphs[i] }));
+    } else {
+      segments.push(chunk);
+    }
+  }
+  return segments;
+}
+
+/**
+ * 生成双语对照的掩码文本。
+ * 只有正文中含有可读文字且译文与原文不同的段落才会输出原文副本；
+ * 导言区、环境边界等结构性段落只输出译文，保证文档可编译。
+ * @param chunks 按顺序排列的原文/译文块
+ * @param options 布局及占位符过滤
+ * @returns 仍包含占位符的双语掩码文本
+ */
+export function buildBilingualText(chunks: BilingualSegment[], options: BilingualBuildOptions): string {
+  const segments = alignBilingualSegments(chunks);
+  const fullSource = chunks.map(chunk => chunk.source).join('\n\n');
+  // 没有 \documentclass 的文件 (被 \input 的章节) 整体视为正文
+  let inBody = !/\\documentclass/.test(fullSource);
+  const output: string[] = [];
+  let pairRun: BilingualSegment[] = [];
+
+  const flushRun = () => {
+    if (pairRun.length === 0) return;
+    output.push(renderPairRun(pairRun, options));
+    pairRun = [];
+  };
+
+  for (const segment of segments) {
+    if (isBilingualCandidate(segment, inBody, options)) {
+      pairRun.push(segment);
+    } else {
+      flushRun();
+      output.push(segment.translation);
+    }
+    if (/\\begin\s*\{document\}/.test(segment.source)) {
+      inBody = true;
+    }
+  }
+  flushRun();
+  return output.join('\n\n');
+}
+
+/**
+ * 在导言区添加双语输出所需的宏包和原文样式命令
+ * @param texContent 替换占位符后的 LaTeX 文档
+ * @param layout 布局
+ * @param sourceStyle 原文段落的样式 (例如 \color{gray}\small)，为空表示不加样式
+ */
+export function addBilingualSupport(texContent: string, layout: BilingualLayout, sourceStyle: string): string {
+  const lines: string[] = [];
+  if (/\\color\b/.test(sourceStyle) && !hasPackage(texContent, 'xcolor') && !hasPackage(texContent, 'color')) {
+    lines.push('\\usepackage{xcolor}');
+  }
+  if (layout === 'paracol' && !hasPackage(texContent, 'paracol')) {
+    lines.push('\\usepackage{paracol}');
+  }
+  lines.push(`\\providecommand{${BILINGUAL_SOURCE_STYLE_COMMAND}}{${sourceStyle}}`);
+  return insertIntoPreamble(texContent, lines);
+}
+
+function isBilingualCandidate(segment: BilingualSegment, inBody: boolean, options: BilingualBuildOptions): boolean {
+  if (!inBody || segment.source.trim() === segment.translation.trim()) return false;
+  if (STRUCTURAL_PATTERN.test(segment.source) || STRUCTURAL_PATTERN.test(segment.translation)) return false;
+  // 原文副本去掉不保留的占位符 (如章节标题) 和命令后仍有文字才值得对照
+  const prose = filterSource(segment.source, options).replace(PLACEHOLDER_TAG_REGEX, ' ').replace(/\\[A-Za-z@]+\*?/g, ' ');
+  return /\p{L}/u.test(prose);
+}
+
+function filterSource(source: string, options: BilingualBuildOptions): string {
+  const keep = options.keepPlaceholderInSource;
+  return keep ? stripPlaceholders(source, id => !keep(id)) : source;
+}
+
+function renderSource(source: string, options: BilingualBuildOptions): string {
+  // \par} 单独成行：原文段落可能以 % 结尾，同一行会把它注释掉
+  return `{${BILINGUAL_SOURCE_STYLE_COMMAND} ${filterSource(source, options).trim()}\n\\par}`;
+}
+
+function renderPairRun(run: BilingualSegment[], options: BilingualBuildOptions): string {
+  if (options.layout === 'paracol') {
+    const pairs = run.map(segment => `${renderSource(segment.source, options)}\n\n\\switchcolumn\n\n${segment.translation.trim()}`);
+    return `\\begin{paracol}{2}\n${pairs.join('\n\n\\switchcolumn*\n\n')}\n\\end{paracol}`;
+  }
+  return run.map(segment => `${renderSource(segment.source, options)}\n\n${segment.translation.trim()}`).join('\n\n');
+}
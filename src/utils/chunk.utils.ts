@@ -0,0 +1,216 @@
+/**
+ * src/utils/chunk.utils.ts
+ *
+ * 按 token 预算将掩码文本切分为翻译块。优先在段落之间切分，其次在句子之间，
+ * 最后在单词之间；占位符标签和成对占位符的整个片段始终作为不可分割的单元。
+ */
+import type { TextChunk } from '../types';
+import { estimateTokens } from './token.utils';
+import { tokenizePlaceholders } from './placeholder.utils';
+import { splitOuterWhitespace } from './source.utils';
+
+// 捕获分隔符本身，以便原样还原空行和缩进
+const PARAGRAPH_SEPARATOR = /(\n\s*\n)/;
+// 普通文本中的切分单元：单词 (含其后的空白)、中日韩句末标点处断开
+const PLAIN_ATOM_PATTERN = /[^\s。！？]+[。！？]*\s*|[。！？]+\s*|\s+/g;
+// 句末：西文标点后跟空白，或中日韩句末标点
+const SENTENCE_END_PATTERN = /(?:[.!?]["'”’)\]]*\s+|[。！？]["'”’)\]]*\s*)$/;
+
+interface Atom {
+  text: string;
+  // 占位符或成对占位符片段，不能再拆分
+  protected: boolean;
+  sentenceEnd: boolean;
+}
+
+/**
+ * 将文本切分为不超过 token 预算的翻译块
+ * @param text 掩码后的文本
+ * @param maxTokens 每块的 token 预算 (按 estimateTokens 估算)
+ * @returns 翻译块 (不含首尾空白)；块之间以及文本开头和结尾的空白原样保存在 separator 和 leading 中，
+ *          用 joinChunks 连接即可还原原文 (只含空白的文本没有翻译块)
+ */
+export function splitTextIntoChunks(text: string, maxTokens: number): TextChunk[] {
+  const budget = Math.max(1, Math.floor(maxTokens));
+  const chunks: TextChunk[] = [];
+  // 上一块之后尚未归入分隔符的空白
+  let gap = '';
+  let current = '';
+  let currentBefore = '';
+  const emit = (chunkText: string, before: string) => {
+    if (chunks.length > 0) {
+      chunks[chunks.length - 1].separator = before;
+      chunks.push({ text: chunkText, separator: '' });
+    } else {
+      chunks.push({ text: chunkText, separator: '', ...(before ? { leading: before } : {}) });
+    }
+  };
+  const flush = () => {
+    if (current) emit(current, currentBefore);
+    current = '';
+    currentBefore = '';
+  };
+
+  const parts = text.split(PARAGRAPH_SEPARATOR);
+  // 偶数下标为段落，奇数下标为其后的分隔符
+  for (let i = 0; i < parts.length; i += 2) {
+    const [leading, paragraph, trailing] = splitOuterWhitespace(parts[i]);
+    gap += leading;
+    if (paragraph && estimateTokens(paragraph) > budget) {
+      flush();
+      // 段落内部的块之间保留原有的空白 (中日韩文本可能没有空白)
+      for (const piece of splitParagraph(paragraph, budget)) {
+        const [pieceLeading, pieceText, pieceTrailing] = splitOuterWhitespace(piece);
+        gap += pieceLeading;
+        if (pieceText) {
+          emit(pieceText, gap);
+          gap = '';
+        }
+        gap += pieceTrailing;
+      }
+    } else if (paragraph) {
+      if (current && estimateTokens(`${current}${gap}${paragraph}`) > budget) {
+        flush();
+      }
+      if (current) {
+        current += gap + paragraph;
+      } else {
+        current = paragraph;
+        currentBefore = gap;
+      }
+      gap = '';
+    }
+    gap += trailing + (parts[i + 1] || '');
+  }
+  flush();
+  if (chunks.length > 0) {
+    chunks[chunks.length - 1].separator = gap;
+  }
+  return chunks;
+}
+
+/**
+ * 按顺序用每块的分隔符连接翻译块，第一块前加上文本开头的空白
+ * @param chunks 翻译块 (text 可以是译文)
+ */
+export function joinChunks(chunks: TextChunk[]): string {
+  return chunks.map(chunk => `${chunk.leading || ''}${chunk.text}${chunk.separator}`).join('');
+}
+
+/**
+ * 截取文本末尾不超过 token 预算的部分，按段落、句子或单词对齐
+ * @param text 文本
+ * @param maxTokens token 预算
+ */
+export function takeTrailingText(text: string, maxTokens: number): string {
+  const chunks = splitTextIntoChunks(text, maxTokens);
+  let start = chunks.length;
+  let tokens = 0;
+  while (start > 0 && tokens + estimateTokens(chunks[start - 1].text) <= maxTokens) {
+    tokens += estimateTokens(chunks[--start].text);
+  }
+  // 最后一块本身超过预算 (例如不可拆分的长片段) 时仍保留它
+  return joinChunks(chunks.slice(Math.min(start, chunks.length - 1)));
+}
+
+/**
+ * 切分超过预算的段落：先按句子，再按单词打包
+ */
+function splitParagraph(paragraph: string, budget: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  const pushAtom = (atomText: string) => {
+    if (current && estimateTokens(current + atomText) > budget) {
+      pieces.push(current);
+      current = '';
+    }
+    current += atomText;
+  };
+
+  for (const sentence of groupSentences(splitAtoms(paragraph))) {
+    const sentenceText = sentence.map(atom => atom.text).join('');
+    if (estimateTokens(sentenceText) <= budget) {
+      pushAtom(sentenceText);
+      continue;
+    }
+    for (const atom of sentence) {
+      if (atom.protected || estimateTokens(atom.text) <= budget) {
+        // 超过预算的占位符片段也保持完整
+        pushAtom(atom.text);
+      } else {
+        splitByCharacters(atom.text, budget).forEach(pushAtom);
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * 将段落切分为单元：占位符 (含成对占位符的完整片段) 与普通文本中的单词
+ */
+function splitAtoms(paragraph: string): Atom[] {
+  const atoms: Atom[] = [];
+  const pushPlain = (plain: string) => {
+    for (const match of plain.matchAll(PLAIN_ATOM_PATTERN)) {
+      atoms.push({ text: match[0], protected: false, sentenceEnd: SENTENCE_END_PATTERN.test(match[0]) });
+    }
+  };
+
+  let cursor = 0;
+  let depth = 0;
+  let spanStart = 0;
+  for (const token of tokenizePlaceholders(paragraph)) {
+    if (depth === 0) {
+      pushPlain(paragraph.slice(cursor, token.start));
+      spanStart = token.start;
+    }
+    if (token.kind === 'open') {
+      depth++;
+    } else if (token.kind === 'close' && depth > 0) {
+      depth--;
+    }
+    if (depth === 0) {
+      atoms.push({ text: paragraph.slice(spanStart, token.end), protected: true, sentenceEnd: false });
+      cursor = token.end;
+    }
+  }
+  if (depth > 0) {
+    // 未闭合的成对占位符：其后的文本整体保留
+    atoms.push({ text: paragraph.slice(spanStart), protected: true, sentenceEnd: false });
+  } else {
+    pushPlain(paragraph.slice(cursor));
+  }
+  return atoms;
+}
+
+function groupSentences(atoms: Atom[]): Atom[][] {
+  const sentences: Atom[][] = [];
+  let current: Atom[] = [];
+  for (const atom of atoms) {
+    current.push(atom);
+    if (atom.sentenceEnd) {
+      sentences.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) sentences.push(current);
+  return sentences;
+}
+
+/**
+ * 最后手段：按字符切分单个超长单词 (例如没有标点的长段中文)
+ */
+function splitByCharacters(text: string, budget: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of Array.from(text)) {
+    if (current && estimateTokens(current + char) > budget) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
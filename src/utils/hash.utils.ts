@@ -0,0 +1,15 @@
+/**
+ * src/utils/hash.utils.ts
+ * 
+ * 内容哈希相关的辅助函数。
+ */
+import { createHash } from 'crypto';
+
+/**
+ * 计算字符串的 SHA-256 摘要。
+ * @param content 要计算摘要的内容
+ * @returns 十六进制摘要字符串
+ */
+export function sha256(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
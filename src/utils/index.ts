@@ -4,4 +4,24 @@
  * 导出所有通用工具函数。
  */
 
-export * from './latex.utils'; 
\ No newline at end of file
+export * from './latex.utils';
+export * from './hash.utils';
+export * from './placeholder.utils';
+export * from './token.utils';
+export * from './async.utils';
+export * from './rate-limit.utils';
+export * from './language.utils';
+export * from './bilingual.utils';
+export * from './chunk.utils';
+export * from './structure.utils';
+export * from './language-pack.utils';
+export * from './archive.utils';
+export * from './progress.utils';
+export * from './usage.utils';
+export * from './masking-rule.utils';
+export * from './macro.utils';
+export * from './source.utils';
+export * from './xliff.utils';
+export * from './translation-memory.utils';
+export * from './tmx.utils';
+export * from './review-report.utils';
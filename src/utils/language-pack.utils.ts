@@ -0,0 +1,208 @@
+/**
+ * src/utils/language-pack.utils.ts
+ *
+ * 目标语言的导言区配置 (语言包)：按目标语言选择所需的宏包、字体设置和编译引擎，
+ * 检测文档已有的语言支持与冲突的宏包，并在主文件中写入 % !TEX program 魔法注释。
+ */
+import type { LanguagePack, LanguagePackResult, LatexEngine } from '../types';
+import { toLanguageCode } from './language.utils';
+import { hasPackage, getPackageOptions, getDocumentClass, insertIntoPreamble } from './latex.utils';
+
+const CTEX_CLASSES = ['ctexart', 'ctexrep', 'ctexbook', 'ctexbeamer'];
+const CJK_CONFLICTS = ['CJK', 'CJKutf8'];
+
+function babelPack(code: string, babelLanguage: string, fontEncoding: string = 'T1'): LanguagePack {
+  return {
+    code,
+    engine: 'pdflatex',
+    preamble: [`\\usepackage[${fontEncoding}]{fontenc}`, `\\usepackage[${babelLanguage}]{babel}`],
+    babelLanguage,
+    conflicts: ['polyglossia']
+  };
+}
+
+// 内置语言包，键为语言代码
+const LANGUAGE_PACKS: Record<string, LanguagePack> = {
+  'zh-Hans': {
+    code: 'zh-Hans',
+    engine: 'xelatex',
+    preamble: ['\\usepackage[UTF8]{ctex}'],
+    providedByPackages: ['ctex'],
+    providedByClasses: CTEX_CLASSES,
+    conflicts: CJK_CONFLICTS
+  },
+  'zh-Hant': {
+    code: 'zh-Hant',
+    engine: 'xelatex',
+    preamble: [
+      '\\usepackage{xeCJK}',
+      '\\setCJKmainfont{Noto Serif CJK TC}',
+      '\\setCJKsansfont{Noto Sans CJK TC}',
+      '\\setCJKmonofont{Noto Sans Mono CJK TC}'
+    ],
+    providedByPackages: ['xeCJK', 'ctex'],
+    providedByClasses: CTEX_CLASSES,
+    conflicts: CJK_CONFLICTS
+  },
+  'ja': {
+    code: 'ja',
+    engine: 'xelatex',
+    preamble: [
+      '\\usepackage{xeCJK}',
+      '\\setCJKmainfont{Noto Serif CJK JP}',
+      '\\setCJKsansfont{Noto Sans CJK JP}',
+      '\\setCJKmonofont{Noto Sans Mono CJK JP}'
+    ],
+    providedByPackages: ['xeCJK', 'luatexja', 'luatexja-preset', 'luatexja-fontspec'],
+    providedByClasses: ['ltjsarticle', 'ltjsreport', 'ltjsbook', 'bxjsarticle', 'bxjsreport', 'bxjsbook'],
+    conflicts: [...CJK_CONFLICTS, 'kotex']
+  },
+  'ko': {
+    code: 'ko',
+    engine: 'xelatex',
+    preamble: ['\\usepackage{kotex}'],
+    providedByPackages: ['kotex', 'xetexko', 'luatexko'],
+    conflicts: [...CJK_CONFLICTS, 'xeCJK', 'ctex']
+  },
+  'ar': {
+    code: 'ar',
+    engine: 'xelatex',
+    preamble: [
+      '\\usepackage{polyglossia}',
+      '\\setmainlanguage{arabic}',
+      '\\setotherlanguage{english}',
+      '\\newfontfamily\\arabicfont[Script=Arabic]{Amiri}'
+    ],
+    babelLanguage: 'arabic',
+    conflicts: ['babel', 'arabtex'],
+    rtl: true
+  },
+  'ru': babelPack('ru', 'russian', 'T2A'),
+  'de': babelPack('de', 'ngerman'),
+  'fr': babelPack('fr', 'french'),
+  'es': babelPack('es', 'spanish'),
+  'pt': babelPack('pt', 'portuguese'),
+  'it': babelPack('it', 'italian'),
+  'en': { code: 'en', engine: 'pdflatex', preamble: [] }
+};
+
+// 未收录的语言：使用 Unicode 引擎和 fontspec，字体需按语言自行配置
+const FALLBACK_PACK: Omit<LanguagePack, 'code'> = {
+  engine: 'xelatex',
+  preamble: ['\\usepackage{fontspec}'],
+  providedByPackages: ['fontspec', 'polyglossia', 'xeCJK', 'ctex']
+};
+
+// 只能在 XeLaTeX/LuaLaTeX 下使用的宏包
+const UNICODE_ENGINE_PACKAGES = ['fontspec', 'xeCJK', 'polyglossia', 'unicode-math', 'xltxtra', 'xunicode'];
+// 只能在 LuaLaTeX 下使用的宏包
+const LUA_ENGINE_PACKAGES = ['luatexja', 'luatexja-preset', 'luatexja-fontspec', 'luacode', 'luatexko'];
+// 可以用不同选项多次加载的宏包
+const MULTI_LOAD_PACKAGES = ['fontenc'];
+const ENGINES: LatexEngine[] = ['pdflatex', 'xelatex', 'lualatex'];
+const MAGIC_COMMENT_PATTERN = /^\s*%\s*!TEX\s+(?:TS-)?program\s*=\s*(\S+)/im;
+const USEPACKAGE_LINE_PATTERN = /^\\usepackage\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}\s*$/;
+
+/**
+ * 按目标语言获取语言包
+ * @param targetLanguage 目标语言名称或代码
+ * @param overrides 配置中按语言代码覆盖的字段 (output.languagePacks)
+ */
+export function getLanguagePack(targetLanguage: string, overrides: Record<string, Partial<LanguagePack>> = {}): LanguagePack {
+  const code = toLanguageCode(targetLanguage) || targetLanguage;
+  const base = LANGUAGE_PACKS[code] || { ...FALLBACK_PACK, code };
+  return { ...base, ...(overrides[code] || overrides[targetLanguage] || {}), code };
+}
+
+/**
+ * 列出内置语言包的语言代码
+ */
+export function getLanguagePackCodes(): string[] {
+  return Object.keys(LANGUAGE_PACKS);
+}
+
+/**
+ * 对文档应用语言包：文档尚未支持该语言且没有冲突时插入导言区配置，并写入编译引擎的魔法注释。
+ * 没有 \documentclass 的文件 (被 \input 的章节) 原样返回。
+ * @param texContent 替换占位符后的 LaTeX 文档
+ * @param pack 语言包
+ */
+export function applyLanguagePack(texContent: string, pack: LanguagePack): LanguagePackResult {
+  const documentClass = getDocumentClass(texContent);
+  if (!documentClass) {
+    return { content: texContent, applied: false, engine: pack.engine, conflicts: [] };
+  }
+
+  let content = texContent;
+  let applied = false;
+  let conflicts: string[] = [];
+  if (!isLanguageProvided(texContent, documentClass, pack)) {
+    conflicts = findConflicts(texContent, pack);
+    if (conflicts.length === 0) {
+      const lines = pack.preamble.filter(line => !isPackageLineRedundant(texContent, line));
+      content = insertIntoPreamble(content, lines);
+      applied = lines.length > 0;
+    }
+  }
+
+  const engine = selectEngine(content, pack);
+  if (engine !== 'pdflatex' && !MAGIC_COMMENT_PATTERN.test(content)) {
+    content = `% !TEX program = ${engine}\n${content}`;
+  }
+  return { content, applied, engine, conflicts };
+}
+
+/**
+ * 选择编译引擎：已有魔法注释时沿用；文档使用了 Unicode 引擎专用宏包时不降级为 pdflatex
+ */
+export function selectEngine(texContent: string, pack: LanguagePack): LatexEngine {
+  const magic = MAGIC_COMMENT_PATTERN.exec(texContent)?.[1].toLowerCase() as LatexEngine | undefined;
+  if (magic && ENGINES.includes(magic)) return magic;
+  const documentClass = getDocumentClass(texContent) || '';
+  if (LUA_ENGINE_PACKAGES.some(name => hasPackage(texContent, name)) || /^ltjs?/.test(documentClass)) {
+    return 'lualatex';
+  }
+  if (pack.engine === 'pdflatex' && UNICODE_ENGINE_PACKAGES.some(name => hasPackage(texContent, name))) {
+    return 'xelatex';
+  }
+  return pack.engine;
+}
+
+function isLanguageProvided(texContent: string, documentClass: string, pack: LanguagePack): boolean {
+  if ((pack.providedByPackages || []).some(name => hasPackage(texContent, name))) return true;
+  if ((pack.providedByClasses || []).includes(documentClass)) return true;
+  if (!pack.babelLanguage) return false;
+  const classOptions = /\\documentclass\s*\[([^\]]*)\]/.exec(texContent)?.[1].split(',').map(option => option.trim()) || [];
+  const babelOptions = getPackageOptions(texContent, 'babel') || [];
+  const mainLanguagePattern = new RegExp(`\\\\set(?:main|default)language\\s*(?:\\[[^\\]]*\\])?\\s*\\{${pack.babelLanguage}\\}`);
+  return [...classOptions, ...babelOptions].includes(pack.babelLanguage) || mainLanguagePattern.test(texContent);
+}
+
+/**
+ * 查找冲突：已加载语言包声明冲突的宏包，或语言包需要的宏包已用不同选项加载 (会导致 Option clash)
+ */
+function findConflicts(texContent: string, pack: LanguagePack): string[] {
+  const conflicts = (pack.conflicts || []).filter(name => hasPackage(texContent, name));
+  for (const line of pack.preamble) {
+    const match = USEPACKAGE_LINE_PATTERN.exec(line.trim());
+    if (!match || !match[1]) continue;
+    const name = match[2].trim();
+    const loadedOptions = getPackageOptions(texContent, name);
+    if (!loadedOptions || MULTI_LOAD_PACKAGES.includes(name)) continue;
+    const required = match[1].split(',').map(option => option.trim());
+    if (!required.every(option => loadedOptions.includes(option))) {
+      conflicts.push(`${name} (已使用选项 [${loadedOptions.join(',')}] 加载)`);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * 语言包中的 \usepackage 行对应的宏包已被加载 (且不是可多次加载的宏包) 时跳过该行
+ */
+function isPackageLineRedundant(texContent: string, line: string): boolean {
+  const match = USEPACKAGE_LINE_PATTERN.exec(line.trim());
+  if (!match) return false;
+  const name = match[2].trim();
+  return !MULTI_LOAD_PACKAGES.includes(name) && hasPackage(texContent, name);
+}
@@ -0,0 +1,62 @@
+/**
+ * src/utils/language.utils.ts
+ * 
+ * 语言名称与语言代码之间的转换。配置和命令行中的语言通常是自然语言名称 (如 "简体中文")。
+ */
+
+// 语言代码 (BCP 47) 及其常见名称，名称比较时忽略大小写和空白
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  'zh-Hans': ['简体中文', '中文', '汉语', '简中', 'chinese', 'simplified chinese', 'zh', 'zh-cn', 'zh-hans'],
+  'zh-Hant': ['繁體中文', '繁体中文', '繁中', 'traditional chinese', 'zh-tw', 'zh-hk', 'zh-hant'],
+  'en': ['英文', '英语', 'english', 'en', 'en-us', 'en-gb'],
+  'ja': ['日文', '日语', '日本語', 'japanese', 'ja', 'jp'],
+  'ko': ['韩文', '韩语', '한국어', 'korean', 'ko', 'kr'],
+  'ru': ['俄文', '俄语', 'русский', 'russian', 'ru'],
+  'ar': ['阿拉伯文', '阿拉伯语', 'العربية', 'arabic', 'ar'],
+  'de': ['德文', '德语', 'deutsch', 'german', 'de'],
+  'fr': ['法文', '法语', 'français', 'francais', 'french', 'fr'],
+  'es': ['西班牙文', '西班牙语', 'español', 'espanol', 'spanish', 'es'],
+  'pt': ['葡萄牙文', '葡萄牙语', 'português', 'portugues', 'portuguese', 'pt', 'pt-br'],
+  'it': ['意大利文', '意大利语', 'italiano', 'italian', 'it']
+};
+
+// 各语言使用的文字 (Unicode Script 名称)，未列出的语言使用拉丁字母
+const LANGUAGE_SCRIPTS: Record<string, string[]> = {
+  'zh-Hans': ['Han'],
+  'zh-Hant': ['Han'],
+  'ja': ['Han', 'Hiragana', 'Katakana'],
+  'ko': ['Hangul', 'Han'],
+  'ru': ['Cyrillic'],
+  'ar': ['Arabic']
+};
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+/**
+ * 将语言名称转换为语言代码
+ * @param language 语言名称或代码
+ * @returns BCP 47 语言代码，无法识别时返回 undefined
+ */
+export function toLanguageCode(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  const normalized = normalizeName(language);
+  for (const [code, aliases] of Object.entries(LANGUAGE_ALIASES)) {
+    if (aliases.some(alias => normalizeName(alias) === normalized)) {
+      return code;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 获取语言使用的文字
+ * @param language 语言名称或代码
+ * @returns Unicode Script 名称，无法识别语言时返回空数组
+ */
+export function getLanguageScripts(language: string | undefined): string[] {
+  const code = toLanguageCode(language);
+  if (!code) return [];
+  return LANGUAGE_SCRIPTS[code] || ['Latin'];
+}
@@ -18,6 +18,7 @@ export function isTexFile(filePath: string, extensions: string[] = ['.tex', '.lt
 
 /**
  * 向 LaTeX 内容中添加中文支持包。
+ * 翻译流程已改为按目标语言应用语言包 (见 language-pack.utils.ts)，此函数保留供只需中文支持的调用方使用。
  * @param texContent LaTeX 文档内容
  * @returns 添加了 ctex 包（如果需要）的 LaTeX 内容
  */
@@ -32,7 +33,63 @@ export function addChineseSupport(texContent: string): string {
     return texContent;
   }
 
-  // 2. 逐行分析以找到最佳插入点
+  return insertIntoPreamble(texContent, ['\\usepackage[UTF8]{ctex}']);
+}
+
+/**
+ * 检测文档是否已加载指定宏包 (支持 \usepackage[opts]{a,b} 形式)。
+ * @param texContent LaTeX 文档内容
+ * @param packageName 宏包名
+ */
+export function hasPackage(texContent: string, packageName: string): boolean {
+  const usePackagePattern = /\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+  for (const match of texContent.matchAll(usePackagePattern)) {
+    if (match[1].split(',').map(name => name.trim()).includes(packageName)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 获取文档加载指定宏包时使用的选项 (多次加载时合并)。
+ * @param texContent LaTeX 文档内容
+ * @param packageName 宏包名
+ * @returns 选项列表；未加载该宏包时返回 null
+ */
+export function getPackageOptions(texContent: string, packageName: string): string[] | null {
+  const usePackagePattern = /\\(?:usepackage|RequirePackage)\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/g;
+  let options: string[] | null = null;
+  for (const match of texContent.matchAll(usePackagePattern)) {
+    if (match[2].split(',').map(name => name.trim()).includes(packageName)) {
+      options = [...(options || []), ...(match[1] || '').split(',').map(option => option.trim()).filter(Boolean)];
+    }
+  }
+  return options;
+}
+
+/**
+ * 获取文档类名称。
+ * @param texContent LaTeX 文档内容
+ * @returns 文档类名称；没有 \documentclass 时返回 null
+ */
+export function getDocumentClass(texContent: string): string | null {
+  const match = /^[^%\n]*\\documentclass\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/m.exec(texContent);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * 在导言区插入若干行：优先插入到最后一个 \usepackage 之后，否则插入到 \documentclass 之后。
+ * @param texContent LaTeX 文档内容
+ * @param newLines 要插入的行
+ * @returns 插入后的内容；没有 \documentclass 的文件 (非主文件或片段) 原样返回
+ */
+export function insertIntoPreamble(texContent: string, newLines: string[]): string {
+  if (newLines.length === 0) {
+    return texContent;
+  }
+
+  // 逐行分析以找到最佳插入点
   const lines = texContent.split('\n');
   let docClassIndex = -1;        // \documentclass 所在的行号
   let lastUsePackageIndex = -1;  // 最后一个 \usepackage 所在的行号
@@ -45,35 +102,24 @@ export function addChineseSupport(texContent: string): string {
     if (line.startsWith('\\usepackage')) {
       lastUsePackageIndex = i;
     }
+    if (line.startsWith('\\begin{document}')) {
+      break;
+    }
   }
 
-  // 3. 如果没有找到 \documentclass，则假定为非主文件或片段，不作修改
+  // 如果没有找到 \documentclass，则假定为非主文件或片段，不作修改
   if (docClassIndex === -1) {
     return texContent;
   }
 
-  const ctexPackageLine = '\\usepackage[UTF8]{ctex}';
-  let insertionLineNumber = -1;
-
-  // 4. 决定插入行号
-  //    优先插入到最后一个 \usepackage 之后
-  if (lastUsePackageIndex !== -1) {
-    // 确保 \usepackage 在 \documentclass 之后 (正常的文档结构)
-    if (lastUsePackageIndex > docClassIndex) {
-      insertionLineNumber = lastUsePackageIndex + 1;
-    } else {
-      // 如果 \usepackage 出现在 \documentclass 之前或同一行 (不太规范，但做兼容)
-      // 此时还是选择在 \documentclass 后插入，更安全
-      insertionLineNumber = docClassIndex + 1;
-    }
-  } else {
-    // 没有找到 \usepackage，则插入到 \documentclass 之后
-    insertionLineNumber = docClassIndex + 1;
-  }
+  // 优先插入到最后一个 \usepackage 之后；
+  // 如果 \usepackage 出现在 \documentclass 之前 (不太规范，但做兼容)，则插入到 \documentclass 之后
+  const insertionLineNumber = lastUsePackageIndex > docClassIndex
+    ? lastUsePackageIndex + 1
+    : docClassIndex + 1;
 
-  // 5. 插入 ctex 包声明
-  //    如果 insertionLineNumber 正好是 lines.length，splice 会将其添加到末尾
-  lines.splice(insertionLineNumber, 0, ctexPackageLine);
+  // 如果 insertionLineNumber 正好是 lines.length，splice 会将其添加到末尾
+  lines.splice(insertionLineNumber, 0, ...newLines);
 
   return lines.join('\n');
 }
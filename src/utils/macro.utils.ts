@@ -0,0 +1,210 @@
+/**
+ * src/utils/macro.utils.ts
+ *
+ * 项目自定义宏的识别与分类：从 AST 中找出 \newcommand、\DeclareMathOperator 等定义，
+ * 按定义内容判断宏只用于数学、产生正文文本，还是影响文档结构，并给出默认的处理方式。
+ */
+import type { Ast, ProjectAST } from 'ast-gen';
+import { toString } from '@unified-latex/unified-latex-util-to-string';
+import type { MacroAction, MacroDefinition, MacroKind } from '../types';
+
+// 定义宏的命令
+const DEFINITION_COMMANDS = ['newcommand', 'renewcommand', 'providecommand', 'DeclareRobustCommand', 'DeclareMathOperator'];
+
+// 只在数学模式中有意义的命令
+const MATH_MACROS = new Set([
+  'mathbb', 'mathcal', 'mathfrak', 'mathscr', 'mathrm', 'mathbf', 'mathsf', 'mathit', 'mathtt', 'boldsymbol', 'bm',
+  'operatorname', 'operatornamewithlimits', 'ensuremath', 'frac', 'dfrac', 'tfrac', 'sqrt', 'left', 'right', 'middle',
+  'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'lVert', 'rVert', 'lvert', 'rvert', '|',
+  'langle', 'rangle', 'lfloor', 'rfloor', 'lceil', 'rceil', 'mid', 'cdot', 'cdots', 'ldots', 'times', 'sum', 'prod',
+  'int', 'oint', 'infty', 'partial', 'nabla', 'hat', 'widehat', 'bar', 'overline', 'tilde', 'widetilde', 'vec',
+  'dot', 'ddot', 'leq', 'geq', 'neq', 'approx', 'sim', 'in', 'subset', 'subseteq', 'cup', 'cap', 'forall', 'exists',
+  'to', 'mapsto', 'top', 'intercal', '^', '_',
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'varpi', 'rho', 'varrho', 'sigma', 'varsigma', 'tau', 'upsilon', 'phi', 'varphi',
+  'chi', 'psi', 'omega', 'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega'
+]);
+
+// 影响文档结构、交叉引用或版式的命令
+const STRUCTURAL_MACROS = new Set([
+  'part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'label', 'ref', 'eqref', 'cref', 'Cref',
+  'cite', 'citep', 'citet', 'vspace', 'hspace', 'vskip', 'hskip', 'newpage', 'clearpage', 'pagebreak', 'linebreak',
+  'newline', '\\', 'par', 'noindent', 'centering', 'raggedright', 'raggedleft', 'includegraphics', 'item', 'input',
+  'include', 'setlength', 'addtolength', 'setcounter', 'addtocounter', 'usepackage', 'maketitle', 'tableofcontents',
+  'bibliography', 'bibliographystyle', 'hline', 'def', 'let', ...DEFINITION_COMMANDS
+]);
+
+// 从 AST 中找到的宏定义，附带定义内容的节点 (供展开使用)
+export interface ParsedMacroDefinition extends MacroDefinition {
+  bodyNodes: Ast.Ast[];
+  // 解析器未识别参数时，作为宏名和定义内容读取的后续花括号分组 (掩码时与定义命令一起保留)
+  siblingNodes: Ast.Ast[];
+}
+
+// 宏的分类及依据
+export interface MacroClassification {
+  kind: MacroKind;
+  reason: string;
+}
+
+/**
+ * 判断命令是否为宏定义命令
+ * @param name 命令名
+ */
+export function isMacroDefinitionCommand(name: string): boolean {
+  return DEFINITION_COMMANDS.includes(name);
+}
+
+/**
+ * 找出项目中所有文件里的宏定义 (按文件和出现顺序排列，后出现的定义覆盖先出现的)
+ * @param ast 项目 AST
+ */
+export function findMacroDefinitions(ast: ProjectAST): ParsedMacroDefinition[] {
+  const definitions: ParsedMacroDefinition[] = [];
+  for (const file of ast.files || []) {
+    const root = file.ast as { content?: Ast.Ast[] } | undefined;
+    collectDefinitions(root?.content || [], file.filePath, definitions);
+  }
+  return definitions;
+}
+
+/**
+ * 按定义内容对宏分类
+ * @param definition 宏定义
+ */
+export function classifyMacroDefinition(definition: ParsedMacroDefinition): MacroClassification {
+  if (definition.command === 'DeclareMathOperator') {
+    return { kind: 'math', reason: '使用 \\DeclareMathOperator 定义的数学算子' };
+  }
+  const features = { macros: new Set<string>(), environments: new Set<string>(), hasMath: false, hasText: false };
+  collectFeatures(definition.bodyNodes, features);
+  const structural = [...features.macros].find(name => STRUCTURAL_MACROS.has(name));
+  if (features.environments.size > 0) {
+    return { kind: 'structural', reason: `定义中包含环境 ${[...features.environments].join('、')}` };
+  }
+  if (structural) {
+    return { kind: 'structural', reason: `定义中包含 \\${structural}` };
+  }
+  const math = [...features.macros].find(name => MATH_MACROS.has(name));
+  if (math) {
+    return { kind: 'math', reason: `定义中包含数学命令 \\${math}` };
+  }
+  if (features.hasMath) {
+    return { kind: 'math', reason: '定义中包含数学公式' };
+  }
+  if (!features.hasText && features.macros.size === 0) {
+    return { kind: 'structural', reason: '定义内容为空' };
+  }
+  return { kind: 'text', reason: '定义内容为正文文本' };
+}
+
+/**
+ * 按分类给出默认的处理方式：数学和结构宏整体掩码；文本宏有参数时翻译参数，没有参数时展开
+ * @param kind 分类
+ * @param argCount 参数个数
+ */
+export function getDefaultMacroAction(kind: MacroKind, argCount: number): MacroAction {
+  if (kind !== 'text') return 'mask';
+  return argCount > 0 ? 'translate' : 'expand';
+}
+
+function collectDefinitions(nodes: Ast.Ast[], filePath: string, definitions: ParsedMacroDefinition[]): void {
+  nodes.forEach((node, index) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      collectDefinitions(node, filePath, definitions);
+      return;
+    }
+    const anyNode = node as any;
+    if (anyNode.type === 'macro' && isMacroDefinitionCommand(anyNode.content)) {
+      const definition = parseDefinition(anyNode, nodes.slice(index + 1), filePath);
+      if (definition) definitions.push(definition);
+      return;
+    }
+    if (Array.isArray(anyNode.content)) {
+      collectDefinitions(anyNode.content, filePath, definitions);
+    }
+  });
+}
+
+/**
+ * 解析一个定义命令。解析器已识别参数时使用其参数，否则从之后的花括号分组中读取
+ */
+function parseDefinition(node: Ast.Macro, following: Ast.Ast[], filePath: string): ParsedMacroDefinition | null {
+  const args = ((node.args || []) as Ast.Argument[]).filter(arg => arg && (arg.openMark === '{' || arg.openMark === '['));
+  let mandatory = args.filter(arg => arg.openMark === '{').map(arg => arg.content || []);
+  const optional = args.filter(arg => arg.openMark === '[').map(arg => toString(arg.content || []).trim());
+  let siblingNodes: Ast.Ast[] = [];
+  if (mandatory.length === 0) {
+    siblingNodes = following
+      .filter(sibling => !Array.isArray(sibling) && (sibling as any)?.type !== 'whitespace')
+      .slice(0, 2)
+      .filter(sibling => (sibling as any)?.type === 'group');
+    mandatory = siblingNodes.map(sibling => (sibling as any).content as Ast.Ast[]);
+  }
+  if (mandatory.length < 2) return null;
+
+  const nameNode = findFirstMacro(mandatory[0]);
+  if (!nameNode) return null;
+  const isOperator = node.content === 'DeclareMathOperator';
+  const argCount = isOperator ? 0 : parseInt(optional[0] || '0', 10) || 0;
+  const bodyNodes = mandatory[1];
+  return {
+    name: nameNode.content,
+    command: node.content,
+    argCount,
+    hasOptionalArg: !isOperator && optional.length > 1,
+    body: toString(bodyNodes),
+    filePath,
+    bodyNodes,
+    siblingNodes
+  };
+}
+
+function findFirstMacro(nodes: Ast.Ast[]): Ast.Macro | null {
+  for (const node of nodes) {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) continue;
+    const anyNode = node as any;
+    if (anyNode.type === 'macro') return anyNode as Ast.Macro;
+    if (Array.isArray(anyNode.content)) {
+      const found = findFirstMacro(anyNode.content);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function collectFeatures(
+  nodes: Ast.Ast[],
+  features: { macros: Set<string>; environments: Set<string>; hasMath: boolean; hasText: boolean }
+): void {
+  for (const node of nodes) {
+    if (!node || typeof node !== 'object') continue;
+    if (Array.isArray(node)) {
+      collectFeatures(node, features);
+      continue;
+    }
+    const anyNode = node as any;
+    switch (anyNode.type) {
+      case 'macro':
+        features.macros.add(anyNode.content);
+        for (const arg of anyNode.args || []) collectFeatures(arg?.content || [], features);
+        continue;
+      case 'environment':
+      case 'mathenv':
+        features.environments.add(typeof anyNode.env === 'string' ? anyNode.env : String(anyNode.env?.content ?? ''));
+        continue;
+      case 'inlinemath':
+      case 'displaymath':
+      case 'math.inline':
+      case 'math.display':
+        features.hasMath = true;
+        continue;
+      case 'string':
+        // 参数占位符 #1 不算正文文本
+        if (String(anyNode.content).replace(/#\d/g, '').trim()) features.hasText = true;
+        continue;
+    }
+    if (Array.isArray(anyNode.content)) collectFeatures(anyNode.content, features);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * src/utils/masking-rule.utils.ts
+ *
+ * 掩码规则的解析与匹配。规则按命令或环境声明每个参数的处理方式：
+ * - 字符串形式："\href{mask}{translate}"、"\caption[drop]{translate}"、"\begin{theorem}[translate]"；
+ * - 对象形式：{ "command": "/^IEEE\w+$/", "args": "{translate}" }、{ "environment": "lstlisting", "body": "mask" }。
+ * 名称可以是精确名称、含 * 和 ? 的通配符，或 /正则/ (仅对象形式)。
+ */
+import type { ArgumentAction, CommandArgumentPolicy, EnvironmentBodyAction, MaskingRule, MaskingRuleSpec } from '../types';
+
+const ARGUMENT_ACTIONS: ArgumentAction[] = ['translate', 'mask', 'keep', 'drop'];
+const BODY_ACTIONS: EnvironmentBodyAction[] = ['translate', 'mask'];
+// 字符串形式的规则：\begin{环境名}参数声明 或 \命令名参数声明
+const ENVIRONMENT_RULE_PATTERN = /^\\begin\{([^{}]+)\}(.*)$/;
+const COMMAND_RULE_PATTERN = /^\\([A-Za-z@*?]+)(.*)$/;
+// 参数声明中的一个参数，如 {mask} 或 [translate]
+const ARGUMENT_SPEC_PATTERN = /\s*(\{\s*(\w+)\s*\}|\[\s*(\w+)\s*\])\s*/y;
+
+/**
+ * 解析一条掩码规则
+ * @param spec 字符串或对象形式的规则
+ * @throws 规则格式不正确时抛出错误
+ */
+export function parseMaskingRule(spec: MaskingRuleSpec): MaskingRule {
+  const source = typeof spec === 'string' ? spec : JSON.stringify(spec);
+  const fail = (reason: string): never => {
+    throw new Error(`无效的掩码规则 ${source}: ${reason}`);
+  };
+
+  let target: MaskingRule['target'];
+  let pattern: string;
+  let args: string;
+  let body: string = 'translate';
+  if (typeof spec === 'string') {
+    const environmentMatch = ENVIRONMENT_RULE_PATTERN.exec(spec.trim());
+    const commandMatch = environmentMatch ? null : COMMAND_RULE_PATTERN.exec(spec.trim());
+    if (environmentMatch) {
+      target = 'environment';
+      [, pattern, args] = environmentMatch;
+    } else if (commandMatch) {
+      target = 'command';
+      [, pattern, args] = commandMatch;
+    } else {
+      return fail('应为 "\\命令名{...}" 或 "\\begin{环境名}{...}" 的形式');
+    }
+  } else if (spec && typeof spec === 'object') {
+    if (Boolean(spec.command) === Boolean(spec.environment)) {
+      return fail('需要且只能指定 command 或 environment 之一');
+    }
+    target = spec.command ? 'command' : 'environment';
+    pattern = (spec.command || spec.environment)!.replace(/^\\/, '');
+    args = spec.args || '';
+    body = spec.body || 'translate';
+    if (target === 'command' && spec.body) {
+      return fail('body 只能用于环境');
+    }
+  } else {
+    return fail('应为字符串或对象');
+  }
+
+  if (!BODY_ACTIONS.includes(body as EnvironmentBodyAction)) {
+    return fail(`body 应为 ${BODY_ACTIONS.join('、')} 之一`);
+  }
+  let matcher: RegExp;
+  try {
+    matcher = createNameMatcher(pattern);
+  } catch (error) {
+    return fail(`名称 ${pattern} 不是有效的正则表达式`);
+  }
+  let policy: CommandArgumentPolicy;
+  try {
+    policy = parseArgumentSpec(args);
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+  return { target, pattern, matcher, policy, body: body as EnvironmentBodyAction, source };
+}
+
+/**
+ * 解析参数声明，如 "[translate]{mask}{translate}"。花括号和方括号参数分别按出现顺序编号
+ * @param args 参数声明
+ * @throws 声明格式不正确或处理方式未知时抛出错误
+ */
+export function parseArgumentSpec(args: string): CommandArgumentPolicy {
+  const policy: CommandArgumentPolicy = {};
+  let offset = 0;
+  while (offset < args.length) {
+    ARGUMENT_SPEC_PATTERN.lastIndex = offset;
+    const match = ARGUMENT_SPEC_PATTERN.exec(args);
+    if (!match) {
+      if (args.slice(offset).trim() === '') break;
+      throw new Error(`无法解析参数声明 "${args.slice(offset)}"`);
+    }
+    const action = (match[2] ?? match[3]) as ArgumentAction;
+    if (!ARGUMENT_ACTIONS.includes(action)) {
+      throw new Error(`未知的参数处理方式 ${action}，应为 ${ARGUMENT_ACTIONS.join('、')} 之一`);
+    }
+    const kind = match[2] !== undefined ? 'mandatory' : 'optional';
+    (policy[kind] = policy[kind] || []).push(action);
+    offset = ARGUMENT_SPEC_PATTERN.lastIndex;
+  }
+  return policy;
+}
+
+/**
+ * 将规则中的名称转换为匹配表达式：/.../ 按正则表达式处理，其余按通配符处理 (* 匹配任意字符，? 匹配单个字符)
+ * @param pattern 名称
+ */
+export function createNameMatcher(pattern: string): RegExp {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regexMatch) {
+    // 去掉 g、y 标志，避免 test 在多次调用之间保留位置
+    return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+  }
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 查找第一条匹配命令或环境名称的规则。名称与规则完全相同时也视为匹配 (如环境名 align* 中的 *)
+ * @param rules 解析后的规则
+ * @param target 命令或环境
+ * @param name 命令名或环境名
+ */
+export function findMaskingRule(rules: MaskingRule[], target: MaskingRule['target'], name: string): MaskingRule | undefined {
+  return rules.find(rule => rule.target === target && (rule.pattern === name || rule.matcher.test(name)));
+}
@@ -0,0 +1,301 @@
+/**
+ * src/utils/placeholder.utils.ts
+ *
+ * 掩码占位符的提取、校验与修复。占位符有两种形式：
+ * - 自闭合占位符 <ph id="..."/>，代表整体被掩码的结构；
+ * - 成对占位符 <ph id="..." arg="n">文本</ph>，代表命令的第 n 个参数，其中的文本需要翻译。
+ * 成对占位符以 "id#arg" 作为键参与校验。
+ */
+import type { PlaceholderValidationResult } from '../types';
+
+// 任何看起来像占位符的标签，包括被模型改坏的变体
+const PLACEHOLDER_LIKE_PATTERN = /<\s*\/?\s*ph\b[^<>]*>/gi;
+// 可以安全纠正的变体：大小写、单引号、多余空格
+const LENIENT_PLACEHOLDER_PATTERN = /<\s*ph\s+id\s*=\s*['"]\s*([A-Za-z_]+_\d+)\s*['"]\s*\/\s*>/gi;
+const LENIENT_PAIRED_OPEN_PATTERN = /<\s*ph\s+id\s*=\s*['"]\s*([A-Za-z_]+_\d+)\s*['"]\s+arg\s*=\s*['"]\s*(\d+)\s*['"]\s*>/gi;
+const LENIENT_PAIRED_CLOSE_PATTERN = /<\s*\/\s*ph\s*>/gi;
+// 用于对单个标签分类的精确格式
+const SELF_CLOSING_TAG = /^<ph\s+id\s*=\s*"([A-Z_]+_\d+)"\s*\/>$/;
+const PAIRED_OPEN_TAG = /^<ph\s+id\s*=\s*"([A-Z_]+_\d+)"\s+arg\s*=\s*"(\d+)"\s*>$/;
+const PAIRED_CLOSE_TAG = /^<\/ph>$/;
+
+// 文本中的一个占位符标签
+export interface PlaceholderToken {
+  kind: 'self' | 'open' | 'close' | 'malformed';
+  // 自闭合为 id，成对开始标签为 id#arg，其余为空字符串
+  key: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 生成占位符标签文本
+ * @param id 掩码ID
+ */
+export function formatPlaceholder(id: string): string {
+  return `<ph id="${id}"/>`;
+}
+
+/**
+ * 生成成对占位符的开始标签
+ * @param id 掩码ID
+ * @param argIndex 参数下标
+ */
+export function formatPairedPlaceholderOpen(id: string, argIndex: number): string {
+  return `<ph id="${id}" arg="${argIndex}">`;
+}
+
+/**
+ * 生成成对占位符的键 (id#arg)
+ */
+export function formatPairedPlaceholderKey(id: string, argIndex: number): string {
+  return `${id}#${argIndex}`;
+}
+
+/**
+ * 生成用于提示和日志的占位符描述
+ * @param key 占位符键 (id 或 id#arg)
+ */
+export function describePlaceholder(key: string): string {
+  const [id, arg] = key.split('#');
+  return arg === undefined ? formatPlaceholder(id) : `${formatPairedPlaceholderOpen(id, Number(arg))}…</ph>`;
+}
+
+/**
+ * 按出现顺序切分文本中的所有占位符标签
+ * @param text 文本
+ */
+export function tokenizePlaceholders(text: string): PlaceholderToken[] {
+  return Array.from(text.matchAll(PLACEHOLDER_LIKE_PATTERN), match => {
+    const tag = match[0];
+    const start = match.index ?? 0;
+    const token: PlaceholderToken = { kind: 'malformed', key: '', text: tag, start, end: start + tag.length };
+    const self = SELF_CLOSING_TAG.exec(tag);
+    const open = PAIRED_OPEN_TAG.exec(tag);
+    if (self) {
+      token.kind = 'self';
+      token.key = self[1];
+    } else if (open) {
+      token.kind = 'open';
+      token.key = formatPairedPlaceholderKey(open[1], Number(open[2]));
+    } else if (PAIRED_CLOSE_TAG.test(tag)) {
+      token.kind = 'close';
+    }
+    return token;
+  });
+}
+
+/**
+ * 按出现顺序提取文本中的占位符键 (包含重复项)；成对占位符以 id#arg 表示
+ * @param text 文本
+ */
+export function extractPlaceholderIds(text: string): string[] {
+  return tokenizePlaceholders(text)
+    .filter(token => token.kind === 'self' || token.kind === 'open')
+    .map(token => token.key);
+}
+
+/**
+ * 纠正模型输出中常见的、不改变含义的占位符变体，例如单引号或大小写变化
+ * @param text 模型输出
+ * @returns 规范化后的文本
+ */
+export function normalizePlaceholderTags(text: string): string {
+  return text
+    .replace(LENIENT_PLACEHOLDER_PATTERN, (_match, id: string) => formatPlaceholder(id.toUpperCase()))
+    .replace(LENIENT_PAIRED_OPEN_PATTERN, (_match, id: string, arg: string) => formatPairedPlaceholderOpen(id.toUpperCase(), Number(arg)))
+    .replace(LENIENT_PAIRED_CLOSE_PATTERN, '</ph>');
+}
+
+/**
+ * 比较原文与译文中的占位符集合
+ * @param source 原文 (掩码文本块)
+ * @param translation 译文
+ * @returns 校验结果
+ */
+export function validatePlaceholders(source: string, translation: string): PlaceholderValidationResult {
+  const sourceIds = extractPlaceholderIds(source);
+  const tokens = tokenizePlaceholders(translation);
+  const translatedIds = tokens.filter(token => token.kind === 'self' || token.kind === 'open').map(token => token.key);
+  const sourceSet = new Set(sourceIds);
+  const translatedCounts = new Map<string, number>();
+  for (const id of translatedIds) {
+    translatedCounts.set(id, (translatedCounts.get(id) || 0) + 1);
+  }
+
+  const missing = Array.from(sourceSet).filter(id => !translatedCounts.has(id));
+  const unexpected = Array.from(translatedCounts.keys()).filter(id => !sourceSet.has(id));
+  const duplicated = Array.from(translatedCounts.entries())
+    .filter(([id, count]) => sourceSet.has(id) && count > 1)
+    .map(([id]) => id);
+  const malformed = tokens.filter(token => token.kind === 'malformed').map(token => token.text);
+  // 成对占位符的开始与结束标签必须配对
+  const openStack: PlaceholderToken[] = [];
+  for (const token of tokens) {
+    if (token.kind === 'open') {
+      openStack.push(token);
+    } else if (token.kind === 'close' && !openStack.pop()) {
+      malformed.push(token.text);
+    }
+  }
+  malformed.push(...openStack.map(token => token.text));
+
+  return {
+    valid: missing.length === 0 && unexpected.length === 0 && duplicated.length === 0 && malformed.length === 0,
+    missing,
+    unexpected,
+    duplicated,
+    malformed
+  };
+}
+
+/**
+ * 统计校验结果中的问题数量，用于在多次尝试中选出最好的一次
+ */
+export function countPlaceholderProblems(result: PlaceholderValidationResult): number {
+  return result.missing.length + result.unexpected.length + result.duplicated.length + result.malformed.length;
+}
+
+/**
+ * 查找占位符在文本中的范围；成对占位符包含其中的文本和结束标签
+ * @param text 文本
+ * @param key 占位符键
+ * @returns [开始, 结束)，未找到时返回 null
+ */
+export function findPlaceholderRange(text: string, key: string): { start: number; end: number } | null {
+  const tokens = tokenizePlaceholders(text);
+  const index = tokens.findIndex(token => (token.kind === 'self' || token.kind === 'open') && token.key === key);
+  if (index === -1) return null;
+  const token = tokens[index];
+  if (token.kind === 'self') return { start: token.start, end: token.end };
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].kind === 'open') depth++;
+    if (tokens[i].kind === 'close' && --depth === 0) {
+      return { start: token.start, end: tokens[i].end };
+    }
+  }
+  return { start: token.start, end: token.end };
+}
+
+/**
+ * 删除满足条件的占位符：自闭合占位符删除标签，成对占位符连同其中的文本一起删除
+ * @param text 文本
+ * @param shouldRemove 根据掩码ID判断是否删除
+ */
+export function stripPlaceholders(text: string, shouldRemove: (id: string) => boolean): string {
+  const tokens = tokenizePlaceholders(text);
+  let result = '';
+  let cursor = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if ((token.kind !== 'self' && token.kind !== 'open') || !shouldRemove(token.key.split('#')[0])) continue;
+    if (token.start < cursor) continue; // 已随外层成对占位符一起删除
+    const range = findPlaceholderRange(text.slice(token.start), token.key)!;
+    result += text.slice(cursor, token.start);
+    cursor = token.start + range.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * 去除所有占位符标签，成对占位符中的文本保留
+ * @param text 文本
+ */
+export function removePlaceholderTags(text: string): string {
+  return text.replace(PLACEHOLDER_LIKE_PATTERN, '');
+}
+
+/**
+ * 按顺序查找第一个在文本中存在的占位符范围
+ */
+function findFirstRange(text: string, keys: string[]): { start: number; end: number } | null {
+  for (const key of keys) {
+    const range = findPlaceholderRange(text, key);
+    if (range) return range;
+  }
+  return null;
+}
+
+/**
+ * 按 keep 标记重建文本，未保留的标签被删除 (成对占位符中的文本保留)
+ */
+function removeTokens(text: string, tokens: PlaceholderToken[], keep: boolean[]): string {
+  let result = '';
+  let cursor = 0;
+  tokens.forEach((token, i) => {
+    if (keep[i]) return;
+    result += text.slice(cursor, token.start);
+    cursor = token.end;
+  });
+  return result + text.slice(cursor);
+}
+
+/**
+ * 清理一段文本中的占位符：删除未知、损坏、重复 (保留第一次出现) 和不配对的标签
+ * @param text 文本
+ * @param allowed 允许出现的占位符键
+ * @param seen 已出现过的占位符键，会被更新
+ */
+function sanitizePlaceholders(text: string, allowed: Set<string>, seen: Set<string>): string {
+  const tokens = tokenizePlaceholders(text);
+  const keep = new Array<boolean>(tokens.length).fill(false);
+  const openStack: number[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind === 'self' || token.kind === 'open') {
+      keep[i] = allowed.has(token.key) && !seen.has(token.key);
+      if (keep[i]) seen.add(token.key);
+      if (token.kind === 'open') openStack.push(i);
+    } else if (token.kind === 'close') {
+      const openIndex = openStack.pop();
+      keep[i] = openIndex !== undefined && keep[openIndex];
+    }
+  });
+  // 未闭合的成对标签：去掉开始标签，保留其中的文本
+  for (const openIndex of openStack) {
+    if (keep[openIndex]) seen.delete(tokens[openIndex].key);
+    keep[openIndex] = false;
+  }
+  return removeTokens(text, tokens, keep);
+}
+
+/**
+ * 自动修复译文中的占位符：
+ * 删除未知和损坏的标签，去除重复项（保留第一次出现），
+ * 并把缺失的占位符插回到原文中相邻占位符在译文中的位置附近。
+ * 缺失的成对占位符连同原文中的文本一起插回。
+ * @param source 原文 (掩码文本块)
+ * @param translation 译文
+ * @returns 修复后的译文
+ */
+export function repairPlaceholders(source: string, translation: string): string {
+  const sourceIds = extractPlaceholderIds(source);
+  const sourceSet = new Set(sourceIds);
+  const seen = new Set<string>();
+
+  let repaired = sanitizePlaceholders(translation, sourceSet, seen);
+
+  for (let i = 0; i < sourceIds.length; i++) {
+    const id = sourceIds[i];
+    if (seen.has(id)) continue;
+    let insertion = formatPlaceholder(id);
+    if (id.includes('#')) {
+      const range = findPlaceholderRange(source, id)!;
+      // 原文片段中已在译文里出现的嵌套占位符不再重复插入
+      insertion = sanitizePlaceholders(source.slice(range.start, range.end), sourceSet, seen);
+    }
+    seen.add(id);
+    // 优先放在原文中前一个占位符之后，其次放在后一个占位符之前，都没有时追加到末尾
+    const previousRange = findFirstRange(repaired, sourceIds.slice(0, i).reverse());
+    const nextRange = previousRange ? null : findFirstRange(repaired, sourceIds.slice(i + 1));
+    if (previousRange) {
+      repaired = `${repaired.slice(0, previousRange.end)} ${insertion}${repaired.slice(previousRange.end)}`;
+    } else if (nextRange) {
+      repaired = `${repaired.slice(0, nextRange.start)}${insertion} ${repaired.slice(nextRange.start)}`;
+    } else {
+      repaired = `${repaired} ${insertion}`;
+    }
+  }
+  return repaired;
+}
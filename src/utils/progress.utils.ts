@@ -0,0 +1,120 @@
+/**
+ * src/utils/progress.utils.ts
+ *
+ * 终端进度条：根据 LatexTranslatorService 的 progress 事件显示完成比例、当前文件和预计剩余时间。
+ */
+import type { TranslationProgress } from '../types';
+
+// 两次重绘之间的最小间隔
+const RENDER_INTERVAL_MS = 100;
+const BAR_WIDTH = 24;
+
+/**
+ * 计算整体完成比例：已完成的文件加上当前文件中已完成文本块的比例
+ * @param progress 翻译进度
+ * @returns 0 到 1 之间的比例
+ */
+export function getProgressFraction(progress: TranslationProgress): number {
+  if (progress.phase === 'completed') return 1;
+  if (progress.totalFiles <= 0) return 0;
+  const currentFileFraction = progress.totalChunks > 0 && progress.completedFiles < progress.totalFiles
+    ? progress.completedChunks / progress.totalChunks
+    : 0;
+  return Math.min(1, (progress.completedFiles + currentFileFraction) / progress.totalFiles);
+}
+
+/**
+ * 将毫秒数格式化为 "1时02分" / "3分05秒" / "12秒"
+ * @param ms 毫秒
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}时${String(minutes).padStart(2, '0')}分`;
+  if (minutes > 0) return `${minutes}分${String(seconds).padStart(2, '0')}秒`;
+  return `${seconds}秒`;
+}
+
+export class ProgressBar {
+  private stream: NodeJS.WriteStream;
+  private startedAt: number;
+  private lastRenderAt: number;
+  private progress: TranslationProgress | null;
+  // 当前行上是否显示着进度条
+  private visible: boolean;
+
+  /**
+   * @param stream 输出流，默认为标准错误
+   */
+  constructor(stream: NodeJS.WriteStream = process.stderr) {
+    this.stream = stream;
+    this.startedAt = Date.now();
+    this.lastRenderAt = 0;
+    this.progress = null;
+    this.visible = false;
+  }
+
+  /**
+   * 更新进度并按需重绘
+   * @param progress 翻译进度
+   */
+  update(progress: TranslationProgress): void {
+    this.progress = progress;
+    if (Date.now() - this.lastRenderAt >= RENDER_INTERVAL_MS || progress.completedFiles >= progress.totalFiles) {
+      this.render();
+    }
+  }
+
+  /**
+   * 擦除进度条所在的行 (输出其他内容前调用)
+   */
+  clear(): void {
+    if (!this.visible) return;
+    this.stream.write('\r\x1b[K');
+    this.visible = false;
+  }
+
+  /**
+   * 重绘进度条
+   */
+  render(): void {
+    if (!this.progress) return;
+    this.lastRenderAt = Date.now();
+    const line = this.format(this.progress);
+    const columns = this.stream.columns || 80;
+    this.stream.write(`\r\x1b[K${Array.from(line).slice(0, columns - 1).join('')}`);
+    this.visible = true;
+  }
+
+  /**
+   * 结束显示：绘制最终状态并换行
+   */
+  done(): void {
+    if (this.progress) {
+      this.render();
+      this.stream.write('\n');
+    }
+    this.visible = false;
+  }
+
+  private format(progress: TranslationProgress): string {
+    const fraction = getProgressFraction(progress);
+    const filled = Math.round(fraction * BAR_WIDTH);
+    const bar = `${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}`;
+    const parts = [`[${bar}] ${Math.floor(fraction * 100)}%`, `文件 ${progress.completedFiles}/${progress.totalFiles}`];
+    if (progress.currentFile && progress.completedFiles < progress.totalFiles) {
+      parts.push(progress.totalChunks > 0
+        ? `${progress.currentFile} 块 ${progress.completedChunks}/${progress.totalChunks}`
+        : progress.currentFile);
+    }
+    const elapsed = Date.now() - this.startedAt;
+    if (fraction >= 1) {
+      parts.push(`用时 ${formatDuration(elapsed)}`);
+    } else if (fraction > 0) {
+      parts.push(`剩余约 ${formatDuration(elapsed * (1 - fraction) / fraction)}`);
+    }
+    return parts.join('  ');
+  }
+}
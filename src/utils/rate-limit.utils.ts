@@ -0,0 +1,77 @@
+/**
+ * src/utils/rate-limit.utils.ts
+ * 
+ * 基于一分钟滑动窗口的请求数 / token 数限流器。
+ */
+import { sleep } from './async.utils';
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimiterOptions {
+  // 每分钟最大请求数，0 或未设置表示不限制
+  requestsPerMinute?: number;
+  // 每分钟最大 token 数，0 或未设置表示不限制
+  tokensPerMinute?: number;
+}
+
+export class RateLimiter {
+  private requestsPerMinute: number;
+  private tokensPerMinute: number;
+  private window: { time: number; tokens: number }[];
+  // 服务端要求的暂停 (Retry-After) 截止时间
+  private pausedUntil: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute || 0;
+    this.tokensPerMinute = options.tokensPerMinute || 0;
+    this.window = [];
+    this.pausedUntil = 0;
+  }
+
+  /**
+   * 等待直到可以发送一个消耗 tokens 个 token 的请求，并登记该请求
+   * @param tokens 预计消耗的 token 数
+   */
+  async acquire(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+      const waitMs = this.getWaitTime(now, tokens);
+      if (waitMs <= 0) {
+        this.window.push({ time: now, tokens });
+        return;
+      }
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * 暂停所有请求一段时间，用于响应 429 的 Retry-After
+   * @param ms 暂停的毫秒数
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private getWaitTime(now: number, tokens: number): number {
+    let waitMs = 0;
+    if (this.requestsPerMinute > 0 && this.window.length >= this.requestsPerMinute) {
+      const oldest = this.window[this.window.length - this.requestsPerMinute];
+      waitMs = Math.max(waitMs, oldest.time + WINDOW_MS - now);
+    }
+    if (this.tokensPerMinute > 0 && this.window.length > 0) {
+      // 单个请求超过整个窗口额度时，只要求窗口为空，避免永久等待
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of this.window) {
+        if (used + tokens <= this.tokensPerMinute) break;
+        used -= entry.tokens;
+        waitMs = Math.max(waitMs, entry.time + WINDOW_MS - now);
+      }
+    }
+    return waitMs;
+  }
+}
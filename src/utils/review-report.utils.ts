@@ -0,0 +1,213 @@
+/**
+ * src/utils/review-report.utils.ts
+ *
+ * 生成自包含的 HTML 审校报告：逐块并排显示掩码原文与译文 (块内段落数一致时逐段对齐)，
+ * 占位符显示为标签，鼠标悬停时显示其原始 LaTeX；保留原文的块、存在占位符问题或质量检查问题的块会被突出显示。
+ */
+import type { ChunkTranslationStatus, PlaceholderIntegrityIssue, PlaceholderValidationResult, QaIssue, ReviewChunk, ReviewFile, ReviewReport } from '../types';
+import { alignBilingualSegments } from './bilingual.utils';
+import { tokenizePlaceholders, describePlaceholder } from './placeholder.utils';
+import { escapeXml as escapeHtml } from './xliff.utils';
+
+// 悬停提示中显示的 LaTeX 最大长度 (如整个 figure 环境)
+const MAX_PLACEHOLDER_PREVIEW = 1500;
+
+const STATUS_LABELS: Record<ChunkTranslationStatus, string> = {
+  translated: '已翻译',
+  cached: '翻译缓存',
+  memory: '翻译记忆库',
+  resumed: '检查点',
+  fallback: '保留原文'
+};
+
+const RESOLUTION_LABELS: Record<PlaceholderIntegrityIssue['resolution'], string> = {
+  recovered: '重新提示后通过校验',
+  repaired: '自动修复后使用',
+  fallback: '保留原文'
+};
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0 auto; max-width: 1400px; padding: 0 24px 48px; color: #1f2328; }
+h1 { margin-top: 24px; }
+.meta { color: #59636e; }
+table.summary { border-collapse: collapse; margin: 16px 0; }
+table.summary th, table.summary td { border: 1px solid #d1d9e0; padding: 4px 10px; text-align: right; }
+table.summary th:first-child, table.summary td:first-child { text-align: left; }
+.filter { display: block; margin: 12px 0; }
+section.file { margin-top: 32px; }
+.chunk { border: 1px solid #d1d9e0; border-radius: 6px; margin: 12px 0; overflow: visible; }
+.chunk.fallback { border-color: #cf222e; background: #fff5f5; }
+.chunk.integrity, .chunk.qa { border-color: #bf8700; background: #fffbea; }
+.chunk-header { display: flex; gap: 8px; align-items: center; padding: 6px 10px; border-bottom: 1px solid #d1d9e0; font-size: 13px; color: #59636e; }
+.badge { border-radius: 10px; padding: 0 8px; background: #ddf4ff; color: #0969da; }
+.badge.fallback { background: #ffebe9; color: #cf222e; }
+.badge.integrity, .badge.qa { background: #fff8c5; color: #9a6700; }
+.issue { padding: 6px 10px; font-size: 13px; border-bottom: 1px solid #d1d9e0; }
+.issue ul { margin: 0; padding-left: 20px; }
+.issue .error { color: #cf222e; }
+table.pairs { width: 100%; border-collapse: collapse; table-layout: fixed; }
+table.pairs td { vertical-align: top; padding: 8px 10px; white-space: pre-wrap; word-wrap: break-word; line-height: 1.6; }
+table.pairs td + td { border-left: 1px solid #d1d9e0; }
+table.pairs tr + tr td { border-top: 1px dashed #d1d9e0; }
+.ph { position: relative; display: inline-block; border-radius: 4px; padding: 0 4px; margin: 0 1px; background: #eaeef2; color: #59636e; font: 12px/1.5 ui-monospace, Consolas, monospace; cursor: help; white-space: nowrap; }
+.ph.problem { background: #ffebe9; color: #cf222e; }
+.ph.malformed { background: #cf222e; color: #fff; }
+.ph[data-latex]:hover::after { content: attr(data-latex); position: absolute; left: 0; top: 100%; z-index: 10; min-width: 200px; max-width: 600px; max-height: 400px; overflow: auto; padding: 6px 8px; border-radius: 4px; background: #1f2328; color: #fff; white-space: pre-wrap; }
+.ph-span { border-bottom: 2px solid #8c959f; }
+body.only-problems .chunk:not(.fallback):not(.integrity):not(.qa) { display: none; }
+`;
+
+const SCRIPT = `
+document.getElementById('only-problems').addEventListener('change', function (event) {
+  document.body.classList.toggle('only-problems', event.target.checked);
+});
+`;
+
+/**
+ * 生成自包含的 HTML 审校报告
+ * @param report 报告数据
+ */
+export function buildReviewReportHtml(report: ReviewReport): string {
+  const title = `翻译审校报告 - ${report.projectName}`;
+  const languages = `${report.sourceLanguage || '自动检测'} → ${report.targetLanguage}`;
+  const qaIssues = report.qaIssues || [];
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">${escapeHtml(languages)}，生成于 ${escapeHtml(report.generatedAt)}。鼠标悬停在占位符上可查看原始 LaTeX。</p>`,
+    renderSummary(report.files, qaIssues),
+    '<label class="filter"><input type="checkbox" id="only-problems"> 只显示保留原文、存在占位符问题或质量检查问题的文本块</label>',
+    ...report.files.map((file, index) => renderFile(file, index, qaIssues.filter(issue => issue.fileId === file.fileId))),
+    `<script>${SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 将掩码文本渲染为 HTML，占位符显示为带原始 LaTeX 提示的标签
+ * @param text 掩码文本
+ * @param placeholders 占位符 id 到原始 LaTeX
+ * @param problemKeys 需要标红的占位符键 (id 或 id#arg)
+ */
+export function renderMaskedTextHtml(text: string, placeholders: Record<string, string>, problemKeys: Set<string> = new Set()): string {
+  let html = '';
+  let cursor = 0;
+  let openSpans = 0;
+  const renderChip = (key: string, label: string) => {
+    const id = key.split('#')[0];
+    const latex = placeholders[id];
+    const classes = `ph${problemKeys.has(key) ? ' problem' : ''}`;
+    const tooltip = latex === undefined ? '' : ` data-latex="${escapeHtml(truncate(latex))}"`;
+    return `<span class="${classes}"${tooltip}>${escapeHtml(label)}</span>`;
+  };
+  for (const token of tokenizePlaceholders(text)) {
+    html += escapeHtml(text.slice(cursor, token.start));
+    cursor = token.end;
+    if (token.kind === 'self') {
+      html += renderChip(token.key, token.key);
+    } else if (token.kind === 'open') {
+      const [id, arg] = token.key.split('#');
+      html += `<span class="ph-span">${renderChip(token.key, `${id}[${arg}]`)}`;
+      openSpans++;
+    } else if (token.kind === 'close' && openSpans > 0) {
+      html += '</span>';
+      openSpans--;
+    } else {
+      html += `<span class="ph malformed">${escapeHtml(token.text)}</span>`;
+    }
+  }
+  return html + escapeHtml(text.slice(cursor)) + '</span>'.repeat(openSpans);
+}
+
+function renderSummary(files: ReviewFile[], qaIssues: QaIssue[]): string {
+  const statuses = Object.keys(STATUS_LABELS) as ChunkTranslationStatus[];
+  const header = ['文件', '文本块', ...statuses.map(status => STATUS_LABELS[status]), '占位符问题', '质量问题']
+    .map(cell => `<th>${escapeHtml(cell)}</th>`)
+    .join('');
+  const rows = files.map((file, index) => {
+    const counts = statuses.map(status => file.chunks.filter(chunk => chunk.status === status).length);
+    const issues = file.chunks.filter(chunk => chunk.integrityIssue).length;
+    const qaCount = qaIssues.filter(issue => issue.fileId === file.fileId).length;
+    const name = `<a href="#file-${index + 1}">${escapeHtml(file.fileId)}</a>${file.resumed ? ' (检查点)' : ''}`;
+    return `<tr><td>${name}</td>${[file.chunks.length, ...counts, issues, qaCount].map(count => `<td>${count}</td>`).join('')}</tr>`;
+  });
+  return `<table class="summary"><tr>${header}</tr>\n${rows.join('\n')}\n</table>`;
+}
+
+function renderFile(file: ReviewFile, fileIndex: number, qaIssues: QaIssue[]): string {
+  const lines = [`<section class="file" id="file-${fileIndex + 1}">`, `<h2>${escapeHtml(file.fileId)}</h2>`];
+  if (file.resumed) {
+    lines.push('<p class="meta">该文件已在检查点中完成，本次运行没有重新翻译。</p>');
+  }
+  const total = file.chunks.length;
+  for (const chunk of file.chunks) {
+    lines.push(renderChunk(chunk, total, file.placeholders, qaIssues.filter(issue => issue.chunkIndex === chunk.index)));
+  }
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+function renderChunk(chunk: ReviewChunk, total: number, placeholders: Record<string, string>, qaIssues: QaIssue[]): string {
+  const issue = chunk.integrityIssue;
+  const fallback = chunk.status === 'fallback';
+  const classes = [
+    'chunk',
+    fallback ? 'fallback' : '',
+    issue && issue.resolution !== 'recovered' ? 'integrity' : '',
+    qaIssues.length > 0 ? 'qa' : ''
+  ].filter(Boolean).join(' ');
+  const badges = [`<span class="badge${fallback ? ' fallback' : ''}">${STATUS_LABELS[chunk.status]}</span>`];
+  if (issue) {
+    badges.push(`<span class="badge integrity">占位符: ${RESOLUTION_LABELS[issue.resolution]}</span>`);
+  }
+  if (qaIssues.length > 0) {
+    badges.push(`<span class="badge qa">质量问题 ${qaIssues.length}</span>`);
+  }
+  // 标出最终译文中缺失 (原文侧) 和多出或重复 (译文侧) 的占位符
+  const missingKeys = new Set(issue?.final.missing || []);
+  const extraKeys = new Set([...(issue?.final.unexpected || []), ...(issue?.final.duplicated || [])]);
+  const rows = alignBilingualSegments([chunk]).map(pair =>
+    `<tr><td>${renderMaskedTextHtml(pair.source, placeholders, missingKeys)}</td><td>${renderMaskedTextHtml(pair.translation, placeholders, extraKeys)}</td></tr>`
+  );
+  return [
+    `<div class="${classes}">`,
+    `<div class="chunk-header">块 ${chunk.index + 1}/${total} ${badges.join(' ')}</div>`,
+    issue ? `<div class="issue">${renderIssue(issue)}</div>` : '',
+    qaIssues.length > 0 ? `<div class="issue">${renderQaIssues(qaIssues)}</div>` : '',
+    `<table class="pairs">${rows.join('')}</table>`,
+    '</div>'
+  ].filter(Boolean).join('\n');
+}
+
+function renderIssue(issue: PlaceholderIntegrityIssue): string {
+  const attempts = `共调用模型 ${issue.attempts} 次`;
+  return `首次翻译: ${describeProblems(issue.initial)}；最终采用的译文: ${describeProblems(issue.final)}；${attempts}`;
+}
+
+function renderQaIssues(issues: QaIssue[]): string {
+  const items = issues.map(issue => `<li class="${issue.severity}">${escapeHtml(issue.message)}</li>`);
+  return `<ul>${items.join('')}</ul>`;
+}
+
+function describeProblems(result: PlaceholderValidationResult): string {
+  if (result.valid) return '无问题';
+  const parts: string[] = [];
+  if (result.missing.length > 0) parts.push(`缺失 ${result.missing.map(describePlaceholder).join('、')}`);
+  if (result.unexpected.length > 0) parts.push(`多出 ${result.unexpected.map(describePlaceholder).join('、')}`);
+  if (result.duplicated.length > 0) parts.push(`重复 ${result.duplicated.map(describePlaceholder).join('、')}`);
+  if (result.malformed.length > 0) parts.push(`格式错误 ${result.malformed.join('、')}`);
+  return escapeHtml(parts.join('，'));
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PLACEHOLDER_PREVIEW ? `${text.slice(0, MAX_PLACEHOLDER_PREVIEW)}…` : text;
+}
@@ -0,0 +1,161 @@
+/**
+ * src/utils/source.utils.ts
+ *
+ * 按 AST 节点的位置信息 (position.start/end.offset) 定位节点在原文中的范围。
+ * 掩码和替换时优先使用原文切片，使未翻译的部分与原文逐字节一致，避免重新序列化带来的格式变化。
+ * 解析器为命令附加的参数通常没有位置信息，参数范围按括号和参数内容的位置推算。
+ */
+import type { Ast } from 'ast-gen';
+
+// 节点在原文中的范围 [start, end)
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// 参数在原文中的范围：start 为上一个参数 (或命令名) 结束的位置，包括参数前的空白；
+// contentStart/contentEnd 为括号之间的内容范围
+export interface ArgumentSpan extends SourceSpan {
+  contentStart: number;
+  contentEnd: number;
+}
+
+/**
+ * 获取节点在原文中的范围，命令的范围包括其参数
+ * @param node AST 节点
+ * @param source 节点所在文件的原文
+ * @returns 缺少位置信息或位置与原文不符时返回 undefined
+ */
+export function getNodeSpan(node: Ast.Ast, source: string): SourceSpan | undefined {
+  const bounds = getPositionBounds(node);
+  if (!bounds) return undefined;
+  const anyNode = node as any;
+  if (anyNode.type === 'macro' && Array.isArray(anyNode.args) && anyNode.args.length > 0) {
+    const argSpans = getArgumentSpans(node, source);
+    if (!argSpans) return undefined;
+    return { start: bounds.start, end: Math.max(bounds.end, argSpans[argSpans.length - 1].end) };
+  }
+  return bounds;
+}
+
+/**
+ * 推算命令或环境各参数在原文中的范围 (与 node.args 一一对应)
+ * @param node 命令或环境节点
+ * @param source 节点所在文件的原文
+ * @returns 无法按原文对齐时返回 undefined
+ */
+export function getArgumentSpans(node: Ast.Ast, source: string): ArgumentSpan[] | undefined {
+  const bounds = getPositionBounds(node);
+  if (!bounds) return undefined;
+  const anyNode = node as any;
+  let cursor: number;
+  if (anyNode.type === 'macro') {
+    const head = `${anyNode.escapeToken ?? '\\'}${anyNode.content}`;
+    if (!source.startsWith(head, bounds.start)) return undefined;
+    cursor = bounds.start + head.length;
+  } else {
+    // 环境参数位于 \begin{环境名} 之后
+    const beginMatch = /^\\begin\s*\{[^{}]*\}/.exec(source.slice(bounds.start, bounds.end));
+    if (!beginMatch) return undefined;
+    cursor = bounds.start + beginMatch[0].length;
+  }
+
+  const spans: ArgumentSpan[] = [];
+  for (const arg of (anyNode.args || []) as Ast.Argument[]) {
+    const span = getArgumentSpan(arg, cursor, source);
+    if (!span) return undefined;
+    spans.push(span);
+    cursor = span.end;
+  }
+  return spans;
+}
+
+/**
+ * 检查文件 AST 的位置信息是否与原文一致：至少有一个带位置的节点，且所有文本节点的内容与原文切片相同
+ * (解析前若对原文做过预处理，如换行符转换，位置信息将无法使用)
+ * @param nodes 文件 AST 的根节点内容
+ * @param source 文件原文
+ */
+export function hasConsistentPositions(nodes: Ast.Ast[], source: string): boolean {
+  let positioned = 0;
+  const visit = (items: Ast.Ast[]): boolean => {
+    for (const node of items) {
+      if (!node || typeof node !== 'object') continue;
+      if (Array.isArray(node)) {
+        if (!visit(node)) return false;
+        continue;
+      }
+      const anyNode = node as any;
+      const bounds = getPositionBounds(node);
+      if (bounds) {
+        positioned++;
+        if (bounds.end > source.length) return false;
+        if (anyNode.type === 'string' && source.slice(bounds.start, bounds.end) !== anyNode.content) return false;
+      }
+      if (Array.isArray(anyNode.content) && !visit(anyNode.content)) return false;
+      for (const arg of anyNode.args || []) {
+        if (Array.isArray(arg?.content) && !visit(arg.content)) return false;
+      }
+    }
+    return true;
+  };
+  return visit(nodes) && positioned > 0;
+}
+
+/**
+ * 拆分文本首尾的空白
+ * @returns [开头的空白, 去掉首尾空白的文本, 结尾的空白]
+ */
+export function splitOuterWhitespace(text: string): [string, string, string] {
+  const leading = /^\s*/.exec(text)![0];
+  const rest = text.slice(leading.length);
+  const trailing = /\s*$/.exec(rest)![0];
+  return [leading, rest.slice(0, rest.length - trailing.length), trailing];
+}
+
+function getArgumentSpan(arg: Ast.Argument, cursor: number, source: string): ArgumentSpan | undefined {
+  const openMark = arg.openMark || '';
+  const closeMark = arg.closeMark || '';
+  const content = (arg.content || []) as Ast.Ast[];
+  let contentStart: number;
+  if (openMark) {
+    const markStart = skipWhitespace(source, cursor);
+    if (!source.startsWith(openMark, markStart)) return undefined;
+    contentStart = markStart + openMark.length;
+  } else if (content.length > 0) {
+    // 无括号的参数 (如 \section* 的星号)，范围即内容范围
+    const first = getNodeSpan(content[0], source);
+    if (!first) return undefined;
+    contentStart = first.start;
+  } else {
+    // 省略的可选参数
+    return { start: cursor, end: cursor, contentStart: cursor, contentEnd: cursor };
+  }
+
+  let contentEnd = contentStart;
+  for (const child of content) {
+    const span = getNodeSpan(child, source);
+    if (!span) return undefined;
+    contentEnd = Math.max(contentEnd, span.end);
+  }
+  if (!closeMark) {
+    return { start: cursor, end: contentEnd, contentStart, contentEnd };
+  }
+  const closeStart = skipWhitespace(source, contentEnd);
+  if (!source.startsWith(closeMark, closeStart)) return undefined;
+  return { start: cursor, end: closeStart + closeMark.length, contentStart, contentEnd: closeStart };
+}
+
+function getPositionBounds(node: Ast.Ast): SourceSpan | undefined {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) return undefined;
+  const position = (node as any).position;
+  const start = position?.start?.offset;
+  const end = position?.end?.offset;
+  if (typeof start !== 'number' || typeof end !== 'number' || end < start) return undefined;
+  return { start, end };
+}
+
+function skipWhitespace(source: string, offset: number): number {
+  while (offset < source.length && /\s/.test(source[offset])) offset++;
+  return offset;
+}
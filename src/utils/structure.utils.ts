@@ -0,0 +1,74 @@
+/**
+ * src/utils/structure.utils.ts
+ *
+ * 在源码层面检查 LaTeX 文本的花括号与 \begin/\end 是否配对。
+ * 解析器会容忍并修正部分错误，因此这些检查直接基于文本进行。
+ */
+
+// 内容按原样输出、不参与配对检查的环境
+const VERBATIM_ENVIRONMENT_PATTERN = /\\begin\s*\{(verbatim\*?|lstlisting|minted|comment)\}[\s\S]*?\\end\s*\{\1\}/g;
+const VERB_PATTERN = /\\verb\*?([^A-Za-z\s*])[\s\S]*?\1/g;
+const ENVIRONMENT_PATTERN = /\\(begin|end)\s*\{([^{}]+)\}/g;
+
+// 源码层面的配对检查结果
+export interface LatexBalance {
+  // 未闭合的左花括号数
+  unclosedBraces: number;
+  // 多余的右花括号数
+  extraClosingBraces: number;
+  // \begin/\end 不配对的描述
+  environmentErrors: string[];
+}
+
+/**
+ * 去除不参与配对检查的内容：逐字环境、\verb、转义字符和注释
+ * @param text LaTeX 源码
+ */
+export function stripLatexNoise(text: string): string {
+  return text
+    .replace(VERBATIM_ENVIRONMENT_PATTERN, '')
+    .replace(VERB_PATTERN, '')
+    .replace(/\\\\/g, '  ')
+    .replace(/\\[{}%$&#_]/g, '  ')
+    .replace(/%.*$/gm, '');
+}
+
+/**
+ * 检查 LaTeX 源码中花括号和环境的配对情况
+ * @param text LaTeX 源码
+ */
+export function scanLatexBalance(text: string): LatexBalance {
+  const cleaned = stripLatexNoise(text);
+  let depth = 0;
+  let extraClosingBraces = 0;
+  for (const char of cleaned) {
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth > 0) depth--;
+      else extraClosingBraces++;
+    }
+  }
+
+  const environmentErrors: string[] = [];
+  const stack: string[] = [];
+  for (const match of cleaned.matchAll(ENVIRONMENT_PATTERN)) {
+    const name = match[2].trim();
+    if (match[1] === 'begin') {
+      stack.push(name);
+      continue;
+    }
+    const openIndex = stack.lastIndexOf(name);
+    if (openIndex === -1) {
+      environmentErrors.push(`多余的 \\end{${name}}`);
+      continue;
+    }
+    // 中间未闭合的环境视为缺少 \end
+    for (const unclosed of stack.splice(openIndex).slice(1)) {
+      environmentErrors.push(`\\begin{${unclosed}} 在 \\end{${name}} 之前未闭合`);
+    }
+  }
+  environmentErrors.push(...stack.map(name => `\\begin{${name}} 未闭合`));
+
+  return { unclosedBraces: depth, extraClosingBraces, environmentErrors };
+}
@@ -0,0 +1,153 @@
+/**
+ * src/utils/tmx.utils.ts
+ *
+ * TMX 1.4 (翻译记忆交换格式) 文档的生成与解析。占位符作为原生代码写入行内元素：
+ * - 自闭合占位符 <ph id="IMATH_0001"/> 对应 <ph x="1">&lt;ph id="IMATH_0001"/&gt;</ph>；
+ * - 成对占位符对应 <bpt i="1" x="2">&lt;ph id="FMT_0002" arg="0"&gt;</bpt>文本<ept i="1">&lt;/ph&gt;</ept>。
+ * 解析时 <ph>、<bpt>、<ept>、<it>、<ut> 还原为其中的原生代码，<hi>、<sub> 只保留文本。
+ */
+import { tokenizePlaceholders } from './placeholder.utils';
+import { escapeXml, decodeXmlEntities } from './xliff.utils';
+
+// 一个翻译单元：原文和译文均为掩码文本
+export interface TmxUnit {
+  source: string;
+  target: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // ISO 8601 时间
+  createdAt?: string;
+  updatedAt?: string;
+  origin?: string;
+}
+
+const INLINE_ELEMENT_PATTERN = /<(ph|bpt|ept|it|ut)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1>)|<\/?(?:hi|sub)\b[^>]*>/g;
+
+/**
+ * 生成 TMX 1.4 文档
+ * @param units 翻译单元
+ * @param sourceLanguage 头部的源语言，默认为第一个单元的源语言
+ */
+export function buildTmxDocument(units: TmxUnit[], sourceLanguage?: string): string {
+  const srcLang = sourceLanguage || units[0]?.sourceLanguage || '*all*';
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="latex-translator" creationtoolversion="1.0" segtype="paragraph" o-tmf="latex-translator" adminlang="en" srclang="${escapeXml(srcLang)}" datatype="plaintext"/>`,
+    '  <body>'
+  ];
+  for (const unit of units) {
+    const dates = `${formatDateAttribute('creationdate', unit.createdAt)}${formatDateAttribute('changedate', unit.updatedAt)}`;
+    lines.push(`    <tu srclang="${escapeXml(unit.sourceLanguage)}"${dates}>`);
+    if (unit.origin) {
+      lines.push(`      <prop type="x-origin">${escapeXml(unit.origin)}</prop>`);
+    }
+    lines.push(`      <tuv xml:lang="${escapeXml(unit.sourceLanguage)}"><seg>${maskedTextToTmx(unit.source)}</seg></tuv>`);
+    lines.push(`      <tuv xml:lang="${escapeXml(unit.targetLanguage)}"><seg>${maskedTextToTmx(unit.target)}</seg></tuv>`);
+    lines.push('    </tu>');
+  }
+  lines.push('  </body>', '</tmx>', '');
+  return lines.join('\n');
+}
+
+/**
+ * 解析 TMX 文档。每个 <tu> 中源语言的 <tuv> 与其余每个 <tuv> 组成一个翻译单元
+ * @param xml TMX 文档
+ */
+export function parseTmxDocument(xml: string): TmxUnit[] {
+  const headerSourceLanguage = getAttribute(/<header\b([^>]*)>/.exec(xml)?.[1] || '', 'srclang');
+  const units: TmxUnit[] = [];
+  for (const tuMatch of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+    const tuAttributes = tuMatch[1];
+    const variants = [...tuMatch[2].matchAll(/<tuv\b([^>]*)>[\s\S]*?<seg>([\s\S]*?)<\/seg>[\s\S]*?<\/tuv>/g)].map(match => ({
+      language: getAttribute(match[1], 'xml:lang') || getAttribute(match[1], 'lang') || '',
+      text: tmxToMaskedText(match[2])
+    }));
+    if (variants.length < 2) continue;
+    const sourceLanguage = getAttribute(tuAttributes, 'srclang') || headerSourceLanguage;
+    const sourceIndex = Math.max(0, variants.findIndex(variant => sameLanguage(variant.language, sourceLanguage)));
+    const source = variants[sourceIndex];
+    const origin = /<prop\s+type="x-origin">([\s\S]*?)<\/prop>/.exec(tuMatch[2])?.[1];
+    variants.forEach((variant, index) => {
+      if (index === sourceIndex || !variant.text.trim() || !source.text.trim()) return;
+      units.push({
+        source: source.text,
+        target: variant.text,
+        sourceLanguage: source.language,
+        targetLanguage: variant.language,
+        createdAt: parseTmxDate(getAttribute(tuAttributes, 'creationdate')),
+        updatedAt: parseTmxDate(getAttribute(tuAttributes, 'changedate')),
+        ...(origin ? { origin: decodeXmlEntities(origin) } : {})
+      });
+    });
+  }
+  return units;
+}
+
+/**
+ * 将掩码文本转换为 TMX <seg> 的内容
+ */
+export function maskedTextToTmx(text: string): string {
+  let result = '';
+  let cursor = 0;
+  let pairIndex = 0;
+  const openPairs: number[] = [];
+  for (const token of tokenizePlaceholders(text)) {
+    result += escapeXml(text.slice(cursor, token.start));
+    cursor = token.end;
+    const x = /_(\d+)/.exec(token.key)?.[1];
+    const xAttribute = x ? ` x="${Number(x)}"` : '';
+    if (token.kind === 'self') {
+      result += `<ph${xAttribute}>${escapeXml(token.text)}</ph>`;
+    } else if (token.kind === 'open') {
+      openPairs.push(++pairIndex);
+      result += `<bpt i="${pairIndex}"${xAttribute}>${escapeXml(token.text)}</bpt>`;
+    } else if (token.kind === 'close' && openPairs.length > 0) {
+      result += `<ept i="${openPairs.pop()}">${escapeXml(token.text)}</ept>`;
+    } else {
+      result += escapeXml(token.text);
+    }
+  }
+  return result + escapeXml(text.slice(cursor));
+}
+
+/**
+ * 将 TMX <seg> 的内容还原为掩码文本
+ */
+export function tmxToMaskedText(seg: string): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of seg.matchAll(INLINE_ELEMENT_PATTERN)) {
+    const start = match.index ?? 0;
+    result += decodeXmlEntities(seg.slice(cursor, start));
+    cursor = start + match[0].length;
+    // 行内元素中的原生代码可能包含 <sub> 子元素，只保留其中的文本
+    if (match[2]) result += decodeXmlEntities(match[2].replace(/<[^>]*>/g, ''));
+  }
+  return result + decodeXmlEntities(seg.slice(cursor));
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const pattern = new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}\\s*=\\s*"([^"]*)"`);
+  const value = pattern.exec(attributes)?.[1];
+  return value === undefined ? undefined : decodeXmlEntities(value);
+}
+
+function sameLanguage(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * 将 ISO 8601 时间格式化为 TMX 的 YYYYMMDDThhmmssZ
+ */
+function formatDateAttribute(name: string, isoDate: string | undefined): string {
+  if (!isoDate) return '';
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return '';
+  return ` ${name}="${date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}"`;
+}
+
+function parseTmxDate(value: string | undefined): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value || '');
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.000Z` : undefined;
+}
@@ -0,0 +1,24 @@
+/**
+ * src/utils/token.utils.ts
+ * 
+ * Token 数量估算。无需加载分词器，用于限流和预算等只需近似值的场景。
+ */
+
+// 提示词之外的系统消息等固定开销，用于估算请求的 token 消耗
+export const PROMPT_OVERHEAD_TOKENS = 200;
+
+// CJK 统一表意文字、假名、韩文音节及全角标点，通常每个字符约占一个 token
+const CJK_CHAR_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * 估算文本的 token 数量
+ * @param text 文本
+ * @returns 估算的 token 数 (向上取整)
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_CHAR_PATTERN) || []).length;
+  const otherCount = text.length - cjkCount;
+  // 拉丁字母文本平均约 4 个字符一个 token
+  return Math.ceil(cjkCount + otherCount / 4);
+}
@@ -0,0 +1,130 @@
+/**
+ * src/utils/translation-memory.utils.ts
+ *
+ * 翻译记忆库的段落对齐、占位符编号规范化与相似度计算。
+ * 记忆库以段落为单位保存掩码文本；占位符编号在每个段落内按出现顺序重新编号 (保留类型前缀)，
+ * 复用译文时再按同样的顺序映射回当前文档中的编号。
+ */
+import { tokenizePlaceholders, formatPlaceholder, formatPairedPlaceholderOpen, validatePlaceholders } from './placeholder.utils';
+import { segmentMaskedText } from './xliff.utils';
+
+// 计算相似度时的词元：占位符标签、单个汉字、连续的字母数字、其他单个非空白字符
+const SIMILARITY_TOKEN_PATTERN = /<ph\b[^>]*>|<\/ph>|\p{Script=Han}|(?:(?!\p{Script=Han})[\p{L}\p{N}])+|\S/gu;
+
+// 规范化编号后的段落，ids 为规范化编号到原编号的映射
+export interface NormalizedSegment {
+  text: string;
+  ids: Map<string, string>;
+}
+
+/**
+ * 将段落中的占位符按出现顺序重新编号，如 IMATH_0007、FMT_0009 变为 IMATH_0001、FMT_0002
+ * @param text 掩码文本
+ */
+export function normalizePlaceholderIds(text: string): NormalizedSegment {
+  const ids = new Map<string, string>();
+  const normalizedOf = new Map<string, string>();
+  const normalizedText = replacePlaceholderIds(text, (id) => {
+    let normalized = normalizedOf.get(id);
+    if (!normalized) {
+      normalized = `${id.replace(/_\d+$/, '')}_${String(normalizedOf.size + 1).padStart(4, '0')}`;
+      normalizedOf.set(id, normalized);
+      ids.set(normalized, id);
+    }
+    return normalized;
+  });
+  return { text: normalizedText, ids };
+}
+
+/**
+ * 按映射将规范化的占位符编号还原为当前文档中的编号；映射中没有的编号保持不变
+ * @param text 使用规范化编号的文本
+ * @param ids 规范化编号到原编号的映射
+ */
+export function restorePlaceholderIds(text: string, ids: Map<string, string>): string {
+  return replacePlaceholderIds(text, id => ids.get(id) ?? id);
+}
+
+/**
+ * 将文本块的原文和译文按段落对齐。两者段落数相同且每对段落的占位符一致时逐段配对，
+ * 否则整块作为一对；占位符不一致的配对被丢弃
+ * @param source 原文 (掩码文本)
+ * @param translation 译文 (掩码文本)
+ */
+export function alignSegments(source: string, translation: string): Array<{ source: string; target: string }> {
+  const sourceUnits = getUnits(source);
+  const targetUnits = getUnits(translation);
+  if (sourceUnits.length > 1 && sourceUnits.length === targetUnits.length) {
+    const pairs = sourceUnits.map((unit, index) => ({ source: unit, target: targetUnits[index] }));
+    if (pairs.every(pair => validatePlaceholders(pair.source, pair.target).valid)) {
+      return pairs;
+    }
+  }
+  const pair = { source: source.trim(), target: translation.trim() };
+  if (!pair.source || !pair.target || !validatePlaceholders(pair.source, pair.target).valid) {
+    return [];
+  }
+  return [pair];
+}
+
+/**
+ * 将文本切分为计算相似度用的词元，占位符只保留类型 (如 <IMATH>)，字母转为小写
+ */
+export function tokenizeForSimilarity(text: string): string[] {
+  return (text.match(SIMILARITY_TOKEN_PATTERN) || []).map(token => {
+    if (token === '</ph>') return '</>';
+    if (token.startsWith('<ph')) return `<${(/id\s*=\s*"([A-Za-z_]+?)_\d+"/.exec(token)?.[1] ?? 'ph')}>`;
+    return token.toLowerCase();
+  });
+}
+
+/**
+ * 按词元编辑距离计算两个段落的相似度：1 - 编辑距离 / 较长段落的词元数
+ * @param a 词元序列
+ * @param b 词元序列
+ * @param minScore 低于该相似度时提前结束并返回 0
+ * @returns 0~1 的相似度
+ */
+export function calculateSimilarity(a: string[], b: string[], minScore = 0): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  const maxDistance = Math.floor(maxLength * (1 - minScore));
+  if (Math.abs(a.length - b.length) > maxDistance) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return 0;
+    previous = current;
+  }
+  const distance = previous[b.length];
+  return distance > maxDistance ? 0 : 1 - distance / maxLength;
+}
+
+function getUnits(text: string): string[] {
+  return segmentMaskedText(text)
+    .filter((part): part is { source: string } => typeof part !== 'string')
+    .map(part => part.source);
+}
+
+function replacePlaceholderIds(text: string, replace: (id: string) => string): string {
+  let result = '';
+  let cursor = 0;
+  for (const token of tokenizePlaceholders(text)) {
+    if (token.kind !== 'self' && token.kind !== 'open') continue;
+    result += text.slice(cursor, token.start);
+    cursor = token.end;
+    if (token.kind === 'self') {
+      result += formatPlaceholder(replace(token.key));
+    } else {
+      const [id, arg] = token.key.split('#');
+      result += formatPairedPlaceholderOpen(replace(id), Number(arg));
+    }
+  }
+  return result + text.slice(cursor);
+}
@@ -0,0 +1,45 @@
+/**
+ * src/utils/usage.utils.ts
+ *
+ * Token 用量的累加与格式化。
+ */
+import type { ModelPrice, UsageTotals } from '../types';
+
+/**
+ * 创建全为 0 的用量
+ */
+export function createEmptyUsage(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, estimatedRequests: 0 };
+}
+
+/**
+ * 将 addition 累加到 target
+ * @param target 被累加的用量 (原地修改)
+ * @param addition 要加上的用量
+ */
+export function addUsage(target: UsageTotals, addition: UsageTotals): void {
+  target.requests += addition.requests;
+  target.promptTokens += addition.promptTokens;
+  target.completionTokens += addition.completionTokens;
+  target.totalTokens += addition.totalTokens;
+  target.cost += addition.cost;
+  target.estimatedRequests += addition.estimatedRequests;
+}
+
+/**
+ * 按模型价格计算费用
+ * @param promptTokens 输入 token 数
+ * @param completionTokens 输出 token 数
+ * @param price 模型价格 (每百万 token)，为 null 时费用为 0
+ */
+export function calculateCost(promptTokens: number, completionTokens: number, price: ModelPrice | null): number {
+  return price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0;
+}
+
+/**
+ * 格式化费用 (保留 4 位小数)
+ * @param cost 费用
+ */
+export function formatCost(cost: number): string {
+  return cost.toFixed(4);
+}
@@ -0,0 +1,235 @@
+/**
+ * src/utils/xliff.utils.ts
+ *
+ * XLIFF 2.0 文档的生成与解析。掩码文本按段落切分为翻译单元，占位符映射为 XLIFF 行内代码：
+ * - 自闭合占位符 <ph id="IMATH_0001"/> 对应 <ph id="IMATH_0001" dataRef="..."/>，原始 LaTeX 保存在单元的 <originalData> 中；
+ * - 成对占位符 <ph id="FMT_0001" arg="0">文本</ph> 对应 <pc id="FMT_0001-0">文本</pc>。
+ * 解析时只识别本工具导出的结构，以及 CAT 工具常见的 <mrk>、<sm/>、<em/>、<cp/> 标记。
+ */
+import { tokenizePlaceholders, formatPlaceholder, formatPairedPlaceholderOpen, removePlaceholderTags } from './placeholder.utils';
+import { splitOuterWhitespace } from './source.utils';
+
+export const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+// 行内代码的附加信息
+export interface XliffInlineCode {
+  // <originalData> 中保存原始 LaTeX 的条目 id
+  dataRef?: string;
+  // 在 CAT 工具中显示的简短内容
+  disp?: string;
+}
+
+export interface XliffUnit {
+  id: string;
+  // 掩码文本 (含 <ph> 占位符)
+  source: string;
+  target?: string;
+  // <originalData> 中的条目：id 到原始 LaTeX
+  originalData?: Record<string, string>;
+}
+
+export interface XliffFile {
+  id: string;
+  original: string;
+  units: XliffUnit[];
+}
+
+export interface XliffDocument {
+  srcLang: string;
+  trgLang?: string;
+  files: XliffFile[];
+}
+
+// 段落分隔：空行及其后的空白
+const PARAGRAPH_SEPARATOR = /(\n[ \t]*\n\s*)/;
+const INLINE_TAG_PATTERN = /<(\/?)(ph|pc|mrk|sm|em|cp)\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+// XML 1.0 不允许的控制字符
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+/**
+ * 将掩码文本按段落切分为翻译单元和骨架文本。段落首尾的空白和不含文字的段落 (如只有占位符) 保留在骨架中
+ * @param maskedText 掩码后的文本
+ * @returns 字符串为骨架文本，{ source } 为需要翻译的段落
+ */
+export function segmentMaskedText(maskedText: string): Array<string | { source: string }> {
+  const parts: Array<string | { source: string }> = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (typeof last === 'string') parts[parts.length - 1] = last + text;
+    else parts.push(text);
+  };
+  maskedText.split(PARAGRAPH_SEPARATOR).forEach((piece, index) => {
+    if (index % 2 === 1) {
+      pushText(piece);
+      return;
+    }
+    const [leading, body, trailing] = splitOuterWhitespace(piece);
+    pushText(leading);
+    if (/\p{L}/u.test(removePlaceholderTags(body))) {
+      parts.push({ source: body });
+    } else {
+      pushText(body);
+    }
+    pushText(trailing);
+  });
+  return parts;
+}
+
+/**
+ * 将掩码文本转换为 XLIFF 行内内容
+ * @param text 掩码文本
+ * @param describe 返回占位符的附加信息
+ */
+export function maskedTextToXliff(text: string, describe: (maskId: string) => XliffInlineCode = () => ({})): string {
+  let result = '';
+  let cursor = 0;
+  for (const token of tokenizePlaceholders(text)) {
+    result += escapeXml(text.slice(cursor, token.start));
+    cursor = token.end;
+    if (token.kind === 'self') {
+      const code = describe(token.key);
+      result += `<ph id="${escapeXml(token.key)}"${formatAttribute('dataRef', code.dataRef)}${formatAttribute('disp', code.disp)}/>`;
+    } else if (token.kind === 'open') {
+      const [id, arg] = token.key.split('#');
+      result += `<pc id="${escapeXml(`${id}-${arg}`)}"${formatAttribute('dispStart', describe(id).disp)}>`;
+    } else if (token.kind === 'close') {
+      result += '</pc>';
+    } else {
+      result += escapeXml(token.text);
+    }
+  }
+  return result + escapeXml(text.slice(cursor));
+}
+
+/**
+ * 将 XLIFF 行内内容还原为掩码文本
+ * @param inline <source> 或 <target> 元素的内容
+ */
+export function xliffToMaskedText(inline: string): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of inline.matchAll(INLINE_TAG_PATTERN)) {
+    const [tag, closing, name, attributeText] = match;
+    const start = match.index ?? 0;
+    result += decodeXmlEntities(inline.slice(cursor, start));
+    cursor = start + tag.length;
+    const attributes = parseAttributes(attributeText);
+    if (name === 'ph' && attributes.id) {
+      result += formatPlaceholder(attributes.id);
+    } else if (name === 'pc') {
+      const paired = /^(.+)-(\d+)$/.exec(attributes.id || '');
+      if (closing) result += '</ph>';
+      else if (paired) result += formatPairedPlaceholderOpen(paired[1], Number(paired[2]));
+    } else if (name === 'cp' && attributes.hex) {
+      result += String.fromCodePoint(parseInt(attributes.hex, 16));
+    }
+    // <mrk>、<sm/>、<em/> 为批注和标记，只保留其中的文本
+  }
+  return result + decodeXmlEntities(inline.slice(cursor));
+}
+
+/**
+ * 生成 XLIFF 2.0 文档
+ */
+export function buildXliffDocument(document: XliffDocument): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(document.srcLang)}"${formatAttribute('trgLang', document.trgLang)}>`
+  ];
+  for (const file of document.files) {
+    lines.push(`  <file id="${escapeXml(file.id)}" original="${escapeXml(file.original)}">`);
+    for (const unit of file.units) {
+      lines.push(`    <unit id="${escapeXml(unit.id)}">`);
+      const data = Object.entries(unit.originalData || {});
+      if (data.length > 0) {
+        lines.push('      <originalData>');
+        for (const [id, value] of data) {
+          lines.push(`        <data id="${escapeXml(id)}">${escapeXml(value)}</data>`);
+        }
+        lines.push('      </originalData>');
+      }
+      lines.push(`      <segment state="${unit.target !== undefined ? 'translated' : 'initial'}">`);
+      lines.push(`        <source xml:space="preserve">${unit.source}</source>`);
+      if (unit.target !== undefined) {
+        lines.push(`        <target xml:space="preserve">${unit.target}</target>`);
+      }
+      lines.push('      </segment>');
+      lines.push('    </unit>');
+    }
+    lines.push('  </file>');
+  }
+  lines.push('</xliff>', '');
+  return lines.join('\n');
+}
+
+/**
+ * 解析 XLIFF 2.0 文档中的翻译单元。单元被 CAT 工具拆分为多个 <segment> 时按顺序拼接，
+ * 没有 <target> 的片段不计入译文
+ * @param xml XLIFF 文档
+ * @returns 按 <file> 的 original 属性分组的单元，source/target 已还原为掩码文本
+ */
+export function parseXliffDocument(xml: string): Map<string, Map<string, { source: string; target?: string }>> {
+  const files = new Map<string, Map<string, { source: string; target?: string }>>();
+  for (const fileMatch of xml.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const original = decodeXmlEntities(parseAttributes(fileMatch[1]).original || '');
+    const units = new Map<string, { source: string; target?: string }>();
+    for (const unitMatch of fileMatch[2].matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+      const id = decodeXmlEntities(parseAttributes(unitMatch[1]).id || '');
+      let source = '';
+      let target = '';
+      let translated = false;
+      for (const part of unitMatch[2].matchAll(/<(segment|ignorable)\b[^>]*>([\s\S]*?)<\/\1>/g)) {
+        const partSource = xliffToMaskedText(/<source\b[^>]*>([\s\S]*?)<\/source>/.exec(part[2])?.[1] ?? '');
+        const partTarget = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(part[2]);
+        source += partSource;
+        // 可忽略的片段 (如片段之间的空白) 没有译文时沿用原文
+        if (partTarget && partTarget[1].trim()) {
+          target += xliffToMaskedText(partTarget[1]);
+          translated = true;
+        } else {
+          target += partSource;
+        }
+      }
+      units.set(id, translated ? { source, target } : { source });
+    }
+    files.set(original, units);
+  }
+  return files;
+}
+
+/**
+ * 转义 XML 文本和属性值中的特殊字符，并去掉 XML 1.0 不允许的控制字符
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 还原 XML 实体和字符引用
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity];
+  });
+}
+
+function formatAttribute(name: string, value: string | undefined): string {
+  return value === undefined ? '' : ` ${name}="${escapeXml(value)}"`;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}